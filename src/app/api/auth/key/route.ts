@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { apiError, geminiErrorResponse } from "@/lib/apiErrors";
+import { clearApiKeyCookie, getSessionUser, loginRequired, setApiKeyCookie } from "@/lib/auth";
+import { resolveModel } from "@/lib/models";
+import { getProvider } from "@/lib/providers";
+
+// Verifies a learner's own provider key and stores it encrypted in an httpOnly cookie
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const apiKey = typeof body.apiKey === "string" ? body.apiKey.trim() : "";
+
+    if (loginRequired() && !getSessionUser(request)) {
+      return apiError("LOGIN_REQUIRED", 401);
+    }
+
+    if (!apiKey) {
+      return apiError("API_KEY_REQUIRED", 400);
+    }
+
+    await getProvider(apiKey).verifyKey(resolveModel("text"));
+
+    const response = NextResponse.json({ ownKey: true });
+    setApiKeyCookie(response, apiKey);
+    return response;
+  } catch (error: unknown) {
+    console.error("Gemini API key check error:", error);
+    return geminiErrorResponse(error);
+  }
+}
+
+export async function DELETE() {
+  const response = NextResponse.json({ ownKey: false });
+  clearApiKeyCookie(response);
+  return response;
+}
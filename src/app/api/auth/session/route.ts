@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { apiError } from "@/lib/apiErrors";
+import { clearSessionCookie, getAuthStatus, loginRequired, setSessionCookie, verifyCredentials } from "@/lib/auth";
+
+// Which key will be used, whether login is needed, and today's quota
+export async function GET(request: NextRequest) {
+  return NextResponse.json(getAuthStatus(request));
+}
+
+// Logs in against AUTH_USERS
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => ({}));
+  const { username, password } = body;
+
+  if (!loginRequired() || typeof username !== "string" || typeof password !== "string" || !verifyCredentials(username, password)) {
+    return apiError("INVALID_CREDENTIALS", 401);
+  }
+
+  const response = NextResponse.json({ user: username });
+  setSessionCookie(response, username);
+  return response;
+}
+
+export async function DELETE() {
+  const response = NextResponse.json({ user: null });
+  clearSessionCookie(response);
+  return response;
+}
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from "next/server";
+import { apiError, geminiErrorResponse } from "@/lib/apiErrors";
+import { authorizeGemini, callerSubject } from "@/lib/auth";
+import { pcmSeconds } from "@/lib/quotas";
+import { closeLiveSession, ownsLiveSession, sendLiveAudio, subscribeLiveSession, type LiveEvent } from "@/lib/liveSessions";
+
+interface RouteParams {
+  params: Promise<{ sessionId: string }>;
+}
+
+// Server-sent event stream of model audio and turn events for an open session
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const { sessionId } = await params;
+
+  // Someone else's session answers the same as a missing one
+  if (!ownsLiveSession(sessionId, callerSubject(request))) {
+    return apiError("SESSION_NOT_FOUND", 404);
+  }
+
+  const encoder = new TextEncoder();
+  let unsubscribe: (() => void) | null = null;
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (event: LiveEvent) => {
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+        if (event.type === "closed") {
+          unsubscribe?.();
+          controller.close();
+        }
+      };
+      unsubscribe = subscribeLiveSession(sessionId, send);
+    },
+    cancel() {
+      // The browser went away — don't leave the Gemini socket open
+      unsubscribe?.();
+      closeLiveSession(sessionId);
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
+
+// Streams a microphone frame (or the end-of-stream marker) into the session
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const { sessionId } = await params;
+
+  try {
+    const body = await request.json();
+    const { audioData, audioStreamEnd } = body;
+
+    if (!audioData && !audioStreamEnd) {
+      return apiError("AUDIO_REQUIRED", 400);
+    }
+
+    if (!ownsLiveSession(sessionId, callerSubject(request))) {
+      return apiError("SESSION_NOT_FOUND", 404);
+    }
+
+    // Each frame is charged as it arrives, so a long monologue stops at the quota
+    const access = authorizeGemini(request, { audioSeconds: audioData ? pcmSeconds(audioData) : 0 });
+    if (access instanceof NextResponse) {
+      closeLiveSession(sessionId);
+      return access;
+    }
+
+    if (!sendLiveAudio(sessionId, { audioData, audioStreamEnd })) {
+      return apiError("SESSION_NOT_FOUND", 404);
+    }
+
+    return NextResponse.json({ ok: true });
+  } catch (error: unknown) {
+    console.error("Gemini Live input error:", error);
+    return geminiErrorResponse(error);
+  }
+}
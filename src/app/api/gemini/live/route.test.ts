@@ -0,0 +1,218 @@
+import { afterEach, beforeEach, describe, expect, mock, spyOn, test } from "bun:test";
+import { NextRequest } from "next/server";
+import { readSseEvents, stubGemini } from "../../../../../test/geminiStub";
+import { DELETE, POST } from "./route";
+import { GET as streamEvents, POST as sendAudio } from "./[sessionId]/route";
+import { hasLiveSession } from "@/lib/liveSessions";
+import { ProviderUnsupportedError, type LiveConnectOptions, type LiveEvent } from "@/lib/providers/types";
+
+const IDLE_TIMEOUT_MS = 5 * 60 * 1000;
+
+function jsonRequest(url: string, body: Record<string, unknown>, headers: Record<string, string> = {}) {
+  return new NextRequest(`http://localhost${url}`, {
+    method: "POST",
+    body: JSON.stringify(body),
+    headers,
+  });
+}
+
+const paramsFor = (sessionId: string) => ({ params: Promise.resolve({ sessionId }) });
+
+// A live connection that records what the route sends and lets the test push model events
+function stubLiveConnection() {
+  const sent: string[] = [];
+  const connection = {
+    options: null as LiveConnectOptions | null,
+    sent,
+    ended: 0,
+    closed: 0,
+    emit: (event: LiveEvent) => connection.options?.onEvent(event),
+  };
+  const stub = stubGemini({
+    connectLive: async (options) => {
+      connection.options = options;
+      return {
+        sendAudio: (data) => sent.push(data),
+        endAudio: () => connection.ended++,
+        close: () => connection.closed++,
+      };
+    },
+  });
+  return { stub, connection };
+}
+
+async function openSession(headers: Record<string, string> = {}): Promise<string> {
+  const response = await POST(jsonRequest("/api/gemini/live", { targetLanguage: "English" }, headers));
+  expect(response.status).toBe(200);
+  return (await response.json()).sessionId;
+}
+
+beforeEach(() => {
+  process.env.GEMINI_API_KEY = "server-key";
+  spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  delete process.env.GEMINI_API_KEY;
+  mock.restore();
+});
+
+describe("POST /api/gemini/live", () => {
+  test("requires a key when the server has none and the learner stored none", async () => {
+    delete process.env.GEMINI_API_KEY;
+    const { stub } = stubLiveConnection();
+
+    const response = await POST(jsonRequest("/api/gemini/live", {}));
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ code: "API_KEY_REQUIRED" });
+    expect(stub.apiKeys).toEqual([]);
+  });
+
+  test("opens a session with the live tutor instruction", async () => {
+    const { connection } = stubLiveConnection();
+
+    const response = await POST(jsonRequest("/api/gemini/live", { targetLanguage: "English", level: "B1" }));
+
+    expect(response.status).toBe(200);
+    const body = await response.json();
+    expect(body.sampleRate).toBe(24000);
+    expect(hasLiveSession(body.sessionId)).toBe(true);
+    expect(connection.options?.systemInstruction).toContain("English");
+    expect(connection.options?.systemInstruction).toContain("B1");
+  });
+
+  test("maps a rejected key to API_KEY_INVALID with status 401", async () => {
+    stubGemini({
+      connectLive: async () => {
+        throw new Error("API key not valid. [API_KEY_INVALID]");
+      },
+    });
+
+    const response = await POST(jsonRequest("/api/gemini/live", {}));
+
+    expect(response.status).toBe(401);
+    expect(await response.json()).toEqual({ code: "API_KEY_INVALID" });
+  });
+
+  test("answers 501 when the provider has no live audio", async () => {
+    stubGemini({
+      connectLive: async () => {
+        throw new ProviderUnsupportedError("openai", "Live audio");
+      },
+    });
+
+    const response = await POST(jsonRequest("/api/gemini/live", {}));
+
+    expect(response.status).toBe(501);
+    expect((await response.json()).code).toBe("PROVIDER_UNSUPPORTED");
+  });
+
+  test("closes sessions that have been idle past the timeout", async () => {
+    const { connection } = stubLiveConnection();
+    const idleId = await openSession();
+    const now = Date.now();
+
+    spyOn(Date, "now").mockReturnValue(now + IDLE_TIMEOUT_MS + 1);
+    stubLiveConnection();
+    await openSession();
+
+    expect(hasLiveSession(idleId)).toBe(false);
+    expect(connection.closed).toBe(1);
+    const response = await streamEvents(new NextRequest(`http://localhost/api/gemini/live/${idleId}`), paramsFor(idleId));
+    expect(response.status).toBe(404);
+    expect(await response.json()).toEqual({ code: "SESSION_NOT_FOUND" });
+  });
+});
+
+describe("/api/gemini/live/[sessionId]", () => {
+  test("forwards microphone frames and the end-of-stream marker", async () => {
+    const { connection } = stubLiveConnection();
+    const sessionId = await openSession();
+
+    const frame = Buffer.alloc(3200).toString("base64");
+    expect((await sendAudio(jsonRequest(`/api/gemini/live/${sessionId}`, { audioData: frame }), paramsFor(sessionId))).status).toBe(200);
+    expect((await sendAudio(jsonRequest(`/api/gemini/live/${sessionId}`, { audioStreamEnd: true }), paramsFor(sessionId))).status).toBe(200);
+
+    expect(connection.sent).toEqual([frame]);
+    expect(connection.ended).toBe(1);
+  });
+
+  test("rejects a request without audio", async () => {
+    stubLiveConnection();
+    const sessionId = await openSession();
+
+    const response = await sendAudio(jsonRequest(`/api/gemini/live/${sessionId}`, {}), paramsFor(sessionId));
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ code: "AUDIO_REQUIRED" });
+  });
+
+  test("answers 404 for an unknown session", async () => {
+    stubLiveConnection();
+
+    const response = await sendAudio(jsonRequest("/api/gemini/live/missing", { audioStreamEnd: true }), paramsFor("missing"));
+
+    expect(response.status).toBe(404);
+    expect(await response.json()).toEqual({ code: "SESSION_NOT_FOUND" });
+  });
+
+  test("streams queued and live model events until the session closes", async () => {
+    const { connection } = stubLiveConnection();
+    const sessionId = await openSession();
+    connection.emit({ type: "outputTranscript", text: "Hello" });
+
+    const response = await streamEvents(new NextRequest(`http://localhost/api/gemini/live/${sessionId}`), paramsFor(sessionId));
+    connection.emit({ type: "audio", data: "AAAA" });
+    connection.emit({ type: "turnComplete" });
+    await DELETE(new NextRequest(`http://localhost/api/gemini/live?sessionId=${sessionId}`, { method: "DELETE" }));
+
+    expect(response.headers.get("Content-Type")).toBe("text/event-stream");
+    expect(await readSseEvents<LiveEvent>(response)).toEqual([
+      { type: "outputTranscript", text: "Hello" },
+      { type: "audio", data: "AAAA" },
+      { type: "turnComplete" },
+      { type: "closed" },
+    ]);
+    expect(connection.closed).toBe(1);
+    expect(hasLiveSession(sessionId)).toBe(false);
+  });
+
+  test("answers 404 to a caller that did not open the session", async () => {
+    process.env.TRUSTED_PROXY_HOPS = "1";
+    const { connection } = stubLiveConnection();
+    const owner = { "x-forwarded-for": "10.2.0.1" };
+    const other = { "x-forwarded-for": "10.2.0.2" };
+
+    try {
+      const sessionId = await openSession(owner);
+      const url = `http://localhost/api/gemini/live/${sessionId}`;
+
+      const stream = await streamEvents(new NextRequest(url, { headers: other }), paramsFor(sessionId));
+      const audio = await sendAudio(jsonRequest(`/api/gemini/live/${sessionId}`, { audioStreamEnd: true }, other), paramsFor(sessionId));
+      const closed = await DELETE(
+        new NextRequest(`http://localhost/api/gemini/live?sessionId=${sessionId}`, { method: "DELETE", headers: other })
+      );
+
+      for (const response of [stream, audio, closed]) {
+        expect(response.status).toBe(404);
+        expect(await response.json()).toEqual({ code: "SESSION_NOT_FOUND" });
+      }
+      expect(connection.ended).toBe(0);
+      expect(connection.closed).toBe(0);
+      expect(hasLiveSession(sessionId)).toBe(true);
+      expect((await streamEvents(new NextRequest(url, { headers: owner }), paramsFor(sessionId))).status).toBe(200);
+      await DELETE(new NextRequest(`http://localhost/api/gemini/live?sessionId=${sessionId}`, { method: "DELETE", headers: owner }));
+      expect(connection.closed).toBe(1);
+    } finally {
+      delete process.env.TRUSTED_PROXY_HOPS;
+    }
+  });
+
+  test("DELETE requires a session id", async () => {
+    const response = await DELETE(new NextRequest("http://localhost/api/gemini/live", { method: "DELETE" }));
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ code: "SESSION_ID_REQUIRED" });
+  });
+});
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import { apiError, geminiErrorResponse } from "@/lib/apiErrors";
+import { authorizeGemini } from "@/lib/auth";
+import { getProvider } from "@/lib/providers";
+import { PLACEMENT_SCHEMA, parsePlacementResult } from "@/lib/placement";
+import { resolveModel } from "@/lib/models";
+import { DEFAULT_TARGET_LANGUAGE, DEFAULT_NATIVE_LANGUAGE } from "@/lib/tutorPrompt";
+
+// Estimates a CEFR level from the learner's written answers to the placement prompts
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { answers, targetLanguage, nativeLanguage } = body;
+
+    const items = (Array.isArray(answers) ? answers : []) as { prompt: string; answer: string }[];
+    if (!items.some(item => item.answer?.trim())) {
+      return apiError("MESSAGE_REQUIRED", 400);
+    }
+
+    const access = authorizeGemini(request, { requests: 1 });
+    if (access instanceof NextResponse) {
+      return access;
+    }
+
+    const provider = getProvider(access.apiKey);
+    const target = targetLanguage || DEFAULT_TARGET_LANGUAGE;
+    const responses = items
+      .map((item, i) => `${i + 1}. Tugas: ${item.prompt}\nJawaban: ${item.answer?.trim() || "(dilewati)"}`)
+      .join("\n\n");
+
+    const raw = await provider.generate({
+      model: resolveModel("text"),
+      contents: [
+        {
+          role: "user",
+          parts: [
+            {
+              text: `Kamu adalah penguji bahasa ${target}. Pembelajar menjawab tugas menulis berikut, yang disusun dari mudah (A1) ke sulit (C1). Tugas yang dilewati berarti pembelajar belum mampu.
+
+${responses}
+
+Perkirakan level CEFR pembelajar dalam ${target} berdasarkan kosakata, tata bahasa, panjang kalimat, dan tugas tersulit yang dijawab dengan baik. Jawaban yang tidak ditulis dalam ${target} tidak dihitung. Tulis alasannya dalam ${nativeLanguage || DEFAULT_NATIVE_LANGUAGE}.`,
+            },
+          ],
+        },
+      ],
+      responseSchema: PLACEMENT_SCHEMA,
+    });
+
+    return NextResponse.json(parsePlacementResult(raw || "{}"));
+  } catch (error: unknown) {
+    console.error("Gemini placement error:", error);
+    return geminiErrorResponse(error);
+  }
+}
@@ -0,0 +1,92 @@
+import { afterEach, beforeEach, describe, expect, mock, spyOn, test } from "bun:test";
+import { NextRequest } from "next/server";
+import { stubGemini } from "../../../../../test/geminiStub";
+import { POST } from "./route";
+import type { SpeechOptions } from "@/lib/providers/types";
+
+const AUDIO = Buffer.alloc(3200).toString("base64");
+
+// Three words read badly enough to get a reference voicing each
+const ASSESSMENT = JSON.stringify({
+  overallScore: 40,
+  feedback: "Coba lagi",
+  words: ["Je", "suis", "content"].map(word => ({ word, score: 30, heard: "", phonemes: [], tip: "" })),
+});
+
+function pronunciationRequest(body: Record<string, unknown>, headers: Record<string, string> = {}) {
+  return new NextRequest("http://localhost/api/gemini/pronunciation", {
+    method: "POST",
+    body: JSON.stringify(body),
+    headers,
+  });
+}
+
+function stubAssessment() {
+  const speech: SpeechOptions[] = [];
+  const stub = stubGemini({
+    generate: async () => ASSESSMENT,
+    synthesizeSpeech: async options => {
+      speech.push(options);
+      return "UENN";
+    },
+  });
+  return { stub, speech };
+}
+
+beforeEach(() => {
+  process.env.GEMINI_API_KEY = "server-key";
+  spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  delete process.env.GEMINI_API_KEY;
+  delete process.env.QUOTA_DAILY_REQUESTS;
+  delete process.env.TRUSTED_PROXY_HOPS;
+  mock.restore();
+});
+
+describe("POST /api/gemini/pronunciation", () => {
+  test("rejects a sentence that isn't text", async () => {
+    const { stub } = stubAssessment();
+
+    for (const sentence of [42, { text: "Bonjour" }, "  "]) {
+      const response = await POST(pronunciationRequest({ sentence, audioData: AUDIO }));
+      expect(response.status).toBe(400);
+      expect(await response.json()).toEqual({ code: "SENTENCE_REQUIRED" });
+    }
+    expect(stub.apiKeys).toEqual([]);
+  });
+
+  test("voices the sentence and each weak word", async () => {
+    const { speech } = stubAssessment();
+
+    const response = await POST(pronunciationRequest({ sentence: "Je suis content", audioData: AUDIO, targetLanguage: "French" }));
+
+    expect(response.status).toBe(200);
+    const result = await response.json();
+    expect(result.referenceAudio).toBe("UENN");
+    expect(result.words.map((w: { referenceAudio?: string }) => w.referenceAudio)).toEqual(["UENN", "UENN", "UENN"]);
+    expect(speech).toHaveLength(4);
+  });
+
+  test("charges every TTS call and skips word references the quota can't cover", async () => {
+    process.env.TRUSTED_PROXY_HOPS = "1";
+    process.env.QUOTA_DAILY_REQUESTS = "4";
+    const { speech } = stubAssessment();
+    const headers = { "x-forwarded-for": "10.3.0.1" };
+
+    const response = await POST(pronunciationRequest({ sentence: "Je suis content", audioData: AUDIO }, headers));
+
+    expect(response.status).toBe(200);
+    const result = await response.json();
+    expect(result.referenceAudio).toBe("UENN");
+    expect(result.words.every((w: { referenceAudio?: string }) => w.referenceAudio === undefined)).toBe(true);
+    expect(speech).toHaveLength(1);
+
+    // Two requests of the four are already used by the assessment and the sentence voicing
+    const next = await POST(pronunciationRequest({ sentence: "Je suis content", audioData: AUDIO }, headers));
+    expect(next.status).toBe(200);
+    const again = await POST(pronunciationRequest({ sentence: "Je suis content", audioData: AUDIO }, headers));
+    expect(again.status).toBe(429);
+  });
+});
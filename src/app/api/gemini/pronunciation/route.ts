@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from "next/server";
+import { apiError, geminiErrorResponse } from "@/lib/apiErrors";
+import { authorizeGemini } from "@/lib/auth";
+import { getProvider } from "@/lib/providers";
+import { pcmSeconds } from "@/lib/quotas";
+import { pcm16ToWav } from "@/lib/wav";
+import { synthesizeSpeech, TTS_SAMPLE_RATE } from "@/lib/speech";
+import { PRONUNCIATION_SCHEMA, WEAK_WORD_SCORE, parsePronunciationAssessment } from "@/lib/pronunciation";
+import type { PronunciationResult } from "@/lib/types";
+import { resolveModel } from "@/lib/models";
+import { DEFAULT_TARGET_LANGUAGE, DEFAULT_NATIVE_LANGUAGE } from "@/lib/tutorPrompt";
+
+// Reference voicings of single words are capped so one bad attempt doesn't fan out into many TTS calls
+const MAX_WORD_REFERENCES = 5;
+
+// Scores a recording (16 kHz Int16 PCM, base64) of the learner reading `sentence` aloud
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { sentence, audioData, targetLanguage, nativeLanguage } = body;
+
+    if (typeof sentence !== "string" || !sentence.trim()) {
+      return apiError("SENTENCE_REQUIRED", 400);
+    }
+
+    if (typeof audioData !== "string" || !audioData) {
+      return apiError("AUDIO_REQUIRED", 400);
+    }
+
+    // The assessment and the sentence's reference voicing; word references are charged once known
+    const access = authorizeGemini(request, { requests: 2, audioSeconds: pcmSeconds(audioData) });
+    if (access instanceof NextResponse) {
+      return access;
+    }
+
+    const provider = getProvider(access.apiKey);
+    const language = targetLanguage || DEFAULT_TARGET_LANGUAGE;
+    const wav = pcm16ToWav(Buffer.from(audioData, "base64"), 16000);
+
+    // The sentence reference doesn't depend on the assessment, so both run at once
+    const sentenceAudio = synthesizeSpeech(provider, sentence, language).catch((error: unknown) => {
+      console.error("Gemini TTS error:", error);
+      return null;
+    });
+
+    const raw = await provider.generate({
+      model: resolveModel("text"),
+      contents: [
+        {
+          role: "user",
+          parts: [
+            {
+              text: `Kamu adalah penilai pengucapan ${language}. Pembicara asli ${nativeLanguage || DEFAULT_NATIVE_LANGUAGE} membaca kalimat berikut dengan lantang:
+
+"${sentence}"
+
+Dengarkan rekaman dan nilai pengucapan setiap kata dalam kalimat tersebut secara jujur. Kata yang terlewat bernilai 0. Tulis fonem dalam IPA. Umpan balik dan tips ditulis dalam ${nativeLanguage || DEFAULT_NATIVE_LANGUAGE}.`,
+            },
+            { inlineData: { mimeType: "audio/wav", data: Buffer.from(wav).toString("base64") } },
+          ],
+        },
+      ],
+      responseSchema: PRONUNCIATION_SCHEMA,
+    });
+
+    const assessment = parsePronunciationAssessment(raw || "{}");
+
+    const weakWords = assessment.words
+      .filter(w => w.score < WEAK_WORD_SCORE)
+      .slice(0, MAX_WORD_REFERENCES);
+    // Each reference is one more TTS call. Past the quota the scores still come back, without word audio.
+    const wordAccess = weakWords.length ? authorizeGemini(request, { requests: weakWords.length }) : null;
+    const voicedWords = wordAccess instanceof NextResponse ? [] : weakWords;
+    const wordAudio = new Map(
+      await Promise.all(
+        voicedWords.map(async w => [w.word, await synthesizeSpeech(provider, w.word, language).catch(() => null)] as const)
+      )
+    );
+
+    const result: PronunciationResult = {
+      overallScore: assessment.overallScore,
+      feedback: assessment.feedback,
+      words: assessment.words.map(w => ({ ...w, referenceAudio: wordAudio.get(w.word) ?? undefined })),
+      referenceAudio: await sentenceAudio,
+      sampleRate: TTS_SAMPLE_RATE,
+    };
+    return NextResponse.json(result);
+  } catch (error: unknown) {
+    console.error("Gemini pronunciation error:", error);
+    return geminiErrorResponse(error);
+  }
+}
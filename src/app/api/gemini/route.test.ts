@@ -0,0 +1,267 @@
+import { afterEach, beforeEach, describe, expect, mock, spyOn, test } from "bun:test";
+import { NextRequest, NextResponse } from "next/server";
+import { readSseEvents, stubGemini } from "../../../../test/geminiStub";
+import { POST } from "./route";
+import { setApiKeyCookie } from "@/lib/auth";
+import type { ApiErrorPayload } from "@/lib/apiErrors";
+import { ProviderHttpError, SafetyBlockedError, type GenerateOptions } from "@/lib/providers/types";
+
+const TUTOR_JSON = JSON.stringify({
+  reply: "Hello! How are you?",
+  translation: "Halo! Apa kabar?",
+  corrections: [{ original: "i am", corrected: "I am", explanation: "Huruf kapital" }],
+  vocabulary: [],
+});
+
+function chatRequest(body: Record<string, unknown>, headers: Record<string, string> = {}) {
+  return new NextRequest("http://localhost/api/gemini", {
+    method: "POST",
+    body: JSON.stringify(body),
+    headers,
+  });
+}
+
+async function* chunksOf(text: string, size: number) {
+  for (let i = 0; i < text.length; i += size) {
+    yield text.slice(i, i + size);
+  }
+}
+
+beforeEach(() => {
+  process.env.GEMINI_API_KEY = "server-key";
+  // Failing calls are logged by the route; keep the test output readable
+  spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  delete process.env.GEMINI_API_KEY;
+  mock.restore();
+});
+
+describe("POST /api/gemini", () => {
+  test("requires a key when the server has none and the learner stored none", async () => {
+    delete process.env.GEMINI_API_KEY;
+    const stub = stubGemini();
+
+    const response = await POST(chatRequest({ message: "Hi" }));
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ code: "API_KEY_REQUIRED" });
+    expect(stub.apiKeys).toEqual([]);
+  });
+
+  test("rejects an empty message before touching the model", async () => {
+    const stub = stubGemini();
+
+    const response = await POST(chatRequest({ message: "" }));
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ code: "MESSAGE_REQUIRED" });
+    expect(stub.apiKeys).toEqual([]);
+  });
+
+  test("rejects identical target and native languages", async () => {
+    stubGemini();
+    const response = await POST(chatRequest({ message: "Hi", targetLanguage: "English", nativeLanguage: "English" }));
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ code: "SAME_LANGUAGE" });
+  });
+
+  test("rejects a model outside the registry", async () => {
+    stubGemini();
+    const response = await POST(chatRequest({ message: "Hi", model: "gpt-4" }));
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ code: "MODEL_NOT_SUPPORTED" });
+  });
+
+  test("returns the parsed tutor reply", async () => {
+    let options: GenerateOptions | undefined;
+    const stub = stubGemini({
+      generate: async (received) => {
+        options = received;
+        return TUTOR_JSON;
+      },
+    });
+
+    const response = await POST(chatRequest({
+      message: "i am fine",
+      targetLanguage: "English",
+      conversationHistory: [
+        { role: "user", parts: [{ text: "Hello" }] },
+        { role: "model", parts: [{ text: "Hi there" }] },
+      ],
+    }));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      response: "Hello! How are you?",
+      translation: "Halo! Apa kabar?",
+      corrections: [{ original: "i am", corrected: "I am", explanation: "Huruf kapital" }],
+      vocabulary: [],
+    });
+    expect(stub.apiKeys).toEqual(["server-key"]);
+    expect(options?.contents.map(c => c.role)).toEqual(["user", "model", "user"]);
+    expect(options?.contents.at(-1)).toEqual({ role: "user", parts: [{ text: "i am fine" }] });
+    expect(options?.systemInstruction).toContain("English");
+    expect(options?.responseSchema).toBeDefined();
+  });
+
+  test("falls back to the default tutor settings for unknown strictness and reply length", async () => {
+    let options: GenerateOptions | undefined;
+    stubGemini({
+      generate: async (received) => {
+        options = received;
+        return TUTOR_JSON;
+      },
+    });
+
+    await POST(chatRequest({ message: "Hi", strictness: "toString", replyLength: "constructor" }));
+
+    expect(options?.systemInstruction).toContain("Koreksi kesalahan tata bahasa dengan lembut");
+    expect(options?.systemInstruction).toContain("biasanya cukup satu paragraf pendek");
+    expect(options?.systemInstruction).not.toContain("native code");
+  });
+
+  test("prefers the learner's own key over the server key", async () => {
+    const stub = stubGemini({ generate: async () => TUTOR_JSON });
+    const withCookie = NextResponse.json({});
+    setApiKeyCookie(withCookie, "own-key");
+    const cookie = withCookie.cookies.getAll().map(c => `${c.name}=${c.value}`).join("; ");
+
+    const response = await POST(chatRequest({ message: "Hi" }, { cookie }));
+
+    expect(response.status).toBe(200);
+    expect(stub.apiKeys).toEqual(["own-key"]);
+  });
+
+  test("maps a rejected key to API_KEY_INVALID with status 401", async () => {
+    stubGemini({
+      generate: async () => {
+        throw new Error("API key not valid. Please pass a valid API key. [API_KEY_INVALID]");
+      },
+    });
+
+    const response = await POST(chatRequest({ message: "Hi" }));
+
+    expect(response.status).toBe(401);
+    expect(await response.json()).toEqual({ code: "API_KEY_INVALID" });
+  });
+
+  test("reports other model failures as UPSTREAM_ERROR", async () => {
+    stubGemini({
+      generate: async () => {
+        throw new Error("model overloaded");
+      },
+    });
+
+    const response = await POST(chatRequest({ message: "Hi" }));
+
+    expect(response.status).toBe(500);
+    expect(await response.json()).toEqual({ code: "UPSTREAM_ERROR", detail: "model overloaded" });
+  });
+
+  test("passes a long Gemini rate limit on as 429 with Retry-After", async () => {
+    const generate = mock(async () => {
+      throw new ProviderHttpError('{"error":{"code":429,"status":"RESOURCE_EXHAUSTED"}}', 429, 37);
+    });
+    stubGemini({ generate });
+
+    const response = await POST(chatRequest({ message: "Hi" }));
+
+    expect(response.status).toBe(429);
+    expect(response.headers.get("Retry-After")).toBe("37");
+    expect(await response.json()).toEqual({ code: "UPSTREAM_RATE_LIMITED", retryAfter: 37 });
+    expect(generate).toHaveBeenCalledTimes(1);
+  });
+
+  test("retries an overloaded model before answering", async () => {
+    let attempts = 0;
+    stubGemini({
+      generate: async () => {
+        if (++attempts === 1) throw new ProviderHttpError("The model is overloaded", 503);
+        return TUTOR_JSON;
+      },
+    });
+
+    const response = await POST(chatRequest({ message: "Hi" }));
+
+    expect(response.status).toBe(200);
+    expect(attempts).toBe(2);
+  });
+
+  test("reports a safety block as SAFETY_BLOCKED without retrying", async () => {
+    const generate = mock(async () => {
+      throw new SafetyBlockedError("SAFETY");
+    });
+    stubGemini({ generate });
+
+    const response = await POST(chatRequest({ message: "Hi" }));
+
+    expect(response.status).toBe(422);
+    expect(await response.json()).toEqual({ code: "SAFETY_BLOCKED" });
+    expect(generate).toHaveBeenCalledTimes(1);
+  });
+
+  test("stops at the daily request quota on the server key", async () => {
+    process.env.QUOTA_DAILY_REQUESTS = "1";
+    process.env.TRUSTED_PROXY_HOPS = "1";
+    stubGemini({ generate: async () => TUTOR_JSON });
+
+    try {
+      const first = await POST(chatRequest({ message: "Hi" }, { "x-forwarded-for": "10.1.0.1" }));
+      expect(first.status).toBe(200);
+      // Entries the client put in front of the proxy's own don't make a new caller
+      const response = await POST(chatRequest({ message: "Hi" }, { "x-forwarded-for": "192.0.2.7, 10.1.0.1" }));
+      expect(response.status).toBe(429);
+      expect(await response.json()).toEqual({ code: "QUOTA_REQUESTS_EXCEEDED" });
+    } finally {
+      delete process.env.QUOTA_DAILY_REQUESTS;
+      delete process.env.TRUSTED_PROXY_HOPS;
+    }
+  });
+
+  describe("streaming", () => {
+    test("emits the reply incrementally, then the structured extras", async () => {
+      stubGemini({ generateStream: async () => chunksOf(TUTOR_JSON, 7) });
+
+      const response = await POST(chatRequest({ message: "i am fine", stream: true }));
+
+      expect(response.headers.get("Content-Type")).toBe("text/event-stream");
+      const events = await readSseEvents<{ text?: string; done?: boolean; translation?: string }>(response);
+      const textEvents = events.filter(e => e.text);
+      expect(textEvents.length).toBeGreaterThan(1);
+      expect(textEvents.map(e => e.text).join("")).toBe("Hello! How are you?");
+      expect(events.at(-1)).toMatchObject({ done: true, translation: "Halo! Apa kabar?" });
+    });
+
+    test("answers a rejected key with a plain 401 before streaming starts", async () => {
+      stubGemini({
+        generateStream: async () => {
+          throw new Error("API_KEY_INVALID");
+        },
+      });
+
+      const response = await POST(chatRequest({ message: "Hi", stream: true }));
+
+      expect(response.status).toBe(401);
+      expect(await response.json()).toEqual({ code: "API_KEY_INVALID" });
+    });
+
+    test("ends with an error event when the stream breaks midway", async () => {
+      stubGemini({
+        generateStream: async () => (async function* () {
+          yield '{"reply": "Hel';
+          throw new Error("connection reset");
+        })(),
+      });
+
+      const response = await POST(chatRequest({ message: "Hi", stream: true }));
+      const events = await readSseEvents<{ text?: string; error?: ApiErrorPayload }>(response);
+
+      expect(events[0]).toEqual({ text: "Hel" });
+      expect(events.at(-1)).toEqual({ error: { code: "UPSTREAM_ERROR", detail: "connection reset" } });
+    });
+  });
+});
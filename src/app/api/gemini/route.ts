@@ -1,75 +1,121 @@
 import { NextRequest, NextResponse } from "next/server";
-import { GoogleGenAI } from "@google/genai";
+import { authorizeGemini } from "@/lib/auth";
+import { apiError, geminiErrorPayload, geminiErrorResponse } from "@/lib/apiErrors";
+import { getProvider, type ContentMessage } from "@/lib/providers";
+import { buildTutorInstruction, tutorConfigFromRequest } from "@/lib/tutorPrompt";
+import { isSupportedModel, resolveModel } from "@/lib/models";
+import { TUTOR_RESPONSE_SCHEMA, extractPartialJsonString, parseTutorResponse } from "@/lib/tutorResponse";
+
+// Re-emit the streamed JSON as server-sent events: {"text"} with each new piece of `reply`,
+// then {"done", translation, corrections, vocabulary} once the object is complete, or {"error": {code, detail}}
+function toEventStream(chunks: AsyncIterable<string>): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const iterator = chunks[Symbol.asyncIterator]();
+  let raw = "";
+  let sentReplyLength = 0;
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        // A pull that enqueues nothing is never repeated, so keep reading until there is something to send
+        while (true) {
+          const { value, done } = await iterator.next();
+          if (done) {
+            const { reply, translation, corrections, vocabulary } = parseTutorResponse(raw);
+            if (reply.length > sentReplyLength) {
+              controller.enqueue(encoder.encode(`data: ${JSON.stringify({ text: reply.slice(sentReplyLength) })}\n\n`));
+            }
+            controller.enqueue(encoder.encode(`data: ${JSON.stringify({ done: true, translation, corrections, vocabulary })}\n\n`));
+            controller.close();
+            return;
+          }
+          raw += value;
+          const reply = extractPartialJsonString(raw, "reply");
+          if (reply.length > sentReplyLength) {
+            controller.enqueue(encoder.encode(`data: ${JSON.stringify({ text: reply.slice(sentReplyLength) })}\n\n`));
+            sentReplyLength = reply.length;
+            return;
+          }
+        }
+      } catch (error: unknown) {
+        console.error("Gemini stream error:", error);
+        const { payload } = geminiErrorPayload(error);
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify({ error: payload })}\n\n`));
+        controller.close();
+      }
+    },
+    async cancel() {
+      await iterator.return?.();
+    },
+  });
+}
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { apiKey, message, targetLanguage, nativeLanguage, conversationHistory } = body;
+    const { message, targetLanguage, nativeLanguage, conversationHistory, stream, model } = body;
 
-    if (!apiKey) {
-      return NextResponse.json({ error: "API key diperlukan" }, { status: 400 });
+    if (!message) {
+      return apiError("MESSAGE_REQUIRED", 400);
     }
 
-    if (!message) {
-      return NextResponse.json({ error: "Pesan diperlukan" }, { status: 400 });
+    if (targetLanguage && targetLanguage === nativeLanguage) {
+      return apiError("SAME_LANGUAGE", 400);
     }
 
-    const ai = new GoogleGenAI({ apiKey });
+    if (model !== undefined && !isSupportedModel("text", model)) {
+      return apiError("MODEL_NOT_SUPPORTED", 400);
+    }
 
-    const systemInstruction = `Kamu adalah tutor bahasa yang ramah dan sabar. Kamu membantu pengguna belajar ${targetLanguage || "Bahasa Inggris"} dari ${nativeLanguage || "Bahasa Indonesia"}.
+    const access = authorizeGemini(request, { requests: 1 });
+    if (access instanceof NextResponse) {
+      return access;
+    }
 
-Cara kamu membantu:
-1. Koreksi kesalahan tata bahasa dengan lembut
-2. Berikan terjemahan jika diminta
-3. Jelaskan aturan tata bahasa dengan contoh
-4. Berikan pujian untuk kemajuan pengguna
-5. Gunakan percakapan sehari-hari yang natural
-6. Jika pengguna berbicara dalam ${nativeLanguage || "Bahasa Indonesia"}, bantu mereka mengatakannya dalam ${targetLanguage || "Bahasa Inggris"}
-7. Berikan contoh kalimat yang relevan
+    const provider = getProvider(access.apiKey);
 
-Format respons kamu:
-- Jika ada koreksi: tampilkan koreksi dengan jelas
-- Berikan respons dalam ${targetLanguage || "Bahasa Inggris"} dengan terjemahan ${nativeLanguage || "Bahasa Indonesia"} di bawahnya
-- Tambahkan tips atau catatan tata bahasa jika relevan`;
+    const systemInstruction = buildTutorInstruction(tutorConfigFromRequest(body, "text"));
 
     const history = (conversationHistory || []).map((msg: { role: string; parts: [{ text: string }] }) => ({
       role: msg.role as "user" | "model",
       parts: msg.parts,
     }));
 
-    const contents = [
+    const contents: ContentMessage[] = [
       ...history,
       { role: "user", parts: [{ text: message }] },
     ];
 
-    const response = await ai.models.generateContent({
-      model: "gemini-3-flash-preview",
-      contents,
-      config: {
+    if (stream) {
+      // Errors such as an invalid key surface here, before any bytes are sent
+      const chunks = await provider.generateStream({
+        model: resolveModel("text", model),
+        contents,
         systemInstruction,
-      },
+        responseSchema: TUTOR_RESPONSE_SCHEMA,
+        signal: request.signal,
+      });
+
+      return new Response(toEventStream(chunks), {
+        headers: {
+          "Content-Type": "text/event-stream",
+          "Cache-Control": "no-cache, no-transform",
+          Connection: "keep-alive",
+        },
+      });
+    }
+
+    const raw = await provider.generate({
+      model: resolveModel("text", model),
+      contents,
+      systemInstruction,
+      responseSchema: TUTOR_RESPONSE_SCHEMA,
     });
 
-    return NextResponse.json({ response: response.text });
+    const { reply, translation, corrections, vocabulary } = parseTutorResponse(raw);
+    return NextResponse.json({ response: reply, translation, corrections, vocabulary });
   } catch (error: unknown) {
     console.error("Gemini API error:", error);
-
-    if (error instanceof Error) {
-      if (error.message.includes("API_KEY_INVALID") || error.message.includes("API key")) {
-        return NextResponse.json(
-          { error: "API key tidak valid. Silakan periksa kembali API key Gemini Anda." },
-          { status: 401 }
-        );
-      }
-      return NextResponse.json(
-        { error: `Error: ${error.message}` },
-        { status: 500 }
-      );
-    }
-
-    return NextResponse.json(
-      { error: "Terjadi kesalahan yang tidak diketahui" },
-      { status: 500 }
-    );
+    return geminiErrorResponse(error);
   }
 }
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server";
+import { apiError, geminiErrorResponse } from "@/lib/apiErrors";
+import { authorizeGemini } from "@/lib/auth";
+import { getProvider } from "@/lib/providers";
+import { getScenario } from "@/lib/scenarios";
+import { SCENARIO_REPORT_SCHEMA, parseScenarioReport } from "@/lib/scenarioReport";
+import { resolveModel } from "@/lib/models";
+import { DEFAULT_TARGET_LANGUAGE, DEFAULT_NATIVE_LANGUAGE } from "@/lib/tutorPrompt";
+
+// Judges a finished role-play: which of the scenario's goals the learner reached
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { scenarioId, transcript, targetLanguage, nativeLanguage } = body;
+
+    const scenario = getScenario(scenarioId);
+    if (!scenario) {
+      return apiError("SCENARIO_NOT_FOUND", 404);
+    }
+
+    const turns = (Array.isArray(transcript) ? transcript : []) as { role: string; text: string }[];
+    if (!turns.some(turn => turn.role === "user" && turn.text?.trim())) {
+      return apiError("MESSAGE_REQUIRED", 400);
+    }
+
+    const access = authorizeGemini(request, { requests: 1 });
+    if (access instanceof NextResponse) {
+      return access;
+    }
+
+    const provider = getProvider(access.apiKey);
+    const native = nativeLanguage || DEFAULT_NATIVE_LANGUAGE;
+    const goals = scenario.goals.map(goal => `- ${goal.id}: ${goal.text.id}`).join("\n");
+    const dialogue = turns
+      .map(turn => `${turn.role === "user" ? "Pembelajar" : "Tutor"}: ${turn.text}`)
+      .join("\n");
+
+    const raw = await provider.generate({
+      model: resolveModel("text"),
+      contents: [
+        {
+          role: "user",
+          parts: [
+            {
+              text: `Kamu menilai latihan role-play ${targetLanguage || DEFAULT_TARGET_LANGUAGE} (level ${scenario.level}).
+Situasi: ${scenario.setting}
+Kriteria berhasil: ${scenario.successCriteria}
+
+Tujuan pembelajar (id: deskripsi):
+${goals}
+
+Transkrip:
+${dialogue}
+
+Untuk setiap tujuan, tentukan apakah pembelajar benar-benar mencapainya dalam ${targetLanguage || DEFAULT_TARGET_LANGUAGE}. Nilai secara jujur; tujuan yang hanya dicapai oleh tutor tidak dihitung. Tulis bukti, ringkasan, dan langkah berikutnya dalam ${native}.`,
+            },
+          ],
+        },
+      ],
+      responseSchema: SCENARIO_REPORT_SCHEMA,
+    });
+
+    return NextResponse.json(parseScenarioReport(raw || "{}", scenario));
+  } catch (error: unknown) {
+    console.error("Gemini scenario summary error:", error);
+    return geminiErrorResponse(error);
+  }
+}
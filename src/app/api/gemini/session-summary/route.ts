@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from "next/server";
+import { apiError, geminiErrorResponse } from "@/lib/apiErrors";
+import { authorizeGemini } from "@/lib/auth";
+import { getProvider } from "@/lib/providers";
+import { SESSION_REPORT_SCHEMA, parseSessionReport } from "@/lib/sessionReport";
+import { resolveModel } from "@/lib/models";
+import { DEFAULT_TARGET_LANGUAGE, DEFAULT_NATIVE_LANGUAGE } from "@/lib/tutorPrompt";
+import { isCefrLevel } from "@/lib/proficiency";
+import type { Correction } from "@/lib/types";
+
+interface TranscriptTurn {
+  role: "user" | "model";
+  text: string;
+  corrections?: Correction[];
+}
+
+function isTranscriptTurn(value: unknown): value is TranscriptTurn {
+  if (!value || typeof value !== "object") return false;
+  const turn = value as Record<string, unknown>;
+  return (
+    (turn.role === "user" || turn.role === "model") &&
+    typeof turn.text === "string" &&
+    (turn.corrections === undefined ||
+      (Array.isArray(turn.corrections) &&
+        turn.corrections.every(c => typeof c?.original === "string" && typeof c?.corrected === "string")))
+  );
+}
+
+// Recaps a finished conversation: new words, recurring mistakes, grammar covered and what to do next
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { transcript, targetLanguage, nativeLanguage, level } = body;
+
+    const turns: unknown[] = Array.isArray(transcript) ? transcript : [];
+    if (!turns.every(isTranscriptTurn)) {
+      return apiError("TRANSCRIPT_INVALID", 400);
+    }
+    if (!turns.some(turn => turn.role === "user" && turn.text.trim())) {
+      return apiError("MESSAGE_REQUIRED", 400);
+    }
+
+    if (level !== undefined && level !== null && !isCefrLevel(level)) {
+      return apiError("LEVEL_INVALID", 400);
+    }
+
+    const access = authorizeGemini(request, { requests: 1 });
+    if (access instanceof NextResponse) {
+      return access;
+    }
+
+    const provider = getProvider(access.apiKey);
+    const target = targetLanguage || DEFAULT_TARGET_LANGUAGE;
+    const native = nativeLanguage || DEFAULT_NATIVE_LANGUAGE;
+    // The tutor's corrections are listed under each learner line so recurring mistakes are easy to spot
+    const dialogue = turns
+      .map(turn => {
+        const line = `${turn.role === "user" ? "Pembelajar" : "Tutor"}: ${turn.text}`;
+        const fixes = (turn.corrections ?? []).map(c => `  [koreksi: "${c.original}" → "${c.corrected}"]`);
+        return [line, ...fixes].join("\n");
+      })
+      .join("\n");
+
+    const raw = await provider.generate({
+      model: resolveModel("text"),
+      contents: [
+        {
+          role: "user",
+          parts: [
+            {
+              text: `Kamu merangkum sesi latihan ${target}${level ? ` (level ${level})` : ""} untuk pembelajar yang berbahasa ${native}.
+
+Transkrip:
+${dialogue}
+
+Buat laporan sesi: kosakata ${target} yang baru bagi pembelajar, kesalahan yang muncul lebih dari sekali, poin tata bahasa yang dibahas, dan topik latihan berikutnya. Hanya hitung kesalahan dari baris pembelajar. Tulis ringkasan, penjelasan, dan saran dalam ${native}.`,
+            },
+          ],
+        },
+      ],
+      responseSchema: SESSION_REPORT_SCHEMA,
+    });
+
+    return NextResponse.json(parseSessionReport(raw || "{}"));
+  } catch (error: unknown) {
+    console.error("Gemini session summary error:", error);
+    return geminiErrorResponse(error);
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import { apiError, geminiErrorResponse } from "@/lib/apiErrors";
+import { getProvider } from "@/lib/providers";
+import { pcm16ToWav } from "@/lib/wav";
+import { authorizeGemini } from "@/lib/auth";
+import { pcmSeconds } from "@/lib/quotas";
+import { resolveModel } from "@/lib/models";
+import { DEFAULT_TARGET_LANGUAGE, DEFAULT_NATIVE_LANGUAGE } from "@/lib/tutorPrompt";
+
+// Speech-to-text for the non-live recording mode. Expects 16 kHz Int16 PCM as base64.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { audioData, targetLanguage, nativeLanguage } = body;
+
+    if (!audioData) {
+      return apiError("AUDIO_REQUIRED", 400);
+    }
+
+    const access = authorizeGemini(request, { requests: 1, audioSeconds: pcmSeconds(audioData) });
+    if (access instanceof NextResponse) {
+      return access;
+    }
+
+    const provider = getProvider(access.apiKey);
+    const wav = pcm16ToWav(Buffer.from(audioData, "base64"), 16000);
+
+    const text = await provider.generate({
+      model: resolveModel("text"),
+      contents: [
+        {
+          role: "user",
+          parts: [
+            {
+              text: `Transkripsikan ucapan dalam audio ini kata demi kata. Pembicara sedang belajar ${targetLanguage || DEFAULT_TARGET_LANGUAGE} dan mungkin juga berbicara dalam ${nativeLanguage || DEFAULT_NATIVE_LANGUAGE}. Tulis dengan aksara asli bahasa yang diucapkan dan jangan perbaiki kesalahan tata bahasa. Balas hanya dengan teks transkripsi, tanpa komentar. Jika tidak ada ucapan, balas dengan string kosong.`,
+            },
+            { inlineData: { mimeType: "audio/wav", data: Buffer.from(wav).toString("base64") } },
+          ],
+        },
+      ],
+    });
+
+    return NextResponse.json({ text: text.trim() });
+  } catch (error: unknown) {
+    console.error("Gemini transcription error:", error);
+    return geminiErrorResponse(error);
+  }
+}
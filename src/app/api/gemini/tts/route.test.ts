@@ -0,0 +1,82 @@
+import { afterEach, beforeEach, describe, expect, mock, spyOn, test } from "bun:test";
+import { NextRequest } from "next/server";
+import { stubGemini } from "../../../../../test/geminiStub";
+import { POST } from "./route";
+import { ProviderUnsupportedError } from "@/lib/providers";
+import type { SpeechOptions } from "@/lib/providers/types";
+
+function ttsRequest(body: Record<string, unknown>) {
+  return new NextRequest("http://localhost/api/gemini/tts", {
+    method: "POST",
+    body: JSON.stringify(body),
+  });
+}
+
+beforeEach(() => {
+  process.env.GEMINI_API_KEY = "server-key";
+  spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  delete process.env.GEMINI_API_KEY;
+  mock.restore();
+});
+
+describe("POST /api/gemini/tts", () => {
+  test("rejects a reply with no readable text", async () => {
+    const stub = stubGemini();
+
+    const response = await POST(ttsRequest({ text: "**  **" }));
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ code: "MESSAGE_REQUIRED" });
+    expect(stub.apiKeys).toEqual([]);
+  });
+
+  test("voices the plain text of the reply with the chosen voice", async () => {
+    const calls: SpeechOptions[] = [];
+    stubGemini({
+      synthesizeSpeech: async options => {
+        calls.push(options);
+        return "UENN";
+      },
+    });
+
+    const response = await POST(ttsRequest({ text: "**Bonjour** {日本|にほん}", targetLanguage: "French", voice: "Puck" }));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ audioData: "UENN", sampleRate: 24000, voice: "Puck" });
+    expect(calls).toHaveLength(1);
+    expect(calls[0].voiceName).toBe("Puck");
+    expect(calls[0].prompt).toContain("in French: Bonjour 日本");
+    expect(calls[0].prompt).not.toContain("**");
+  });
+
+  test("falls back to the default voice for unknown names", async () => {
+    const calls: SpeechOptions[] = [];
+    stubGemini({
+      synthesizeSpeech: async options => {
+        calls.push(options);
+        return "UENN";
+      },
+    });
+
+    const response = await POST(ttsRequest({ text: "Hello", voice: "Nobody" }));
+
+    expect((await response.json()).voice).toBe("Kore");
+    expect(calls[0].voiceName).toBe("Kore");
+  });
+
+  test("reports providers without speech synthesis", async () => {
+    stubGemini({
+      synthesizeSpeech: async () => {
+        throw new ProviderUnsupportedError("openai", "Speech synthesis");
+      },
+    });
+
+    const response = await POST(ttsRequest({ text: "Hello" }));
+
+    expect(response.status).toBe(501);
+    expect((await response.json()).code).toBe("PROVIDER_UNSUPPORTED");
+  });
+});
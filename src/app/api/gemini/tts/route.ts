@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { apiError, geminiErrorResponse } from "@/lib/apiErrors";
+import { authorizeGemini } from "@/lib/auth";
+import { getProvider } from "@/lib/providers";
+import { markdownToPlainText } from "@/lib/markdown";
+import { synthesizeSpeech, TTS_SAMPLE_RATE } from "@/lib/speech";
+import { DEFAULT_TTS_VOICE, isTtsVoice } from "@/lib/voices";
+import { DEFAULT_TARGET_LANGUAGE } from "@/lib/tutorPrompt";
+
+// Longer replies are cut off rather than rejected; TTS latency grows with the text
+const MAX_TEXT_LENGTH = 2000;
+
+// Voices a tutor reply. `text` is the reply itself (Markdown is stripped); the native-language
+// translation travels separately and is never sent here. Responds with 24 kHz Int16 PCM as base64.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { text, targetLanguage, voice } = body;
+
+    const plain = typeof text === "string" ? markdownToPlainText(text).trim().slice(0, MAX_TEXT_LENGTH) : "";
+    if (!plain) {
+      return apiError("MESSAGE_REQUIRED", 400);
+    }
+
+    const access = authorizeGemini(request, { requests: 1 });
+    if (access instanceof NextResponse) {
+      return access;
+    }
+
+    const voiceName = isTtsVoice(voice) ? voice : DEFAULT_TTS_VOICE;
+    const audioData = await synthesizeSpeech(getProvider(access.apiKey), plain, targetLanguage || DEFAULT_TARGET_LANGUAGE, voiceName);
+
+    return NextResponse.json({ audioData, sampleRate: TTS_SAMPLE_RATE, voice: voiceName });
+  } catch (error: unknown) {
+    console.error("Gemini TTS error:", error);
+    return geminiErrorResponse(error);
+  }
+}
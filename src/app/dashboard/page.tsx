@@ -0,0 +1,10 @@
+import type { Metadata } from "next";
+import ProgressDashboard from "@/components/ProgressDashboard";
+
+export const metadata: Metadata = {
+  title: "Progress - AI Language Learning",
+};
+
+export default function DashboardPage() {
+  return <ProgressDashboard />;
+}
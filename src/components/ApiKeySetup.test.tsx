@@ -0,0 +1,101 @@
+import { afterEach, describe, expect, mock, spyOn, test } from "bun:test";
+import { fireEvent, render, screen, waitFor } from "@testing-library/react";
+import ApiKeySetup from "./ApiKeySetup";
+import { createTranslator } from "@/lib/i18n";
+import { NATIVE_LANGUAGE_STORAGE_KEY } from "@/lib/languages";
+
+const t = createTranslator("id");
+
+function stubFetch(respond: (url: string, init?: RequestInit) => Promise<Response>) {
+  return spyOn(globalThis, "fetch").mockImplementation(((url: string, init?: RequestInit) => respond(url, init)) as typeof fetch);
+}
+
+function enterKey(value: string) {
+  fireEvent.change(screen.getByPlaceholderText("AIza..."), { target: { value } });
+}
+
+const submitButton = () => screen.getByRole("button", { name: t("apiKey.submit") });
+
+afterEach(() => {
+  mock.restore();
+});
+
+describe("ApiKeySetup", () => {
+  test("keeps submit disabled until a key is entered", () => {
+    render(<ApiKeySetup onApiKeySet={() => {}} />);
+
+    expect(submitButton()).toHaveProperty("disabled", true);
+    enterKey("   ");
+    expect(submitButton()).toHaveProperty("disabled", true);
+    enterKey("AIza-test");
+    expect(submitButton()).toHaveProperty("disabled", false);
+  });
+
+  test("posts the trimmed key and reports success", async () => {
+    const fetchSpy = stubFetch(async () => Response.json({ ownKey: true }));
+    const onApiKeySet = mock(() => {});
+    render(<ApiKeySetup onApiKeySet={onApiKeySet} />);
+
+    enterKey("  AIza-test  ");
+    fireEvent.click(submitButton());
+
+    await waitFor(() => expect(onApiKeySet).toHaveBeenCalledTimes(1));
+    const [url, init] = fetchSpy.mock.calls[0] as [string, RequestInit];
+    expect(url).toBe("/api/auth/key");
+    expect(JSON.parse(init.body as string)).toEqual({ apiKey: "AIza-test" });
+  });
+
+  test("shows the localized error for a rejected key", async () => {
+    stubFetch(async () => Response.json({ code: "API_KEY_INVALID" }, { status: 401 }));
+    const onApiKeySet = mock(() => {});
+    render(<ApiKeySetup onApiKeySet={onApiKeySet} />);
+
+    enterKey("AIza-wrong");
+    fireEvent.click(submitButton());
+
+    expect(await screen.findByText(t("errors.API_KEY_INVALID"))).toBeDefined();
+    expect(onApiKeySet).not.toHaveBeenCalled();
+    expect(submitButton()).toHaveProperty("disabled", false);
+  });
+
+  test("tells the learner when the server can't be reached", async () => {
+    stubFetch(async () => {
+      throw new TypeError("Failed to fetch");
+    });
+    render(<ApiKeySetup onApiKeySet={() => {}} />);
+
+    enterKey("AIza-test");
+    fireEvent.click(submitButton());
+
+    expect(await screen.findByText(t("apiKey.serverUnreachable"))).toBeDefined();
+  });
+
+  test("switches the interface language", () => {
+    render(<ApiKeySetup onApiKeySet={() => {}} />);
+
+    fireEvent.change(screen.getByLabelText(t("apiKey.interfaceLanguage")), { target: { value: "English" } });
+
+    expect(screen.getByText(createTranslator("en")("apiKey.heading"))).toBeDefined();
+    expect(localStorage.getItem(NATIVE_LANGUAGE_STORAGE_KEY)).toBe("English");
+  });
+
+  test("offers the shared key only when the deployment has one", () => {
+    const { rerender } = render(<ApiKeySetup onApiKeySet={() => {}} />);
+    expect(screen.queryByText(t("apiKey.useServerKey"))).toBeNull();
+
+    const onUseServerKey = mock(() => {});
+    rerender(<ApiKeySetup onApiKeySet={() => {}} onUseServerKey={onUseServerKey} />);
+    fireEvent.click(screen.getByText(t("apiKey.useServerKey")));
+    expect(onUseServerKey).toHaveBeenCalledTimes(1);
+  });
+
+  test("lets the learner keep the key they already stored", () => {
+    const { rerender } = render(<ApiKeySetup onApiKeySet={() => {}} />);
+    expect(screen.queryByText(t("apiKey.keepCurrentKey"))).toBeNull();
+
+    const onCancel = mock(() => {});
+    rerender(<ApiKeySetup onApiKeySet={() => {}} onCancel={onCancel} />);
+    fireEvent.click(screen.getByText(t("apiKey.keepCurrentKey")));
+    expect(onCancel).toHaveBeenCalledTimes(1);
+  });
+});
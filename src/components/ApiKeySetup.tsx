@@ -1,53 +1,59 @@
 "use client";
 
-import { useState } from "react";
+import { useMemo, useState } from "react";
+import { NATIVE_LANGUAGES, getStoredNativeLanguage, storeNativeLanguage } from "@/lib/languages";
+import { createTranslator, localizeApiError, uiLocaleFor } from "@/lib/i18n";
 
 interface ApiKeySetupProps {
-  onApiKeySet: (key: string) => void;
+  onApiKeySet: () => void;
+  // Offered when the learner already has a key stored, which stays until a new one is saved
+  onCancel?: () => void;
+  // Offered when the deployment has a shared key to fall back to
+  onUseServerKey?: () => void;
 }
 
-export default function ApiKeySetup({ onApiKeySet }: ApiKeySetupProps) {
+export default function ApiKeySetup({ onApiKeySet, onCancel, onUseServerKey }: ApiKeySetupProps) {
   const [apiKey, setApiKey] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState("");
   const [showKey, setShowKey] = useState(false);
+  const [nativeLanguage, setNativeLanguage] = useState(getStoredNativeLanguage);
+  const t = useMemo(() => createTranslator(uiLocaleFor(nativeLanguage)), [nativeLanguage]);
+
+  const handleNativeLanguageChange = (code: string) => {
+    setNativeLanguage(code);
+    storeNativeLanguage(code);
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!apiKey.trim()) {
-      setError("Masukkan API key terlebih dahulu");
+      setError(t("apiKey.required"));
       return;
     }
 
     setIsLoading(true);
     setError("");
 
-    // Test the API key with a simple request
+    // The server verifies the key and keeps it in an encrypted httpOnly cookie
     try {
-      const response = await fetch("/api/gemini", {
+      const response = await fetch("/api/auth/key", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          apiKey: apiKey.trim(),
-          message: "Hello",
-          targetLanguage: "English",
-          nativeLanguage: "Indonesian",
-        }),
+        body: JSON.stringify({ apiKey: apiKey.trim() }),
       });
 
       const data = await response.json();
 
       if (!response.ok) {
-        setError(data.error || "API key tidak valid");
+        setError(data.code ? localizeApiError(t, data) : t("apiKey.invalid"));
         setIsLoading(false);
         return;
       }
 
-      // Save to localStorage
-      localStorage.setItem("gemini_api_key", apiKey.trim());
-      onApiKeySet(apiKey.trim());
+      onApiKeySet();
     } catch {
-      setError("Gagal menghubungi server. Coba lagi.");
+      setError(t("apiKey.serverUnreachable"));
     } finally {
       setIsLoading(false);
     }
@@ -63,21 +69,36 @@ export default function ApiKeySetup({ onApiKeySet }: ApiKeySetupProps) {
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11a7 7 0 01-7 7m0 0a7 7 0 01-7-7m7 7v4m0 0H8m4 0h4m-4-8a3 3 0 01-3-3V5a3 3 0 116 0v6a3 3 0 01-3 3z" />
             </svg>
           </div>
-          <h1 className="text-3xl font-bold text-white mb-2">AI Language Tutor</h1>
-          <p className="text-purple-300 text-sm">Belajar bahasa dengan AI Gemini secara real-time</p>
+          <h1 className="text-3xl font-bold text-white mb-2">{t("app.title")}</h1>
+          <p className="text-purple-300 text-sm">{t("app.tagline")}</p>
         </div>
 
         {/* Card */}
         <div className="bg-white/10 backdrop-blur-md rounded-2xl p-6 border border-white/20 shadow-xl">
-          <h2 className="text-white font-semibold text-lg mb-1">Masukkan Gemini API Key</h2>
+          <div className="flex items-center justify-between gap-3 mb-1">
+            <h2 className="text-white font-semibold text-lg">{t("apiKey.heading")}</h2>
+            <select
+              value={nativeLanguage}
+              onChange={(e) => handleNativeLanguageChange(e.target.value)}
+              aria-label={t("apiKey.interfaceLanguage")}
+              title={t("apiKey.interfaceLanguage")}
+              className="bg-white/10 border border-white/20 rounded-lg px-2 py-1 text-white text-xs focus:outline-none focus:ring-2 focus:ring-purple-500"
+            >
+              {NATIVE_LANGUAGES.map(lang => (
+                <option key={lang.code} value={lang.code} className="bg-slate-900">
+                  {lang.label}
+                </option>
+              ))}
+            </select>
+          </div>
           <p className="text-slate-400 text-sm mb-5">
-            API key disimpan di browser Anda dan tidak dikirim ke server kami.
+            {t("apiKey.privacy")}
           </p>
 
           <form onSubmit={handleSubmit} className="space-y-4">
             <div>
               <label className="block text-slate-300 text-sm font-medium mb-2">
-                Google Gemini API Key
+                {t("apiKey.label")}
               </label>
               <div className="relative">
                 <input
@@ -126,30 +147,50 @@ export default function ApiKeySetup({ onApiKeySet }: ApiKeySetupProps) {
                     <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
                     <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
                   </svg>
-                  Memverifikasi...
+                  {t("apiKey.verifying")}
                 </>
               ) : (
                 <>
                   <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
                   </svg>
-                  Simpan & Mulai
+                  {t("apiKey.submit")}
                 </>
               )}
             </button>
           </form>
 
+          {onCancel && (
+            <button
+              type="button"
+              onClick={onCancel}
+              className="w-full mt-3 text-slate-400 hover:text-white text-sm transition-colors"
+            >
+              {t("apiKey.keepCurrentKey")}
+            </button>
+          )}
+
+          {onUseServerKey && (
+            <button
+              type="button"
+              onClick={onUseServerKey}
+              className="w-full mt-3 text-slate-400 hover:text-white text-sm transition-colors"
+            >
+              {t("apiKey.useServerKey")}
+            </button>
+          )}
+
           {/* Help link */}
           <div className="mt-4 pt-4 border-t border-white/10">
             <p className="text-slate-400 text-xs text-center">
-              Belum punya API key?{" "}
+              {t("apiKey.noKey")}{" "}
               <a
                 href="https://aistudio.google.com/app/apikey"
                 target="_blank"
                 rel="noopener noreferrer"
                 className="text-purple-400 hover:text-purple-300 underline"
               >
-                Dapatkan gratis di Google AI Studio
+                {t("apiKey.getKey")}
               </a>
             </p>
           </div>
@@ -158,9 +199,9 @@ export default function ApiKeySetup({ onApiKeySet }: ApiKeySetupProps) {
         {/* Features */}
         <div className="mt-6 grid grid-cols-3 gap-3">
           {[
-            { icon: "🎙️", label: "Audio Real-time" },
-            { icon: "🌍", label: "Multi Bahasa" },
-            { icon: "🤖", label: "AI Gemini" },
+            { icon: "🎙️", label: t("apiKey.featureAudio") },
+            { icon: "🌍", label: t("apiKey.featureLanguages") },
+            { icon: "🤖", label: t("apiKey.featureAi") },
           ].map((feature) => (
             <div key={feature.label} className="bg-white/5 rounded-xl p-3 text-center border border-white/10">
               <div className="text-2xl mb-1">{feature.icon}</div>
@@ -0,0 +1,43 @@
+import { afterEach, describe, expect, mock, spyOn, test } from "bun:test";
+import { render, screen } from "@testing-library/react";
+import AppClient from "./AppClient";
+import { createTranslator } from "@/lib/i18n";
+import type { AuthStatus } from "@/lib/types";
+
+const t = createTranslator("id");
+
+const NO_KEY: AuthStatus = { loginRequired: false, user: null, ownKey: false, serverKey: false, quota: null };
+
+// Answers the key migration with `keyResponse` and reports no stored key afterwards
+function stubServer(keyResponse: () => Response) {
+  spyOn(globalThis, "fetch").mockImplementation((async (url: string) => {
+    if (url === "/api/auth/key") return keyResponse();
+    return Response.json(NO_KEY);
+  }) as typeof fetch);
+}
+
+afterEach(() => {
+  mock.restore();
+});
+
+describe("AppClient legacy key migration", () => {
+  test("keeps the old key when Gemini is briefly unavailable", async () => {
+    localStorage.setItem("gemini_api_key", "AIza-legacy");
+    stubServer(() => Response.json({ code: "UPSTREAM_UNAVAILABLE" }, { status: 503 }));
+
+    render(<AppClient />);
+    await screen.findByText(t("apiKey.heading"));
+
+    expect(localStorage.getItem("gemini_api_key")).toBe("AIza-legacy");
+  });
+
+  test("drops the old key once Gemini rejects it", async () => {
+    localStorage.setItem("gemini_api_key", "AIza-legacy");
+    stubServer(() => Response.json({ code: "API_KEY_INVALID" }, { status: 401 }));
+
+    render(<AppClient />);
+    await screen.findByText(t("apiKey.heading"));
+
+    expect(localStorage.getItem("gemini_api_key")).toBeNull();
+  });
+});
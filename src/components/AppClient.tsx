@@ -1,29 +1,114 @@
 "use client";
 
-import { useState } from "react";
+import { useCallback, useEffect, useState } from "react";
+import type { AuthStatus } from "@/lib/types";
 import ApiKeySetup from "./ApiKeySetup";
 import LanguageLearningApp from "./LanguageLearningApp";
+import LoginForm from "./LoginForm";
 
-function getStoredApiKey(): string | null {
-  if (typeof window === "undefined") return null;
-  return localStorage.getItem("gemini_api_key");
+// Older versions kept the raw key here; it is moved into the encrypted cookie on first load
+const LEGACY_API_KEY_STORAGE_KEY = "gemini_api_key";
+
+const UNREACHABLE_STATUS: AuthStatus = {
+  loginRequired: false,
+  user: null,
+  ownKey: false,
+  serverKey: false,
+  quota: null,
+};
+
+async function migrateLegacyApiKey() {
+  const legacyKey = localStorage.getItem(LEGACY_API_KEY_STORAGE_KEY);
+  if (!legacyKey) return;
+
+  try {
+    const response = await fetch("/api/auth/key", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ apiKey: legacyKey }),
+    });
+    const data = await response.json();
+    // Drop it once stored or once the key itself is rejected. Anything else (not logged in yet,
+    // Gemini down or rate limited) says nothing about the key, so it is tried again next load.
+    if (response.ok || data.code === "API_KEY_INVALID" || data.code === "API_KEY_REQUIRED") {
+      localStorage.removeItem(LEGACY_API_KEY_STORAGE_KEY);
+    }
+  } catch {
+    // Server unreachable — try again next load
+  }
 }
 
 export default function AppClient() {
-  const [apiKey, setApiKey] = useState<string | null>(getStoredApiKey);
+  const [status, setStatus] = useState<AuthStatus | null>(null);
+  const [enteringKey, setEnteringKey] = useState(false);
+
+  const refreshStatus = useCallback(async () => {
+    try {
+      const response = await fetch("/api/auth/session");
+      setStatus(await response.json());
+    } catch {
+      setStatus(UNREACHABLE_STATUS);
+    }
+  }, []);
+
+  useEffect(() => {
+    migrateLegacyApiKey().then(refreshStatus);
+  }, [refreshStatus]);
+
+  // A legacy key may only be storable once logged in
+  const handleLoggedIn = async () => {
+    await migrateLegacyApiKey();
+    refreshStatus();
+  };
 
-  const handleApiKeySet = (key: string) => {
-    setApiKey(key);
+  const handleApiKeySet = () => {
+    setEnteringKey(false);
+    refreshStatus();
   };
 
-  const handleResetKey = () => {
-    localStorage.removeItem("gemini_api_key");
-    setApiKey(null);
+  // The stored key keeps working until a new one has been verified and saved over it
+  const handleChangeKey = () => {
+    setEnteringKey(true);
   };
 
-  if (!apiKey) {
-    return <ApiKeySetup onApiKeySet={handleApiKeySet} />;
+  const handleUseServerKey = async () => {
+    if (status?.ownKey) {
+      await fetch("/api/auth/key", { method: "DELETE" }).catch(() => {});
+    }
+    setEnteringKey(false);
+    refreshStatus();
+  };
+
+  const handleLogout = async () => {
+    await fetch("/api/auth/session", { method: "DELETE" }).catch(() => {});
+    setEnteringKey(false);
+    refreshStatus();
+  };
+
+  if (!status) {
+    return <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900" />;
+  }
+
+  if (status.loginRequired && !status.user) {
+    return <LoginForm onLoggedIn={handleLoggedIn} />;
+  }
+
+  if (enteringKey || (!status.ownKey && !status.serverKey)) {
+    return (
+      <ApiKeySetup
+        onApiKeySet={handleApiKeySet}
+        onCancel={status.ownKey ? () => setEnteringKey(false) : undefined}
+        onUseServerKey={status.serverKey ? handleUseServerKey : undefined}
+      />
+    );
   }
 
-  return <LanguageLearningApp apiKey={apiKey} onResetKey={handleResetKey} />;
+  return (
+    <LanguageLearningApp
+      auth={status}
+      onChangeKey={handleChangeKey}
+      onLogout={status.user ? handleLogout : undefined}
+      onUsageChange={refreshStatus}
+    />
+  );
 }
@@ -0,0 +1,52 @@
+import type { Correction } from "@/lib/types";
+
+interface CorrectionDiffProps {
+  text: string;
+  corrections: Correction[];
+}
+
+type Segment =
+  | { kind: "text"; text: string }
+  | { kind: "fix"; correction: Correction };
+
+// Locate each correction's original span in order; ones that can't be found are left out of the inline diff
+function toSegments(text: string, corrections: Correction[]): Segment[] {
+  const segments: Segment[] = [];
+  let cursor = 0;
+  for (const correction of corrections) {
+    if (!correction.original) continue;
+    const start = text.indexOf(correction.original, cursor);
+    if (start === -1) continue;
+    if (start > cursor) {
+      segments.push({ kind: "text", text: text.slice(cursor, start) });
+    }
+    segments.push({ kind: "fix", correction });
+    cursor = start + correction.original.length;
+  }
+  if (cursor < text.length) {
+    segments.push({ kind: "text", text: text.slice(cursor) });
+  }
+  return segments;
+}
+
+// The learner's message with each corrected span shown as strike-through → insertion
+export default function CorrectionDiff({ text, corrections }: CorrectionDiffProps) {
+  return (
+    <div className="text-sm leading-relaxed text-white whitespace-pre-wrap">
+      {toSegments(text, corrections).map((segment, i) =>
+        segment.kind === "text" ? (
+          <span key={i}>{segment.text}</span>
+        ) : (
+          <span key={i} title={segment.correction.explanation}>
+            <del className="px-0.5 rounded text-red-200 decoration-red-300" style={{ background: "rgba(239,68,68,0.25)" }}>
+              {segment.correction.original}
+            </del>
+            <ins className="px-0.5 ml-0.5 rounded no-underline text-emerald-100" style={{ background: "rgba(16,185,129,0.3)" }}>
+              {segment.correction.corrected}
+            </ins>
+          </span>
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,251 @@
+import { afterEach, beforeEach, describe, expect, mock, spyOn, test } from "bun:test";
+import { fireEvent, render, screen, waitFor } from "@testing-library/react";
+import LanguageLearningApp from "./LanguageLearningApp";
+import { createTranslator, localizeApiError } from "@/lib/i18n";
+import { sessionBackup } from "@/lib/backup";
+import { NATIVE_LANGUAGE_STORAGE_KEY } from "@/lib/languages";
+import type { AuthStatus } from "@/lib/types";
+
+const t = createTranslator("id");
+
+const AUTH: AuthStatus = { loginRequired: false, user: null, ownKey: true, serverKey: false, quota: null };
+
+// Server-sent events as /api/gemini streams them
+function eventStream(events: Record<string, unknown>[]): Response {
+  const body = events.map(event => `data: ${JSON.stringify(event)}\n\n`).join("");
+  return new Response(body, { headers: { "Content-Type": "text/event-stream" } });
+}
+
+let chatRequests: Record<string, unknown>[] = [];
+
+function stubChat(respond: () => Response | Promise<Response>) {
+  chatRequests = [];
+  spyOn(globalThis, "fetch").mockImplementation((async (url: string, init?: RequestInit) => {
+    if (url === "/api/gemini") {
+      chatRequests.push(JSON.parse(init?.body as string));
+      return respond();
+    }
+    return Response.json({ code: "UNKNOWN_ERROR" }, { status: 404 });
+  }) as typeof fetch);
+}
+
+function renderApp(onUsageChange = () => {}) {
+  render(<LanguageLearningApp auth={AUTH} onChangeKey={() => {}} onUsageChange={onUsageChange} />);
+  return screen.getByRole("textbox") as HTMLTextAreaElement;
+}
+
+function send(input: HTMLTextAreaElement, text: string) {
+  fireEvent.change(input, { target: { value: text } });
+  fireEvent.keyDown(input, { key: "Enter" });
+}
+
+beforeEach(() => {
+  spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  mock.restore();
+});
+
+describe("LanguageLearningApp chat", () => {
+  test("opens with the welcome message", () => {
+    renderApp();
+
+    expect(screen.getByText(/Saya siap membantu kamu belajar/)).toBeDefined();
+  });
+
+  test("streams the tutor reply under the learner's corrected message", async () => {
+    stubChat(() => eventStream([
+      { text: "Great! " },
+      { text: "How are you?" },
+      {
+        done: true,
+        translation: "Bagus! Apa kabar?",
+        corrections: [{ original: "i is", corrected: "I am", explanation: "Subjek I memakai am" }],
+        vocabulary: [],
+      },
+    ]));
+    const onUsageChange = mock(() => {});
+    const input = renderApp(onUsageChange);
+
+    send(input, "i is fine");
+
+    expect(await screen.findByText("Great! How are you?")).toBeDefined();
+    expect(screen.getByText("Bagus! Apa kabar?")).toBeDefined();
+    expect(screen.getByText(t("chat.corrections"))).toBeDefined();
+    expect(screen.getByText("I am", { selector: "ins" })).toBeDefined();
+    expect(input.value).toBe("");
+    await waitFor(() => expect(onUsageChange).toHaveBeenCalled());
+
+    expect(chatRequests).toHaveLength(1);
+    expect(chatRequests[0]).toMatchObject({ message: "i is fine", stream: true, conversationHistory: [] });
+  });
+
+  test("sends earlier turns as history, without the welcome message", async () => {
+    stubChat(() => eventStream([{ text: "Reply" }, { done: true, corrections: [], vocabulary: [] }]));
+    const input = renderApp();
+
+    send(input, "First");
+    await screen.findByText("Reply");
+    send(input, "Second");
+    await waitFor(() => expect(chatRequests).toHaveLength(2));
+
+    expect(chatRequests[1].conversationHistory).toEqual([
+      { role: "user", parts: [{ text: "First" }] },
+      { role: "model", parts: [{ text: "Reply" }] },
+    ]);
+  });
+
+  test("shows the localized API error when the key is rejected", async () => {
+    stubChat(() => Response.json({ code: "API_KEY_INVALID" }, { status: 401 }));
+    const input = renderApp();
+
+    send(input, "Hello");
+
+    expect(await screen.findByText(t("errors.API_KEY_INVALID"))).toBeDefined();
+  });
+
+  test("shows an error that arrives mid-stream", async () => {
+    stubChat(() => eventStream([{ text: "Half a" }, { error: { code: "UPSTREAM_ERROR", detail: "reset" } }]));
+    const input = renderApp();
+
+    send(input, "Hello");
+
+    expect(await screen.findByText(localizeApiError(t, { code: "UPSTREAM_ERROR", detail: "reset" }))).toBeDefined();
+  });
+
+  test("reports a dropped connection", async () => {
+    stubChat(() => {
+      throw new TypeError("Failed to fetch");
+    });
+    const input = renderApp();
+
+    send(input, "Hello");
+
+    expect(await screen.findByText(t("errors.connection"))).toBeDefined();
+  });
+
+  test("resends a failed message from its retry button", async () => {
+    let attempts = 0;
+    stubChat(() => ++attempts === 1
+      ? Response.json({ code: "UPSTREAM_UNAVAILABLE" }, { status: 503 })
+      : eventStream([{ text: "Back again" }, { done: true, corrections: [], vocabulary: [] }]));
+    const input = renderApp();
+
+    send(input, "Hello");
+    fireEvent.click(await screen.findByText(`↻ ${t("chat.retry")}`));
+
+    expect(await screen.findByText("Back again")).toBeDefined();
+    expect(screen.queryByText(t("chat.notSent"))).toBeNull();
+    expect(screen.getAllByText("Hello")).toHaveLength(1);
+    expect(chatRequests[1]).toMatchObject({ message: "Hello", conversationHistory: [] });
+  });
+
+  test("keeps later turns when an older failed message is resent", async () => {
+    let attempts = 0;
+    stubChat(() => ++attempts === 1
+      ? Response.json({ code: "UPSTREAM_UNAVAILABLE" }, { status: 503 })
+      : eventStream([{ text: `Reply ${attempts}` }, { done: true, corrections: [], vocabulary: [] }]));
+    const input = renderApp();
+
+    send(input, "First");
+    await screen.findByText(t("chat.notSent"));
+    send(input, "Second");
+    await screen.findByText("Reply 2");
+    fireEvent.click(screen.getByText(`↻ ${t("chat.retry")}`));
+
+    expect(await screen.findByText("Reply 3")).toBeDefined();
+    expect(screen.getByText("Second")).toBeDefined();
+    expect(screen.getByText("Reply 2")).toBeDefined();
+    expect(chatRequests[2]).toMatchObject({
+      message: "First",
+      conversationHistory: [
+        { role: "user", parts: [{ text: "Second" }] },
+        { role: "model", parts: [{ text: "Reply 2" }] },
+      ],
+    });
+  });
+});
+
+describe("LanguageLearningApp listen button", () => {
+  test("voices a reply once and replays the kept audio", async () => {
+    const ttsRequests: Record<string, unknown>[] = [];
+    spyOn(globalThis, "fetch").mockImplementation((async (url: string, init?: RequestInit) => {
+      if (url === "/api/gemini/tts") {
+        ttsRequests.push(JSON.parse(init?.body as string));
+        return Response.json({ audioData: "AAAAQA==", sampleRate: 24000, voice: "Kore" });
+      }
+      return Response.json({ code: "UNKNOWN_ERROR" }, { status: 404 });
+    }) as typeof fetch);
+    const play = spyOn(HTMLMediaElement.prototype, "play").mockImplementation(() => Promise.resolve());
+    renderApp();
+
+    fireEvent.click(screen.getByTitle(t("audio.listen")));
+    // The reply, the header and the log panel each offer a stop button
+    fireEvent.click((await screen.findAllByTitle(t("audio.stop")))[0]);
+    fireEvent.click(screen.getByTitle(t("audio.replay")));
+
+    expect(ttsRequests).toHaveLength(1);
+    expect(ttsRequests[0]).toMatchObject({ voice: "Kore" });
+    expect(ttsRequests[0].text).toContain("Saya siap membantu kamu belajar");
+    expect(play).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("LanguageLearningApp session report", () => {
+  test("recaps the conversation with its correction stats", async () => {
+    const summaryRequests: Record<string, unknown>[] = [];
+    spyOn(globalThis, "fetch").mockImplementation((async (url: string, init?: RequestInit) => {
+      if (url === "/api/gemini") {
+        return eventStream([
+          { text: "Nice!" },
+          { done: true, translation: "Bagus!", corrections: [{ original: "goed", corrected: "went", explanation: "" }], vocabulary: [] },
+        ]);
+      }
+      if (url === "/api/gemini/session-summary") {
+        summaryRequests.push(JSON.parse(init?.body as string));
+        return Response.json({
+          summary: "Kita membahas sekolah.",
+          vocabulary: [{ term: "went", translation: "pergi", example: "I went to school" }],
+          mistakes: [],
+          grammarPoints: ["Simple past"],
+          nextTopics: ["Rencana akhir pekan"],
+        });
+      }
+      return Response.json({ code: "UNKNOWN_ERROR" }, { status: 404 });
+    }) as typeof fetch);
+    const input = renderApp();
+
+    send(input, "I goed to school");
+    await screen.findByText("Nice!");
+    fireEvent.click(screen.getByText(t("header.endSession")));
+
+    expect(await screen.findByText(`📋 ${t("report.title")}`)).toBeDefined();
+    expect(screen.getByText(t("report.stats", { messages: 1, words: 1, rate: 100 }))).toBeDefined();
+    expect(screen.getByText("Simple past")).toBeDefined();
+    expect(summaryRequests[0].transcript).toEqual([
+      { role: "user", text: "I goed to school", corrections: [{ original: "goed", corrected: "went", explanation: "" }] },
+      { role: "model", text: "Nice!" },
+    ]);
+  });
+});
+
+describe("LanguageLearningApp restore", () => {
+  test("moves off the target language when the backup makes it the native one", async () => {
+    stubChat(() => eventStream([{ text: "Konnichiwa" }, { done: true, corrections: [], vocabulary: [] }]));
+    const input = renderApp();
+    const backup = {
+      ...sessionBackup({ id: "conv-restore-ui", targetLanguage: "Swahili", title: "", messages: [], createdAt: 1, updatedAt: 1 }),
+      settings: { [NATIVE_LANGUAGE_STORAGE_KEY]: "English" },
+    };
+
+    fireEvent.change(screen.getByLabelText(t("sidebar.restore")), {
+      target: { files: [new File([JSON.stringify(backup)], "backup.json", { type: "application/json" })] },
+    });
+    await screen.findByTitle(createTranslator("en")("sidebar.nativeLanguageSuffix", { label: "🇺🇸 English" }));
+    send(input, "Hello");
+    await screen.findByText("Konnichiwa");
+
+    expect(chatRequests[0]).toMatchObject({ nativeLanguage: "English", targetLanguage: "Japanese" });
+  });
+});
@@ -1,13 +1,97 @@
 "use client";
 
-import { useState, useRef, useEffect, useCallback } from "react";
-
-interface Message {
-  role: "user" | "model";
-  parts: [{ text: string }];
-  isAudio?: boolean;
-  timestamp?: Date;
-}
+import { useState, useRef, useEffect, useCallback, useMemo } from "react";
+import Link from "next/link";
+import type {
+  AuthStatus,
+  Correction,
+  Message,
+  PlacementResult,
+  PronunciationResult,
+  ScenarioReport,
+  SessionReport,
+  SessionReportContent,
+  VocabularyItem,
+} from "@/lib/types";
+import { readEventStream } from "@/lib/sse";
+import CorrectionDiff from "./CorrectionDiff";
+import MarkdownMessage from "./MarkdownMessage";
+import MessageVocabulary from "./MessageVocabulary";
+import ReplyAudioControls from "./ReplyAudioControls";
+import VocabularyReview from "./VocabularyReview";
+import PronunciationDrill from "./PronunciationDrill";
+import ScenarioReportCard from "./ScenarioReportCard";
+import SessionReportCard from "./SessionReportCard";
+import PlacementTest from "./PlacementTest";
+import { markdownToPlainText } from "@/lib/markdown";
+import { arrayBufferToBase64, base64ToFloat32, concatInt16 } from "@/lib/pcm";
+import { CAPTURE_SAMPLE_RATE, startMicCapture, type MicCapture } from "@/lib/micCapture";
+import { createPlaybackManager, type PlaybackRate, type PlaybackState } from "@/lib/playback";
+import {
+  BARGE_IN_MARGIN_DB,
+  VAD_SENSITIVITIES,
+  createVoiceActivityDetector,
+  getStoredVadSensitivity,
+  isVadSensitivity,
+  storeVadSensitivity,
+  type VoiceActivityDetector,
+} from "@/lib/vad";
+import { recordMessage, recordSpeech } from "@/lib/practiceLog";
+import { createBackup, parseBackup, restoreBackup, sessionBackup } from "@/lib/backup";
+import {
+  downloadFile,
+  exportFileName,
+  sessionToHtml,
+  sessionToMarkdown,
+  vocabularyToAnkiCsv,
+} from "@/lib/exporters";
+import { listSessionReports, previousSessionReport, saveSessionReport } from "@/lib/sessionReportStore";
+import { DEFAULT_TTS_VOICE, TTS_VOICES, getStoredVoices, isTtsVoice, storeVoices } from "@/lib/voices";
+import { SCENARIOS, getScenario, type Scenario } from "@/lib/scenarios";
+import {
+  CEFR_LEVELS,
+  createLevelSetting,
+  getStoredLevels,
+  isCefrLevel,
+  recordCorrections,
+  storeLevels,
+  type LevelSetting,
+} from "@/lib/proficiency";
+import {
+  LANGUAGES,
+  NATIVE_LANGUAGES,
+  defaultTargetLanguage,
+  getStoredNativeLanguage,
+  storeNativeLanguage,
+} from "@/lib/languages";
+import {
+  createTranslator,
+  dateLocaleFor,
+  localizeApiError,
+  uiLocaleFor,
+  type Locale,
+  type Translator,
+} from "@/lib/i18n";
+import type { ApiErrorCode, ApiErrorPayload } from "@/lib/apiErrors";
+import type { LiveEvent } from "@/lib/providers/types";
+import { fetchWithRetry } from "@/lib/retry";
+import {
+  addVocabulary,
+  dueCards,
+  listVocabulary,
+  normalizeTerm,
+  type VocabularyCard,
+} from "@/lib/vocabularyStore";
+import {
+  conversationTitle,
+  createConversationId,
+  deleteConversation,
+  getConversation,
+  listConversations,
+  saveConversation,
+  type ConversationSummary,
+  type StoredConversation,
+} from "@/lib/conversationStore";
 
 interface LogEntry {
   id: number;
@@ -16,91 +100,198 @@ interface LogEntry {
   timestamp: Date;
 }
 
-interface LanguageLearningAppProps {
-  apiKey: string;
-  onResetKey: () => void;
+interface LiveSessionInfo {
+  id: string;
+  sampleRate: number;
+}
+
+// Server-sent events from /api/gemini when `stream: true`
+interface TextStreamEvent {
+  text?: string;
+  done?: boolean;
+  translation?: string;
+  corrections?: Correction[];
+  vocabulary?: VocabularyItem[];
+  error?: ApiErrorPayload;
 }
 
-const LANGUAGES = [
-  { code: "English", label: "🇺🇸 English" },
-  { code: "Japanese", label: "🇯🇵 Japanese" },
-  { code: "Korean", label: "🇰🇷 Korean" },
-  { code: "French", label: "🇫🇷 French" },
-  { code: "Spanish", label: "🇪🇸 Spanish" },
-  { code: "German", label: "🇩🇪 German" },
-  { code: "Mandarin Chinese", label: "🇨🇳 Mandarin" },
-  { code: "Arabic", label: "🇸🇦 Arabic" },
-];
-
-// Convert Float32Array PCM to Int16Array PCM
-function float32ToInt16(float32Array: Float32Array): Int16Array {
-  const int16Array = new Int16Array(float32Array.length);
-  for (let i = 0; i < float32Array.length; i++) {
-    const s = Math.max(-1, Math.min(1, float32Array[i]));
-    int16Array[i] = s < 0 ? s * 0x8000 : s * 0x7fff;
-  }
-  return int16Array;
+// Transcript state for the voice turn currently in flight
+interface VoiceTurn {
+  userMessageId: string | null;
+  userTranscript: string;
+  modelMessageId: string | null;
+  modelTranscript: string;
 }
 
-// Convert ArrayBuffer to base64
-function arrayBufferToBase64(buffer: ArrayBuffer): string {
-  const bytes = new Uint8Array(buffer);
-  let binary = "";
-  for (let i = 0; i < bytes.byteLength; i++) {
-    binary += String.fromCharCode(bytes[i]);
-  }
-  return btoa(binary);
+function createVoiceTurn(): VoiceTurn {
+  return { userMessageId: null, userTranscript: "", modelMessageId: null, modelTranscript: "" };
 }
 
-// Convert base64 to Float32Array PCM (from Int16 PCM)
-function base64ToFloat32(base64: string): Float32Array {
-  const binary = atob(base64);
-  const bytes = new Uint8Array(binary.length);
-  for (let i = 0; i < binary.length; i++) {
-    bytes[i] = binary.charCodeAt(i);
-  }
-  const int16 = new Int16Array(bytes.buffer);
-  const float32 = new Float32Array(int16.length);
-  for (let i = 0; i < int16.length; i++) {
-    float32[i] = int16[i] / 32768.0;
-  }
-  return float32;
+// Failures that mean Gemini couldn't be reached, as opposed to a rejected request
+const CONNECTION_ERROR_CODES: ApiErrorCode[] = ["NETWORK_ERROR", "UPSTREAM_TIMEOUT", "UPSTREAM_UNAVAILABLE"];
+
+type ConversationMeta = Pick<StoredConversation, "id" | "targetLanguage" | "scenarioId" | "createdAt">;
+
+// Where the current recording goes once the mic stops; hands-free streams live utterances found by VAD
+type RecordingMode = "live" | "handsFree" | "transcribe" | "pronunciation";
+
+// Capture frames kept from before speech is detected, so the first syllable isn't clipped
+const VAD_PRE_ROLL_FRAMES = 2;
+
+// Mic audio waiting for the previous upload is capped at 4 s of 16 kHz samples; past that the
+// oldest frames are dropped so the tutor doesn't answer ever further behind
+const LIVE_MAX_PENDING_SAMPLES = 16000 * 4;
+
+// Live input not yet sent. Frames that pile up while a POST is in flight go out together in the next one.
+interface LiveInputQueue {
+  frames: Int16Array[];
+  samples: number;
+  end: boolean;
+  sending: boolean;
+  dropping: boolean;
 }
 
-function formatTime(date: Date): string {
-  return date.toLocaleTimeString("id-ID", { hour: "2-digit", minute: "2-digit", second: "2-digit" });
+function createLiveInputQueue(): LiveInputQueue {
+  return { frames: [], samples: 0, end: false, sending: false, dropping: false };
+}
+
+interface DrillState {
+  sentence: string;
+  result: PronunciationResult | null;
+  // The learner's last attempt as base64 16 kHz PCM, for playback
+  recording: string | null;
+}
+
+interface LanguageLearningAppProps {
+  auth: AuthStatus;
+  onChangeKey: () => void;
+  onLogout?: () => void;
+  // Called after requests that count against the server key's quota
+  onUsageChange: () => void;
 }
 
 let logIdCounter = 0;
+let messageIdCounter = 0;
+
+// First sentence of a tutor reply, as plain text, to seed a pronunciation drill
+function practiceSentence(text: string): string {
+  const plain = markdownToPlainText(text).replace(/\s+/g, " ").trim();
+  const match = plain.match(/^.+?(?:[.!?](?=\s|$)|[。！？])/);
+  return (match ? match[0] : plain).slice(0, 200);
+}
+
+function createMessageId(): string {
+  return `msg-${Date.now()}-${++messageIdCounter}`;
+}
 
-export default function LanguageLearningApp({ apiKey, onResetKey }: LanguageLearningAppProps) {
+function createWelcomeMessage(t: Translator, targetLanguage: string, nativeLanguage: string): Message {
+  return {
+    id: createMessageId(),
+    role: "model",
+    parts: [{ text: t("chat.welcome", { target: targetLanguage, native: nativeLanguage }) }],
+    timestamp: new Date(),
+  };
+}
+
+// Opens a role-play: the setting and the goals the learner should try to reach
+function createScenarioWelcome(t: Translator, locale: Locale, scenario: Scenario, targetLanguage: string): Message {
+  return {
+    id: createMessageId(),
+    role: "model",
+    parts: [{
+      text: t("chat.scenarioWelcome", {
+        title: scenario.title[locale],
+        level: scenario.level,
+        description: scenario.description[locale],
+        goals: scenario.goals.map(goal => `- ${goal.text[locale]}`).join("\n"),
+        target: targetLanguage,
+      }),
+    }],
+    timestamp: new Date(),
+  };
+}
+
+function formatDate(timestamp: number, dateLocale: string): string {
+  return new Date(timestamp).toLocaleDateString(dateLocale, { day: "numeric", month: "short", hour: "2-digit", minute: "2-digit" });
+}
+
+function formatTime(date: Date, dateLocale: string): string {
+  return date.toLocaleTimeString(dateLocale, { hour: "2-digit", minute: "2-digit", second: "2-digit" });
+}
+
+export default function LanguageLearningApp({ auth, onChangeKey, onLogout, onUsageChange }: LanguageLearningAppProps) {
   const [messages, setMessages] = useState<Message[]>([]);
   const [inputText, setInputText] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const [isRecording, setIsRecording] = useState(false);
   const [isProcessingAudio, setIsProcessingAudio] = useState(false);
-  const [isPlayingAudio, setIsPlayingAudio] = useState(false);
-  const [targetLanguage, setTargetLanguage] = useState("English");
-  const [nativeLanguage] = useState("Indonesian");
+  const [player] = useState(createPlaybackManager);
+  const [playback, setPlayback] = useState<PlaybackState>(player.getState);
+  const [drill, setDrill] = useState<DrillState | null>(null);
+  const [isAssessing, setIsAssessing] = useState(false);
+  const [isSummarizing, setIsSummarizing] = useState(false);
+  const [levels, setLevels] = useState(getStoredLevels);
+  const [placement, setPlacement] = useState<{ result: PlacementResult | null } | null>(null);
+  const [isPlacing, setIsPlacing] = useState(false);
+  const [nativeLanguage, setNativeLanguage] = useState(getStoredNativeLanguage);
+  const [targetLanguage, setTargetLanguage] = useState(() => defaultTargetLanguage(nativeLanguage));
+  const uiLocale = uiLocaleFor(nativeLanguage);
+  const dateLocale = dateLocaleFor(uiLocale);
+  const t = useMemo(() => createTranslator(uiLocale), [uiLocale]);
   const [audioLevel, setAudioLevel] = useState(0);
   const [error, setError] = useState("");
   const [liveMode, setLiveMode] = useState(true);
+  const [handsFree, setHandsFree] = useState(false);
+  const [vadSensitivity, setVadSensitivity] = useState(getStoredVadSensitivity);
+  const [isUserSpeaking, setIsUserSpeaking] = useState(false);
+  const [voices, setVoices] = useState(getStoredVoices);
+  const [synthesizingMessageId, setSynthesizingMessageId] = useState<string | null>(null);
   const [isConnected, setIsConnected] = useState(false);
   const [showLog, setShowLog] = useState(true);
   const [logs, setLogs] = useState<LogEntry[]>([]);
   const [waveformBars, setWaveformBars] = useState<number[]>(Array(20).fill(4));
   const [sidebarCollapsed, setSidebarCollapsed] = useState(false);
+  const [conversationMeta, setConversationMeta] = useState<ConversationMeta>(() => ({
+    id: createConversationId(),
+    targetLanguage,
+    createdAt: Date.now(),
+  }));
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+  const [vocabulary, setVocabulary] = useState<VocabularyCard[]>([]);
+  const [dueCount, setDueCount] = useState(0);
+  const [reviewCards, setReviewCards] = useState<VocabularyCard[] | null>(null);
+  const [sessionReports, setSessionReports] = useState<SessionReport[]>([]);
+  const [streamingMessageId, setStreamingMessageId] = useState<string | null>(null);
+  const scenario = getScenario(conversationMeta.scenarioId);
+  const levelSetting = levels[targetLanguage] as LevelSetting | undefined;
+  const level = levelSetting?.level;
+  const ttsVoice = voices[targetLanguage] ?? DEFAULT_TTS_VOICE;
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const logEndRef = useRef<HTMLDivElement>(null);
-  const audioContextRef = useRef<AudioContext | null>(null);
+  const inputRef = useRef<HTMLTextAreaElement>(null);
+  const textAbortRef = useRef<AbortController | null>(null);
+  const captureRef = useRef<MicCapture | null>(null);
   const analyserRef = useRef<AnalyserNode | null>(null);
   const animationFrameRef = useRef<number | null>(null);
   const waveformFrameRef = useRef<number | null>(null);
-  const pcmBufferRef = useRef<Float32Array[]>([]);
-  const mediaStreamRef = useRef<MediaStream | null>(null);
-  const scriptProcessorRef = useRef<ScriptProcessorNode | null>(null);
-  const sourceNodeRef = useRef<MediaStreamAudioSourceNode | null>(null);
+  const pcmBufferRef = useRef<Int16Array[]>([]);
+  const recordingModeRef = useRef<RecordingMode>("transcribe");
+  const liveSessionRef = useRef<LiveSessionInfo | null>(null);
+  const eventSourceRef = useRef<EventSource | null>(null);
+  const liveInputRef = useRef<LiveInputQueue>(createLiveInputQueue());
+  const voiceTurnRef = useRef<VoiceTurn>(createVoiceTurn());
+  const userTurnPendingRef = useRef(false);
+  const vadRef = useRef<VoiceActivityDetector | null>(null);
+  const preRollRef = useRef<Int16Array[]>([]);
+  // Samples of the learner's voice that were kept or sent during the current recording
+  const spokenSamplesRef = useRef(0);
+  const restoreInputRef = useRef<HTMLInputElement>(null);
+
+  // Practice events only feed the dashboard; a failed write isn't worth interrupting the learner
+  const logPractice = useCallback((write: Promise<void>) => {
+    write.catch(err => console.error("Practice log error:", err));
+  }, []);
 
   const addLog = useCallback((type: LogEntry["type"], message: string) => {
     const entry: LogEntry = {
@@ -128,202 +319,656 @@ export default function LanguageLearningApp({ apiKey, onResetKey }: LanguageLear
     scrollLogToBottom();
   }, [logs, scrollLogToBottom]);
 
-  // Welcome message + initial log
   useEffect(() => {
-    setMessages([
-      {
-        role: "model",
-        parts: [{ text: `Halo! Saya siap membantu kamu belajar **${targetLanguage}**! 🎉\n\nKamu bisa:\n- 🎙️ Tekan tombol mikrofon untuk berbicara langsung dengan AI (Gemini Live)\n- ⌨️ Ketik pesan di bawah\n- 🌍 Ganti bahasa target di sidebar kiri\n\nMari mulai! Coba ucapkan atau ketik sesuatu dalam ${targetLanguage} atau Bahasa Indonesia.` }],
-        timestamp: new Date(),
-      },
-    ]);
-    addLog("info", `Sesi dimulai — bahasa target: ${targetLanguage}`);
-    addLog("success", "Koneksi ke Gemini API siap");
+    document.documentElement.lang = uiLocale;
+  }, [uiLocale]);
+
+  const refreshConversations = useCallback(async (language: string) => {
+    try {
+      setConversations(await listConversations(language));
+    } catch (err) {
+      console.error("Conversation store error:", err);
+    }
+  }, []);
+
+  const refreshVocabulary = useCallback(async (language: string) => {
+    try {
+      const cards = await listVocabulary(language);
+      setVocabulary(cards);
+      setDueCount(dueCards(cards, Date.now()).length);
+    } catch (err) {
+      console.error("Vocabulary store error:", err);
+    }
+  }, []);
+
+  const refreshSessionReports = useCallback(async (language: string) => {
+    try {
+      setSessionReports(await listSessionReports(language));
+    } catch (err) {
+      console.error("Session report store error:", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    storeLevels(levels);
+  }, [levels]);
+
+  const setLevelSetting = useCallback((language: string, setting: LevelSetting | null) => {
+    setLevels(prev => {
+      const next = { ...prev };
+      if (setting) next[language] = setting;
+      else delete next[language];
+      return next;
+    });
+  }, []);
+
+  // Feeds each corrected (or clean) learner message into the auto-adjustment. Only text replies
+  // carry structured corrections, so live turns don't count.
+  const trackCorrections = useCallback((language: string, count: number) => {
+    const current = levels[language];
+    if (!current) return;
+    const updated = recordCorrections(current, count);
+    setLevelSetting(language, updated);
+    if (updated.level !== current.level) {
+      const raised = CEFR_LEVELS.indexOf(updated.level) > CEFR_LEVELS.indexOf(current.level);
+      addLog(raised ? "success" : "warning", t(raised ? "log.levelRaised" : "log.levelLowered", { target: language, level: updated.level }));
+    }
+  }, [levels, setLevelSetting, addLog, t]);
+
+  const savedTerms = useMemo(() => new Set(vocabulary.map(card => normalizeTerm(card.term))), [vocabulary]);
+
+  // Welcome message + initial log. Each language switch (or reload) starts a fresh conversation;
+  // earlier ones stay in the history list.
+  useEffect(() => {
+    setConversationMeta({ id: createConversationId(), targetLanguage, createdAt: Date.now() });
+    setMessages([createWelcomeMessage(t, targetLanguage, nativeLanguage)]);
+    setPlacement(null);
+    refreshConversations(targetLanguage);
+    refreshVocabulary(targetLanguage);
+    refreshSessionReports(targetLanguage);
+    addLog("info", t("log.sessionStarted", { target: targetLanguage }));
+    addLog("success", t("log.apiReady"));
     setIsConnected(true);
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [targetLanguage]);
 
-  // Play PCM audio chunks from Gemini Live API
-  const playAudioChunks = useCallback(async (audioChunks: string[], sampleRate: number) => {
-    if (!audioChunks.length) return;
+  // Persist the conversation once the learner has said something
+  useEffect(() => {
+    if (!messages.some(m => m.role === "user")) return;
+
+    const timer = setTimeout(() => {
+      saveConversation({
+        ...conversationMeta,
+        title: conversationTitle(messages),
+        messages,
+        updatedAt: Date.now(),
+      })
+        .then(() => refreshConversations(conversationMeta.targetLanguage))
+        .catch(err => {
+          console.error("Conversation store error:", err);
+          addLog("error", t("log.saveFailed"));
+        });
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [messages, conversationMeta, refreshConversations, addLog, t]);
 
-    setIsPlayingAudio(true);
-    addLog("audio", `Memutar respons audio (${audioChunks.length} chunk, ${sampleRate}Hz)`);
-    try {
-      const ctx = new AudioContext({ sampleRate });
-
-      const allFloat32Arrays = audioChunks.map(base64ToFloat32);
-      const totalLength = allFloat32Arrays.reduce((sum, arr) => sum + arr.length, 0);
-      const combined = new Float32Array(totalLength);
-      let offset = 0;
-      for (const arr of allFloat32Arrays) {
-        combined.set(arr, offset);
-        offset += arr.length;
-      }
+  useEffect(() => {
+    const unsubscribe = player.subscribe(setPlayback);
+    return () => {
+      unsubscribe();
+      player.close();
+    };
+  }, [player]);
 
-      const audioBuffer = ctx.createBuffer(1, combined.length, sampleRate);
-      audioBuffer.copyToChannel(combined, 0);
+  // Keep the finished live reply's audio on its message so it can be replayed
+  const attachStreamedAudio = useCallback(() => {
+    const finished = player.finishStream();
+    if (!finished) return;
+    setMessages(prev => prev.map(m => (m.id === finished.messageId ? { ...m, audio: finished.audio } : m)));
+  }, [player]);
 
-      const source = ctx.createBufferSource();
-      source.buffer = audioBuffer;
-      source.connect(ctx.destination);
-      source.onended = () => {
-        setIsPlayingAudio(false);
-        ctx.close();
-        addLog("success", "Pemutaran audio selesai");
-      };
-      source.start();
-    } catch (err) {
-      console.error("Audio playback error:", err);
-      setIsPlayingAudio(false);
-      addLog("error", "Gagal memutar audio respons");
-    }
-  }, [addLog]);
+  const updateMessageText = useCallback((id: string, text: string) => {
+    setMessages(prev => prev.map(m => (m.id === id ? { ...m, parts: [{ text }] } : m)));
+  }, []);
+
+  // Logged while a short Retry-After from the server is waited out
+  const logRetry = useCallback((seconds: number) => {
+    addLog("warning", t("log.retrying", { seconds }));
+  }, [addLog, t]);
 
-  const sendTextMessage = useCallback(async (text: string) => {
+  // `retryOf` resends a failed learner message: it is taken out and the new attempt goes at the end,
+  // after any turns the learner had since, so later replies are kept
+  const sendTextMessage = useCallback(async (text: string, retryOf?: string) => {
     if (!text.trim() || isLoading) return;
 
+    if (retryOf && !messages.some(m => m.id === retryOf)) return;
+
     const userMessage: Message = {
+      id: createMessageId(),
       role: "user",
       parts: [{ text }],
       timestamp: new Date(),
     };
 
-    const newMessages = [...messages, userMessage];
+    const newMessages = [...(retryOf ? messages.filter(m => m.id !== retryOf) : messages), userMessage];
     setMessages(newMessages);
-    setInputText("");
+    if (!retryOf) setInputText("");
     setIsLoading(true);
     setError("");
-    addLog("info", `Mengirim pesan teks: "${text.slice(0, 40)}${text.length > 40 ? "..." : ""}"`);
+    addLog("info", t("log.sendingText", { preview: `${text.slice(0, 40)}${text.length > 40 ? "..." : ""}` }));
 
-    const historyMessages = newMessages.slice(1).map(m => ({
+    // Turns that never got a reply stay on screen but aren't part of the conversation the model sees
+    const historyMessages = newMessages.slice(1).filter(m => !m.failed).map(m => ({
       role: m.role,
       parts: m.parts,
     }));
 
+    const controller = new AbortController();
+    textAbortRef.current = controller;
+    const aiMessageId = createMessageId();
+
+    // A half-streamed reply is dropped so the failed message is the last one, ready to resend
+    const failTurn = (payload: Partial<ApiErrorPayload> | null) => {
+      setMessages(prev => prev
+        .filter(m => m.id !== aiMessageId)
+        .map(m => (m.id === userMessage.id ? { ...m, failed: true } : m)));
+      if (payload === null) {
+        setError(t("errors.connection"));
+        addLog("error", t("log.textConnectionLost"));
+        setIsConnected(false);
+        return;
+      }
+      const message = localizeApiError(t, payload);
+      setError(message);
+      addLog("error", t("log.apiError", { error: message }));
+      if (payload.code && CONNECTION_ERROR_CODES.includes(payload.code)) setIsConnected(false);
+    };
+
     try {
-      const response = await fetch("/api/gemini", {
+      const response = await fetchWithRetry("/api/gemini", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
-          apiKey,
           message: text,
           targetLanguage,
           nativeLanguage,
           conversationHistory: historyMessages.slice(0, -1),
+          scenarioId: conversationMeta.scenarioId,
+          level,
+          stream: true,
         }),
-      });
+        signal: controller.signal,
+      }, { onRetry: logRetry });
+
+      if (!response.ok) {
+        failTurn(await response.json());
+        return;
+      }
+
+      // The model bubble appears with the first token and grows as chunks arrive
+      let replyText = "";
+      for await (const event of readEventStream<TextStreamEvent>(response)) {
+        if (event.error) {
+          failTurn(event.error);
+          return;
+        }
+        if (event.text) {
+          const isFirstChunk = !replyText;
+          replyText += event.text;
+          if (isFirstChunk) {
+            setStreamingMessageId(aiMessageId);
+            setMessages(prev => [...prev, {
+              id: aiMessageId,
+              role: "model",
+              parts: [{ text: replyText }],
+              timestamp: new Date(),
+            }]);
+          } else {
+            updateMessageText(aiMessageId, replyText);
+          }
+        }
+        if (event.done) {
+          // Translation and new words belong to the reply; corrections are shown on the learner's own bubble
+          const { translation, corrections, vocabulary: newWords } = event;
+          setMessages(prev => prev.map(m => {
+            if (m.id === aiMessageId) {
+              return { ...m, translation: translation || undefined, vocabulary: newWords?.length ? newWords : undefined };
+            }
+            if (m.id === userMessage.id && corrections?.length) return { ...m, corrections };
+            return m;
+          }));
+          trackCorrections(targetLanguage, corrections?.length ?? 0);
+          logPractice(recordMessage(targetLanguage, !!corrections?.length));
+          break;
+        }
+      }
+
+      setIsConnected(true);
+      addLog("success", t("log.textReceived"));
+    } catch {
+      if (controller.signal.aborted) {
+        addLog("info", t("log.textCancelled"));
+        return;
+      }
+      failTurn(null);
+    } finally {
+      textAbortRef.current = null;
+      setStreamingMessageId(null);
+      setIsLoading(false);
+      onUsageChange();
+    }
+  }, [messages, isLoading, targetLanguage, nativeLanguage, conversationMeta.scenarioId, level, updateMessageText, trackCorrections, logPractice, logRetry, onUsageChange, addLog, t]);
+
+  const cancelTextMessage = () => {
+    textAbortRef.current?.abort();
+  };
+
+  const retryMessage = (message: Message) => {
+    addLog("info", t("log.retryingMessage"));
+    sendTextMessage(message.parts[0].text, message.id);
+  };
+
+  // Non-live mode: turn the recording into text in the composer so the learner can review it
+  const transcribeRecording = useCallback(async (pcmData: Int16Array) => {
+    setIsProcessingAudio(true);
+    setError("");
+    addLog("audio", t("log.transcribing", { seconds: (pcmData.length / CAPTURE_SAMPLE_RATE).toFixed(1) }));
+
+    try {
+      const base64Audio = arrayBufferToBase64(pcmData.buffer as ArrayBuffer);
+
+      const response = await fetchWithRetry("/api/gemini/transcribe", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          audioData: base64Audio,
+          targetLanguage,
+          nativeLanguage,
+        }),
+      }, { onRetry: logRetry });
 
       const data = await response.json();
 
       if (!response.ok) {
-        setError(data.error || "Terjadi kesalahan");
-        addLog("error", `API error: ${data.error || "Unknown error"}`);
+        const message = localizeApiError(t, data);
+        setError(message);
+        addLog("error", t("log.transcribeError", { error: message }));
         setIsConnected(false);
-        setIsLoading(false);
         return;
       }
 
-      const aiMessage: Message = {
-        role: "model",
-        parts: [{ text: data.response }],
-        timestamp: new Date(),
-      };
+      if (!data.text) {
+        addLog("warning", t("log.noSpeech"));
+        return;
+      }
 
-      setMessages(prev => [...prev, aiMessage]);
+      setInputText(prev => (prev.trim() ? `${prev.trimEnd()} ${data.text}` : data.text));
       setIsConnected(true);
-      addLog("success", "Respons teks diterima dari Gemini");
+      addLog("success", t("log.transcriptInserted"));
+      inputRef.current?.focus();
     } catch {
-      setError("Gagal menghubungi AI. Periksa koneksi internet Anda.");
-      addLog("error", "Koneksi terputus — gagal menghubungi Gemini API");
+      setError(t("errors.connection"));
+      addLog("error", t("log.transcribeConnectionLost"));
       setIsConnected(false);
     } finally {
-      setIsLoading(false);
+      setIsProcessingAudio(false);
+      onUsageChange();
     }
-  }, [messages, isLoading, apiKey, targetLanguage, nativeLanguage, addLog]);
+  }, [targetLanguage, nativeLanguage, logRetry, onUsageChange, addLog, t]);
 
-  const sendAudioToLiveAPI = useCallback(async (pcmData: Float32Array) => {
-    setIsProcessingAudio(true);
+  // Drill mode: score the learner reading the drill sentence aloud
+  const assessPronunciation = useCallback(async (pcmData: Int16Array) => {
+    const sentence = drill?.sentence.trim();
+    if (!sentence) return;
+
+    setIsAssessing(true);
     setError("");
-    addLog("audio", `Mengirim audio ke Gemini Live (${(pcmData.length / 16000).toFixed(1)}s)`);
+    addLog("audio", t("log.assessing", { seconds: (pcmData.length / CAPTURE_SAMPLE_RATE).toFixed(1) }));
+
+    const recording = arrayBufferToBase64(pcmData.buffer as ArrayBuffer);
+    setDrill(prev => prev && { ...prev, recording, result: null });
 
     try {
-      const int16Data = float32ToInt16(pcmData);
-      const base64Audio = arrayBufferToBase64(int16Data.buffer.slice(0) as ArrayBuffer);
+      const response = await fetchWithRetry("/api/gemini/pronunciation", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          sentence,
+          audioData: recording,
+          targetLanguage,
+          nativeLanguage,
+        }),
+      }, { onRetry: logRetry });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        const message = localizeApiError(t, data);
+        setError(message);
+        addLog("error", t("log.assessError", { error: message }));
+        return;
+      }
+
+      const result = data as PronunciationResult;
+      setDrill(prev => prev && { ...prev, result });
+      addLog("success", t("log.assessed", { score: result.overallScore }));
+    } catch {
+      setError(t("errors.connection"));
+      addLog("error", t("log.assessConnectionLost"));
+    } finally {
+      setIsAssessing(false);
+      onUsageChange();
+    }
+  }, [drill, targetLanguage, nativeLanguage, logRetry, onUsageChange, addLog, t]);
+
+  // Add the learner's voice bubble once per utterance, before the tutor's reply
+  const commitUserVoiceTurn = useCallback(() => {
+    if (!userTurnPendingRef.current) return;
+    userTurnPendingRef.current = false;
+
+    const id = createMessageId();
+    voiceTurnRef.current.userMessageId = id;
+    setMessages(prev => [...prev, {
+      id,
+      role: "user",
+      parts: [{ text: voiceTurnRef.current.userTranscript || t("chat.voiceMessagePlaceholder") }],
+      isAudio: true,
+      timestamp: new Date(),
+    }]);
+    // Live turns aren't checked for mistakes
+    logPractice(recordMessage(targetLanguage, null));
+  }, [targetLanguage, logPractice, t]);
+
+  // First output of a tutor turn (audio or transcript) opens its bubble
+  const ensureModelVoiceMessage = useCallback(() => {
+    const turn = voiceTurnRef.current;
+    if (turn.modelMessageId) return false;
+
+    commitUserVoiceTurn();
+    const id = createMessageId();
+    turn.modelMessageId = id;
+    turn.modelTranscript = "";
+    setMessages(prev => [...prev, {
+      id,
+      role: "model",
+      parts: [{ text: t("chat.voiceReplyPlaceholder") }],
+      isAudio: true,
+      timestamp: new Date(),
+    }]);
+    setIsProcessingAudio(false);
+    return true;
+  }, [commitUserVoiceTurn, t]);
+
+  const closeLiveSession = useCallback(() => {
+    const session = liveSessionRef.current;
+    liveSessionRef.current = null;
+    liveInputRef.current = createLiveInputQueue();
+    eventSourceRef.current?.close();
+    eventSourceRef.current = null;
+    voiceTurnRef.current = createVoiceTurn();
+    userTurnPendingRef.current = false;
+
+    player.stop();
+    attachStreamedAudio();
+
+    if (session) {
+      fetch(`/api/gemini/live?sessionId=${encodeURIComponent(session.id)}`, {
+        method: "DELETE",
+        keepalive: true,
+      }).catch(() => {});
+      onUsageChange();
+    }
+  }, [player, attachStreamedAudio, onUsageChange]);
+
+  const handleLiveEvent = useCallback((event: LiveEvent) => {
+    const session = liveSessionRef.current;
+    if (!session) return;
 
+    const turn = voiceTurnRef.current;
+    switch (event.type) {
+      case "audio":
+        if (ensureModelVoiceMessage()) {
+          addLog("audio", t("log.liveReceiving", { rate: session.sampleRate }));
+        }
+        try {
+          player.appendStream(turn.modelMessageId!, event.data, session.sampleRate);
+        } catch (err) {
+          console.error("Audio playback error:", err);
+          addLog("error", t("log.playbackFailed"));
+        }
+        break;
+      case "inputTranscript":
+        turn.userTranscript += event.text;
+        if (turn.userMessageId) {
+          updateMessageText(turn.userMessageId, turn.userTranscript.trim());
+        }
+        break;
+      case "outputTranscript":
+        ensureModelVoiceMessage();
+        turn.modelTranscript += event.text;
+        updateMessageText(turn.modelMessageId!, turn.modelTranscript.trim());
+        break;
+      case "interrupted":
+        player.stop();
+        attachStreamedAudio();
+        turn.modelMessageId = null;
+        addLog("warning", t("log.liveInterrupted"));
+        break;
+      case "turnComplete":
+        attachStreamedAudio();
+        turn.modelMessageId = null;
+        setIsProcessingAudio(false);
+        addLog("success", t("log.liveTurnComplete"));
+        break;
+      case "error": {
+        const message = localizeApiError(t, { code: "LIVE_SESSION_ERROR", detail: event.message });
+        setError(message);
+        addLog("error", t("log.liveError", { error: message }));
+        setIsConnected(false);
+        break;
+      }
+      case "closed":
+        addLog("info", t("log.liveClosed"));
+        closeLiveSession();
+        setIsProcessingAudio(false);
+        break;
+    }
+  }, [ensureModelVoiceMessage, updateMessageText, player, attachStreamedAudio, closeLiveSession, addLog, t]);
+
+  // Open (or reuse) the persistent live session; conversation context lives on the server side
+  const ensureLiveSession = useCallback(async () => {
+    if (liveSessionRef.current) return liveSessionRef.current;
+
+    addLog("info", t("log.liveOpening"));
+    try {
       const response = await fetch("/api/gemini/live", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
-          apiKey,
-          audioData: base64Audio,
           targetLanguage,
           nativeLanguage,
+          scenarioId: conversationMeta.scenarioId,
+          level,
         }),
       });
 
       const data = await response.json();
 
       if (!response.ok) {
-        setError(data.error || "Terjadi kesalahan pada Live API");
-        addLog("error", `Live API error: ${data.error || "Unknown error"}`);
+        const message = localizeApiError(t, data);
+        setError(message);
+        addLog("error", t("log.liveError", { error: message }));
         setIsConnected(false);
-        return;
+        return null;
       }
 
-      const userMessage: Message = {
-        role: "user",
-        parts: [{ text: "🎙️ [Pesan suara dikirim ke Gemini Live]" }],
-        isAudio: true,
-        timestamp: new Date(),
-      };
-      const aiMessage: Message = {
-        role: "model",
-        parts: [{ text: "🔊 [Respons audio dari Gemini Live sedang diputar...]" }],
-        isAudio: true,
-        timestamp: new Date(),
+      const session = { id: data.sessionId as string, sampleRate: (data.sampleRate as number) || 24000 };
+      liveSessionRef.current = session;
+
+      const eventSource = new EventSource(`/api/gemini/live/${encodeURIComponent(session.id)}`);
+      eventSource.onmessage = (e) => handleLiveEvent(JSON.parse(e.data) as LiveEvent);
+      eventSource.onerror = () => {
+        if (liveSessionRef.current?.id !== session.id) return;
+        addLog("warning", t("log.liveStreamLost"));
+        closeLiveSession();
+        setIsProcessingAudio(false);
       };
-      setMessages(prev => [...prev, userMessage, aiMessage]);
-      setIsConnected(true);
-      addLog("success", "Respons audio diterima dari Gemini Live");
+      eventSourceRef.current = eventSource;
 
-      if (data.audioChunks && data.audioChunks.length > 0) {
-        await playAudioChunks(data.audioChunks, data.sampleRate || 24000);
-      }
+      setIsConnected(true);
+      addLog("success", t("log.liveOpened"));
+      return session;
     } catch {
-      setError("Gagal menghubungi Gemini Live API. Periksa koneksi internet Anda.");
-      addLog("error", "Koneksi terputus — gagal menghubungi Gemini Live API");
+      setError(t("errors.liveConnection"));
+      addLog("error", t("log.liveConnectionLost"));
       setIsConnected(false);
+      return null;
+    }
+  }, [targetLanguage, nativeLanguage, conversationMeta.scenarioId, level, handleLiveEvent, closeLiveSession, addLog, t]);
+
+  // One POST at a time keeps frames in capture order; whatever arrived meanwhile is merged into the next
+  const flushLiveInput = useCallback(async (sessionId: string) => {
+    const queue = liveInputRef.current;
+    queue.sending = true;
+    try {
+      while ((queue.frames.length || queue.end) && liveSessionRef.current?.id === sessionId) {
+        const input: { audioData?: string; audioStreamEnd?: boolean } = {};
+        if (queue.frames.length) input.audioData = arrayBufferToBase64(concatInt16(queue.frames).buffer);
+        if (queue.end) input.audioStreamEnd = true;
+        queue.frames = [];
+        queue.samples = 0;
+        queue.end = false;
+
+        try {
+          const response = await fetch(`/api/gemini/live/${encodeURIComponent(sessionId)}`, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify(input),
+          });
+          if (!response.ok) {
+            addLog("error", t("log.liveError", { error: localizeApiError(t, await response.json()) }));
+            if (response.status === 404) closeLiveSession();
+          }
+        } catch {
+          addLog("error", t("log.liveSendFailed"));
+        }
+      }
     } finally {
-      setIsProcessingAudio(false);
+      queue.sending = false;
     }
-  }, [apiKey, targetLanguage, nativeLanguage, playAudioChunks, addLog]);
+  }, [closeLiveSession, addLog, t]);
+
+  // Queues a microphone frame or the end-of-utterance marker for the open session
+  const sendLiveInput = useCallback((input: { frame?: Int16Array; audioStreamEnd?: boolean }) => {
+    const session = liveSessionRef.current;
+    if (!session) return;
+
+    const queue = liveInputRef.current;
+    if (input.frame) {
+      queue.frames.push(input.frame);
+      queue.samples += input.frame.length;
+      let dropped = false;
+      while (queue.samples > LIVE_MAX_PENDING_SAMPLES) {
+        queue.samples -= queue.frames.shift()!.length;
+        dropped = true;
+      }
+      if (dropped && !queue.dropping) addLog("warning", t("log.liveBacklog"));
+      queue.dropping = dropped;
+    }
+    if (input.audioStreamEnd) queue.end = true;
+    if (!queue.sending) flushLiveInput(session.id);
+  }, [flushLiveInput, addLog, t]);
+
+  // Tell Gemini the learner finished so it answers without waiting for more silence
+  const endLiveUtterance = useCallback(() => {
+    sendLiveInput({ audioStreamEnd: true });
+    commitUserVoiceTurn();
+    if (!voiceTurnRef.current.modelMessageId) {
+      setIsProcessingAudio(true);
+    }
+  }, [sendLiveInput, commitUserVoiceTurn]);
+
+  // A new language pair, level or leaving live mode needs a fresh session with a new system instruction
+  useEffect(() => {
+    return () => closeLiveSession();
+  }, [targetLanguage, nativeLanguage, liveMode, level, closeLiveSession]);
 
   const startRecording = async () => {
+    const mode: RecordingMode = drill ? "pronunciation" : liveMode ? (handsFree ? "handsFree" : "live") : "transcribe";
+    recordingModeRef.current = mode;
+    if (mode === "live" || mode === "handsFree") {
+      const session = await ensureLiveSession();
+      if (!session) return;
+      // Still inside the click gesture, so browsers allow the tutor's audio later
+      await player.unlock();
+    }
+
     try {
-      addLog("info", "Meminta akses mikrofon...");
-      const stream = await navigator.mediaDevices.getUserMedia({
-        audio: {
-          sampleRate: 16000,
-          channelCount: 1,
-          echoCancellation: true,
-          noiseSuppression: true,
+      addLog("info", t("log.micRequest"));
+      pcmBufferRef.current = [];
+      preRollRef.current = [];
+      spokenSamplesRef.current = 0;
+      vadRef.current = mode === "handsFree" ? createVoiceActivityDetector(vadSensitivity) : null;
+
+      const sendFrame = (frame: Int16Array) => {
+        if (!userTurnPendingRef.current) {
+          // First frame of a new utterance
+          userTurnPendingRef.current = true;
+          voiceTurnRef.current.userMessageId = null;
+          voiceTurnRef.current.userTranscript = "";
         }
-      });
+        spokenSamplesRef.current += frame.length;
+        sendLiveInput({ frame });
+      };
 
-      mediaStreamRef.current = stream;
-      pcmBufferRef.current = [];
+      // Only speech is streamed, so nothing reaches Gemini while the tutor talks unless the
+      // learner speaks over it (barge-in), which cuts the tutor off
+      const handleHandsFreeFrame = (frame: Int16Array) => {
+        const vad = vadRef.current;
+        if (!vad) return;
+        const tutorSpeaking = player.getState().status === "playing";
+        const event = vad.process(frame, tutorSpeaking ? BARGE_IN_MARGIN_DB : 0);
+
+        if (event === "start") {
+          if (tutorSpeaking) {
+            // The rest of the interrupted reply still arrives but stays silent
+            player.stop();
+            addLog("warning", t("log.bargeIn"));
+          } else {
+            addLog("audio", t("log.vadSpeechStart"));
+          }
+          setIsUserSpeaking(true);
+          preRollRef.current.forEach(sendFrame);
+          preRollRef.current = [];
+        }
 
-      const audioContext = new AudioContext({ sampleRate: 16000 });
-      audioContextRef.current = audioContext;
+        if (vad.isSpeaking() || event === "end") {
+          sendFrame(frame);
+        } else {
+          preRollRef.current = [...preRollRef.current, frame].slice(-VAD_PRE_ROLL_FRAMES);
+        }
 
-      const source = audioContext.createMediaStreamSource(stream);
-      sourceNodeRef.current = source;
+        if (event === "end") {
+          setIsUserSpeaking(false);
+          addLog("audio", t("log.vadSpeechEnd"));
+          endLiveUtterance();
+        }
+      };
 
-      const analyser = audioContext.createAnalyser();
-      analyser.fftSize = 64;
-      source.connect(analyser);
-      analyserRef.current = analyser;
+      const capture = await startMicCapture({
+        onFrame: (frame) => {
+          if (mode === "handsFree") {
+            handleHandsFreeFrame(frame);
+          } else if (mode === "live") {
+            sendFrame(frame);
+          } else {
+            spokenSamplesRef.current += frame.length;
+            pcmBufferRef.current.push(frame);
+          }
+        },
+      });
+      captureRef.current = capture;
+      analyserRef.current = capture.analyser;
 
       // Waveform animation
       const updateWaveform = () => {
@@ -343,24 +988,12 @@ export default function LanguageLearningApp({ apiKey, onResetKey }: LanguageLear
       };
       updateWaveform();
 
-      const bufferSize = 4096;
-      const scriptProcessor = audioContext.createScriptProcessor(bufferSize, 1, 1);
-      scriptProcessorRef.current = scriptProcessor;
-
-      scriptProcessor.onaudioprocess = (event) => {
-        const inputData = event.inputBuffer.getChannelData(0);
-        pcmBufferRef.current.push(new Float32Array(inputData));
-      };
-
-      source.connect(scriptProcessor);
-      scriptProcessor.connect(audioContext.destination);
-
       setIsRecording(true);
       setError("");
-      addLog("success", "Mikrofon aktif — merekam suara...");
+      addLog("success", t("log.micActive"));
     } catch {
-      setError("Tidak dapat mengakses mikrofon. Pastikan izin mikrofon diberikan.");
-      addLog("error", "Gagal mengakses mikrofon — izin ditolak");
+      setError(t("errors.microphone"));
+      addLog("error", t("log.micDenied"));
     }
   };
 
@@ -368,7 +1001,7 @@ export default function LanguageLearningApp({ apiKey, onResetKey }: LanguageLear
     if (!isRecording) return;
 
     setIsRecording(false);
-    addLog("info", "Rekaman dihentikan — memproses audio...");
+    addLog("info", t("log.recordingStopped"));
 
     if (waveformFrameRef.current) {
       cancelAnimationFrame(waveformFrameRef.current);
@@ -381,49 +1014,392 @@ export default function LanguageLearningApp({ apiKey, onResetKey }: LanguageLear
     setAudioLevel(0);
     setWaveformBars(Array(20).fill(4));
 
-    if (scriptProcessorRef.current) {
-      scriptProcessorRef.current.disconnect();
-      scriptProcessorRef.current = null;
+    // Stopping hands over the last partial frame, so it is sent or buffered before we go on
+    analyserRef.current = null;
+    if (captureRef.current) {
+      await captureRef.current.stop();
+      captureRef.current = null;
+    }
+    // Hands-free counts only detected speech, not the silence in between
+    if (spokenSamplesRef.current > 0) {
+      logPractice(recordSpeech(targetLanguage, spokenSamplesRef.current / CAPTURE_SAMPLE_RATE));
+      spokenSamplesRef.current = 0;
+    }
+
+    if (recordingModeRef.current === "live" || recordingModeRef.current === "handsFree") {
+      const wasHandsFree = recordingModeRef.current === "handsFree";
+      vadRef.current = null;
+      preRollRef.current = [];
+      setIsUserSpeaking(false);
+      if (!userTurnPendingRef.current) {
+        // Hands-free already sent every finished utterance
+        if (!wasHandsFree) addLog("warning", t("log.noAudio"));
+        return;
+      }
+      endLiveUtterance();
+      return;
+    }
+
+    const buffers = pcmBufferRef.current;
+    if (buffers.length === 0) {
+      addLog("warning", t("log.noAudio"));
+      return;
+    }
+
+    const combined = concatInt16(buffers);
+    pcmBufferRef.current = [];
+
+    if (recordingModeRef.current === "pronunciation") {
+      await assessPronunciation(combined);
+    } else {
+      await transcribeRecording(combined);
+    }
+  };
+
+  const toggleHandsFree = () => {
+    setHandsFree(!handsFree);
+    addLog("info", !handsFree ? t("log.handsFreeOn") : t("log.handsFreeOff"));
+  };
+
+  const changeVadSensitivity = (value: string) => {
+    if (!isVadSensitivity(value)) return;
+    setVadSensitivity(value);
+    storeVadSensitivity(value);
+    // Takes effect right away unless the learner is mid-utterance
+    if (vadRef.current && !vadRef.current.isSpeaking()) {
+      vadRef.current = createVoiceActivityDetector(value);
     }
-    if (sourceNodeRef.current) {
-      sourceNodeRef.current.disconnect();
-      sourceNodeRef.current = null;
+    addLog("info", t("log.vadSensitivity", { sensitivity: t(`vad.${value}`) }));
+  };
+
+  const changeNativeLanguage = (code: string) => {
+    if (code === targetLanguage) return;
+    setNativeLanguage(code);
+    storeNativeLanguage(code);
+    addLog("info", t("log.nativeChanged", { language: code }));
+  };
+
+  const startNewConversation = () => {
+    if (isRecording) return;
+    closeLiveSession();
+    setConversationMeta({ id: createConversationId(), targetLanguage, createdAt: Date.now() });
+    setMessages([createWelcomeMessage(t, targetLanguage, nativeLanguage)]);
+    setError("");
+    addLog("info", t("log.newConversation"));
+  };
+
+  const changeLevel = (value: string) => {
+    if (isCefrLevel(value)) {
+      setLevelSetting(targetLanguage, createLevelSetting(value, "manual"));
+      addLog("info", t("log.levelChanged", { target: targetLanguage, level: value }));
+    } else {
+      setLevelSetting(targetLanguage, null);
+      addLog("info", t("log.levelCleared", { target: targetLanguage }));
     }
-    if (analyserRef.current) {
-      analyserRef.current.disconnect();
-      analyserRef.current = null;
+  };
+
+  const submitPlacement = async (answers: { prompt: string; answer: string }[]) => {
+    setIsPlacing(true);
+    setError("");
+    addLog("info", t("log.placementEvaluating"));
+
+    try {
+      const response = await fetchWithRetry("/api/gemini/placement", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ answers, targetLanguage, nativeLanguage }),
+      }, { onRetry: logRetry });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        const message = localizeApiError(t, data);
+        setError(message);
+        addLog("error", t("log.placementError", { error: message }));
+        return;
+      }
+
+      const result = data as PlacementResult;
+      setPlacement({ result });
+      addLog("success", t("log.placementDone", { level: result.level }));
+    } catch {
+      setError(t("errors.connection"));
+      addLog("error", t("log.placementConnectionLost"));
+    } finally {
+      setIsPlacing(false);
+      onUsageChange();
+    }
+  };
+
+  const acceptPlacement = (result: PlacementResult) => {
+    setLevelSetting(targetLanguage, createLevelSetting(result.level, "placement"));
+    addLog("info", t("log.levelChanged", { target: targetLanguage, level: result.level }));
+    setPlacement(null);
+  };
+
+  // A role-play is a new conversation whose scenario travels with every text and live request
+  const startScenario = (next: Scenario) => {
+    if (isRecording) return;
+    closeLiveSession();
+    setConversationMeta({ id: createConversationId(), targetLanguage, scenarioId: next.id, createdAt: Date.now() });
+    setMessages([createScenarioWelcome(t, uiLocale, next, targetLanguage)]);
+    setError("");
+    addLog("info", t("log.scenarioStarted", { title: next.title[uiLocale] }));
+  };
+
+  // Asks for a goal-by-goal verdict on the role-play so far and appends it as a tutor message
+  const endScenario = async () => {
+    if (!scenario || isSummarizing) return;
+    setIsSummarizing(true);
+    setError("");
+    addLog("info", t("log.scenarioSummarizing"));
+
+    try {
+      const response = await fetchWithRetry("/api/gemini/scenario-summary", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          scenarioId: scenario.id,
+          transcript: messages.slice(1)
+            .filter(m => !m.scenarioReport)
+            .map(m => ({ role: m.role, text: m.parts[0].text })),
+          targetLanguage,
+          nativeLanguage,
+        }),
+      }, { onRetry: logRetry });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        const message = localizeApiError(t, data);
+        setError(message);
+        addLog("error", t("log.scenarioSummaryError", { error: message }));
+        return;
+      }
+
+      const report = data as ScenarioReport;
+      const met = report.goals.filter(goal => goal.met).length;
+      setMessages(prev => [...prev, {
+        id: createMessageId(),
+        role: "model",
+        parts: [{ text: [report.summary, report.nextSteps].filter(Boolean).join("\n\n") }],
+        scenarioReport: report,
+        timestamp: new Date(),
+      }]);
+      addLog("success", t("log.scenarioSummarized", { met, total: report.goals.length }));
+    } catch {
+      setError(t("errors.connection"));
+      addLog("error", t("log.scenarioConnectionLost"));
+    } finally {
+      setIsSummarizing(false);
+      onUsageChange();
+    }
+  };
+
+  // Recaps the conversation as a tutor message and stores the report to compare with later sessions
+  const endSession = async () => {
+    if (isSummarizing) return;
+    const transcript = messages.slice(1).filter(m => !m.scenarioReport && !m.sessionReport);
+    const learnerMessages = transcript.filter(m => m.role === "user");
+    closeLiveSession();
+    setIsSummarizing(true);
+    setError("");
+    addLog("info", t("log.sessionSummarizing"));
+
+    try {
+      const response = await fetchWithRetry("/api/gemini/session-summary", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          transcript: transcript.map(m => ({ role: m.role, text: m.parts[0].text, corrections: m.corrections })),
+          targetLanguage,
+          nativeLanguage,
+          level,
+        }),
+      }, { onRetry: logRetry });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        const message = localizeApiError(t, data);
+        setError(message);
+        addLog("error", t("log.sessionSummaryError", { error: message }));
+        return;
+      }
+
+      const report: SessionReport = {
+        ...(data as SessionReportContent),
+        conversationId: conversationMeta.id,
+        targetLanguage,
+        createdAt: Date.now(),
+        stats: {
+          learnerMessages: learnerMessages.length,
+          correctedMessages: learnerMessages.filter(m => m.corrections?.length).length,
+        },
+      };
+      setMessages(prev => [...prev, {
+        id: createMessageId(),
+        role: "model",
+        parts: [{ text: report.summary }],
+        vocabulary: report.vocabulary,
+        sessionReport: report,
+        timestamp: new Date(),
+      }]);
+      setSessionReports(prev => [report, ...prev.filter(r => r.conversationId !== report.conversationId)]);
+      saveSessionReport(report).catch(err => {
+        console.error("Session report store error:", err);
+        addLog("error", t("log.saveFailed"));
+      });
+      addLog("success", t("log.sessionSummarized", { words: report.vocabulary.length, mistakes: report.mistakes.length }));
+    } catch {
+      setError(t("errors.connection"));
+      addLog("error", t("log.sessionSummaryConnectionLost"));
+    } finally {
+      setIsSummarizing(false);
+      onUsageChange();
+    }
+  };
+
+  const exportSession = (format: "md" | "html" | "json") => {
+    const session: StoredConversation = {
+      ...conversationMeta,
+      title: conversationTitle(messages),
+      messages,
+      updatedAt: Date.now(),
+    };
+    const fileName = exportFileName(session.title || t("sidebar.newConversation"), format);
+    if (format === "md") {
+      downloadFile(fileName, sessionToMarkdown(session, t, dateLocale), "text/markdown");
+    } else if (format === "html") {
+      downloadFile(fileName, sessionToHtml(session, t, dateLocale, uiLocale), "text/html");
+    } else {
+      const report = sessionReports.find(r => r.conversationId === session.id);
+      downloadFile(fileName, JSON.stringify(sessionBackup(session, report), null, 2), "application/json");
+    }
+    addLog("success", t("log.exported", { file: fileName }));
+  };
+
+  const exportVocabulary = () => {
+    const fileName = exportFileName(`vocabulary ${targetLanguage}`, "csv");
+    downloadFile(fileName, vocabularyToAnkiCsv(vocabulary), "text/csv");
+    addLog("success", t("log.exported", { file: fileName }));
+  };
+
+  const backUpEverything = async () => {
+    try {
+      const fileName = exportFileName(`allbahasa backup ${new Date().toISOString().slice(0, 10)}`, "json");
+      downloadFile(fileName, JSON.stringify(await createBackup()), "application/json");
+      addLog("success", t("log.exported", { file: fileName }));
+    } catch (err) {
+      console.error("Backup error:", err);
+      addLog("error", t("log.exportFailed"));
     }
+  };
 
-    if (mediaStreamRef.current) {
-      mediaStreamRef.current.getTracks().forEach(t => t.stop());
-      mediaStreamRef.current = null;
+  // Restored preferences are read back into state; the conversation in progress is left open
+  const restoreFromFile = async (file: File) => {
+    setError("");
+    try {
+      const backup = parseBackup(await file.text());
+      if (!backup) {
+        setError(t("log.restoreInvalid"));
+        addLog("error", t("log.restoreInvalid"));
+        return;
+      }
+      const restored = await restoreBackup(backup);
+      const restoredNative = getStoredNativeLanguage();
+      setNativeLanguage(restoredNative);
+      setLevels(getStoredLevels());
+      setVadSensitivity(getStoredVadSensitivity());
+      setVoices(getStoredVoices());
+      if (restoredNative === targetLanguage) {
+        // The backup's native language is the one being practised; move off it as the pickers would.
+        // Switching the target starts a fresh conversation and reloads the lists.
+        const nextTarget = defaultTargetLanguage(restoredNative);
+        setTargetLanguage(nextTarget);
+        addLog("info", t("log.targetChanged", { language: nextTarget }));
+      } else {
+        refreshConversations(targetLanguage);
+        refreshVocabulary(targetLanguage);
+        refreshSessionReports(targetLanguage);
+      }
+      addLog("success", t("log.restored", {
+        conversations: restored.conversations,
+        words: restored.vocabulary,
+        reports: restored.sessionReports,
+      }));
+    } catch (err) {
+      console.error("Backup error:", err);
+      setError(t("log.restoreFailed"));
+      addLog("error", t("log.restoreFailed"));
     }
+  };
 
-    if (audioContextRef.current) {
-      await audioContextRef.current.close();
-      audioContextRef.current = null;
+  // Resumed history is replayed to /api/gemini as conversationHistory; live sessions start fresh
+  const resumeConversation = async (id: string) => {
+    if (isRecording || id === conversationMeta.id) return;
+    try {
+      const stored = await getConversation(id);
+      if (!stored) {
+        addLog("warning", t("log.conversationNotFound"));
+        refreshConversations(targetLanguage);
+        return;
+      }
+      closeLiveSession();
+      setConversationMeta({
+        id: stored.id,
+        targetLanguage: stored.targetLanguage,
+        scenarioId: stored.scenarioId,
+        createdAt: stored.createdAt,
+      });
+      setMessages(stored.messages);
+      setError("");
+      addLog("info", t("log.conversationResumed", { title: stored.title }));
+    } catch (err) {
+      console.error("Conversation store error:", err);
+      addLog("error", t("log.loadFailed"));
     }
+  };
 
-    const buffers = pcmBufferRef.current;
-    if (buffers.length === 0) {
-      addLog("warning", "Tidak ada data audio yang direkam");
-      return;
+  const removeConversation = async (id: string) => {
+    try {
+      await deleteConversation(id);
+      if (id === conversationMeta.id) {
+        startNewConversation();
+      }
+      refreshConversations(targetLanguage);
+      addLog("info", t("log.conversationDeleted"));
+    } catch (err) {
+      console.error("Conversation store error:", err);
+      addLog("error", t("log.deleteFailed"));
     }
+  };
 
-    const totalLength = buffers.reduce((sum, buf) => sum + buf.length, 0);
-    const combined = new Float32Array(totalLength);
-    let offset = 0;
-    for (const buf of buffers) {
-      combined.set(buf, offset);
-      offset += buf.length;
+  const saveVocabulary = async (item: VocabularyItem, messageId: string) => {
+    try {
+      await addVocabulary(targetLanguage, item, messageId);
+      refreshVocabulary(targetLanguage);
+      addLog("success", t("log.vocabSaved", { term: item.term }));
+    } catch (err) {
+      console.error("Vocabulary store error:", err);
+      addLog("error", t("log.vocabSaveFailed"));
     }
-    pcmBufferRef.current = [];
+  };
 
-    if (liveMode) {
-      await sendAudioToLiveAPI(combined);
+  const openReview = async () => {
+    try {
+      setReviewCards(dueCards(await listVocabulary(targetLanguage), Date.now()));
+    } catch (err) {
+      console.error("Vocabulary store error:", err);
+      addLog("error", t("log.vocabLoadFailed"));
     }
   };
 
+  const openDrill = (sentence: string) => {
+    if (isRecording) return;
+    setDrill({ sentence, result: null, recording: null });
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === "Enter" && !e.shiftKey) {
       e.preventDefault();
@@ -431,16 +1407,62 @@ export default function LanguageLearningApp({ apiKey, onResetKey }: LanguageLear
     }
   };
 
-  const formatMessage = (text: string) => {
-    return text
-      .replace(/\*\*(.*?)\*\*/g, "<strong>$1</strong>")
-      .replace(/\*(.*?)\*/g, "<em>$1</em>")
-      .replace(/\n/g, "<br/>");
+  const stopAudio = () => {
+    player.stop();
+    addLog("info", t("log.playbackStopped"));
+  };
+
+  const changePlaybackRate = (rate: PlaybackRate) => {
+    player.setRate(rate);
+    addLog("info", t("log.playbackRate", { rate }));
   };
 
-  const stopAudio = () => {
-    setIsPlayingAudio(false);
-    addLog("info", "Pemutaran audio dihentikan oleh pengguna");
+  // Reads a text reply aloud. The audio stays on the message, so replays don't call TTS again
+  // unless the learner has since picked another voice.
+  const listenToMessage = async (msg: Message) => {
+    if (msg.audio && (!msg.audio.voice || msg.audio.voice === ttsVoice)) {
+      player.play(msg.audio, msg.id);
+      return;
+    }
+    if (synthesizingMessageId) return;
+
+    setSynthesizingMessageId(msg.id);
+    addLog("info", t("log.ttsRequest", { voice: ttsVoice }));
+    try {
+      const response = await fetchWithRetry("/api/gemini/tts", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ text: msg.parts[0].text, targetLanguage, voice: ttsVoice }),
+      }, { onRetry: logRetry });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        const message = localizeApiError(t, data);
+        setError(message);
+        addLog("error", t("log.ttsError", { error: message }));
+        return;
+      }
+
+      const audio = { sampleRate: data.sampleRate as number, samples: base64ToFloat32(data.audioData), voice: data.voice as string };
+      setMessages(prev => prev.map(m => (m.id === msg.id ? { ...m, audio } : m)));
+      player.play(audio, msg.id);
+      addLog("success", t("log.ttsReady", { seconds: (audio.samples.length / audio.sampleRate).toFixed(1) }));
+    } catch {
+      setError(t("errors.connection"));
+      addLog("error", t("log.ttsConnectionLost"));
+    } finally {
+      setSynthesizingMessageId(null);
+      onUsageChange();
+    }
+  };
+
+  const changeVoice = (value: string) => {
+    if (!isTtsVoice(value)) return;
+    const next = { ...voices, [targetLanguage]: value };
+    setVoices(next);
+    storeVoices(next);
+    addLog("info", t("log.ttsVoice", { voice: value, language: targetLanguage }));
   };
 
   const logTypeConfig = {
@@ -486,9 +1508,9 @@ export default function LanguageLearningApp({ apiKey, onResetKey }: LanguageLear
           </div>
           {!sidebarCollapsed && (
             <div className="min-w-0">
-              <h1 className="text-white font-bold text-sm tracking-tight truncate">AI Language Tutor</h1>
+              <h1 className="text-white font-bold text-sm tracking-tight truncate">{t("app.title")}</h1>
               <p className="text-xs truncate" style={{ color: isConnected ? "#34d399" : "#f87171" }}>
-                {isConnected ? "Tersambung" : "Terputus"}
+                {isConnected ? t("status.connected") : t("status.disconnected")}
               </p>
             </div>
           )}
@@ -509,11 +1531,33 @@ export default function LanguageLearningApp({ apiKey, onResetKey }: LanguageLear
         <div className="flex-1 overflow-y-auto py-4 px-3 space-y-6"
           style={{ scrollbarWidth: "none" }}>
 
+          {/* Native language */}
+          {!sidebarCollapsed && (
+            <div>
+              <p className="text-slate-600 text-xs font-semibold uppercase tracking-widest mb-2 px-1">
+                {t("sidebar.nativeLanguage")}
+              </p>
+              <select
+                value={nativeLanguage}
+                onChange={(e) => changeNativeLanguage(e.target.value)}
+                disabled={isRecording}
+                className="w-full px-2.5 py-2 rounded-xl text-xs font-medium text-slate-200 focus:outline-none disabled:opacity-40"
+                style={{ background: "rgba(255,255,255,0.03)", border: "1px solid rgba(255,255,255,0.08)" }}
+              >
+                {NATIVE_LANGUAGES.map(lang => (
+                  <option key={lang.code} value={lang.code} disabled={lang.code === targetLanguage} className="bg-slate-900">
+                    {lang.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
           {/* Language Selection */}
           <div>
             {!sidebarCollapsed && (
               <p className="text-slate-600 text-xs font-semibold uppercase tracking-widest mb-2 px-1">
-                Bahasa Target
+                {t("sidebar.targetLanguage")}
               </p>
             )}
             <div className="space-y-1">
@@ -522,9 +1566,10 @@ export default function LanguageLearningApp({ apiKey, onResetKey }: LanguageLear
                   key={lang.code}
                   onClick={() => {
                     setTargetLanguage(lang.code);
-                    addLog("info", `Bahasa target diubah ke: ${lang.code}`);
+                    addLog("info", t("log.targetChanged", { language: lang.code }));
                   }}
-                  className={`w-full flex items-center gap-2.5 px-2.5 py-2 rounded-xl text-sm transition-all duration-150 ${
+                  disabled={isRecording || lang.code === nativeLanguage}
+                  className={`w-full flex items-center gap-2.5 px-2.5 py-2 rounded-xl text-sm transition-all duration-150 disabled:opacity-30 disabled:cursor-not-allowed ${
                     targetLanguage === lang.code
                       ? "text-white"
                       : "text-slate-400 hover:text-slate-200 hover:bg-white/5"
@@ -535,7 +1580,7 @@ export default function LanguageLearningApp({ apiKey, onResetKey }: LanguageLear
                   } : {
                     border: "1px solid transparent",
                   }}
-                  title={lang.label}
+                  title={lang.code === nativeLanguage ? t("sidebar.nativeLanguageSuffix", { label: lang.label }) : lang.label}
                 >
                   <span className="text-base flex-shrink-0">{lang.label.split(" ")[0]}</span>
                   {!sidebarCollapsed && (
@@ -549,6 +1594,283 @@ export default function LanguageLearningApp({ apiKey, onResetKey }: LanguageLear
             </div>
           </div>
 
+          {/* Proficiency level for the target language */}
+          {!sidebarCollapsed && (
+            <div>
+              <p className="text-slate-600 text-xs font-semibold uppercase tracking-widest mb-2 px-1">
+                {t("sidebar.level")}
+              </p>
+              <select
+                value={level ?? ""}
+                onChange={(e) => changeLevel(e.target.value)}
+                className="w-full px-2.5 py-2 rounded-xl text-xs font-medium text-slate-200 focus:outline-none"
+                style={{ background: "rgba(255,255,255,0.03)", border: "1px solid rgba(255,255,255,0.08)" }}
+              >
+                <option value="" className="bg-slate-900">{t("sidebar.levelNotSet")}</option>
+                {CEFR_LEVELS.map(value => (
+                  <option key={value} value={value} className="bg-slate-900">
+                    {value} · {t(`level.${value}`)}
+                  </option>
+                ))}
+              </select>
+              {levelSetting && levelSetting.source !== "manual" && (
+                <p className="text-slate-600 text-xs mt-1 px-1">
+                  {levelSetting.source === "auto" ? t("sidebar.levelAuto") : t("sidebar.levelPlacement")}
+                </p>
+              )}
+              <button
+                onClick={() => setPlacement({ result: null })}
+                className="w-full mt-1.5 px-2.5 py-1.5 rounded-xl text-xs text-slate-400 hover:text-white transition-all duration-150"
+                style={{ background: "rgba(255,255,255,0.03)", border: "1px solid rgba(255,255,255,0.06)" }}
+              >
+                {t("sidebar.placementTest")}
+              </button>
+            </div>
+          )}
+
+          {/* Divider */}
+          <div className="border-t border-white/5" />
+
+          {/* Conversation history */}
+          <div>
+            {!sidebarCollapsed && (
+              <p className="text-slate-600 text-xs font-semibold uppercase tracking-widest mb-2 px-1">
+                {t("sidebar.history")}
+              </p>
+            )}
+            <button
+              onClick={startNewConversation}
+              disabled={isRecording}
+              className={`w-full flex items-center gap-2.5 px-2.5 py-2 rounded-xl text-xs font-medium text-violet-300 hover:text-white transition-all duration-150 mb-1 disabled:opacity-40 ${sidebarCollapsed ? "justify-center" : ""}`}
+              style={{ background: "rgba(124,58,237,0.12)", border: "1px solid rgba(124,58,237,0.25)" }}
+              title={t("sidebar.newConversation")}
+            >
+              <svg className="w-4 h-4 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+              </svg>
+              {!sidebarCollapsed && <span>{t("sidebar.newConversation")}</span>}
+            </button>
+            {!sidebarCollapsed && (
+              <div className="space-y-1">
+                {conversations.length === 0 ? (
+                  <p className="text-slate-700 text-xs px-1 py-1">{t("sidebar.noConversations")}</p>
+                ) : (
+                  conversations.map(conv => (
+                    <div
+                      key={conv.id}
+                      className={`group flex items-center gap-1 rounded-xl transition-all duration-150 ${
+                        conv.id === conversationMeta.id ? "text-white" : "text-slate-400 hover:text-slate-200 hover:bg-white/5"
+                      }`}
+                      style={conv.id === conversationMeta.id ? {
+                        background: "rgba(255,255,255,0.05)",
+                        border: "1px solid rgba(255,255,255,0.08)",
+                      } : {
+                        border: "1px solid transparent",
+                      }}
+                    >
+                      <button
+                        onClick={() => resumeConversation(conv.id)}
+                        disabled={isRecording}
+                        className="flex-1 min-w-0 text-left px-2.5 py-2"
+                        title={conv.title || t("sidebar.newConversation")}
+                      >
+                        <p className="truncate text-xs font-medium">{conv.title || t("sidebar.newConversation")}</p>
+                        <p className="text-slate-600 text-xs mt-0.5">
+                          {t("sidebar.conversationMeta", { date: formatDate(conv.updatedAt, dateLocale), count: conv.messageCount })}
+                        </p>
+                      </button>
+                      <button
+                        onClick={() => removeConversation(conv.id)}
+                        className="flex-shrink-0 mr-1.5 w-6 h-6 rounded-lg flex items-center justify-center text-slate-600 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-all"
+                        title={t("sidebar.deleteConversation")}
+                      >
+                        <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                        </svg>
+                      </button>
+                    </div>
+                  ))
+                )}
+              </div>
+            )}
+          </div>
+
+          {/* Divider */}
+          <div className="border-t border-white/5" />
+
+          {/* Vocabulary deck */}
+          <div>
+            {!sidebarCollapsed && (
+              <p className="text-slate-600 text-xs font-semibold uppercase tracking-widest mb-2 px-1">
+                {t("sidebar.vocabulary")}
+              </p>
+            )}
+            <button
+              onClick={openReview}
+              className={`w-full flex items-center gap-2.5 px-2.5 py-2.5 rounded-xl text-xs font-medium text-slate-300 hover:text-white transition-all duration-150 ${sidebarCollapsed ? "justify-center" : ""}`}
+              style={{ background: "rgba(255,255,255,0.03)", border: "1px solid rgba(255,255,255,0.06)" }}
+              title={t("sidebar.reviewVocabulary")}
+            >
+              <svg className="w-4 h-4 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6.253v13m0-13C10.832 5.477 9.246 5 7.5 5S4.168 5.477 3 6.253v13C4.168 18.477 5.754 18 7.5 18s3.332.477 4.5 1.253m0-13C13.168 5.477 14.754 5 16.5 5c1.747 0 3.332.477 4.5 1.253v13C19.832 18.477 18.247 18 16.5 18c-1.746 0-3.332.477-4.5 1.253" />
+              </svg>
+              {!sidebarCollapsed && (
+                <span className="flex-1 text-left">
+                  {t("sidebar.reviewVocabulary")}
+                  <span className="block text-slate-600 font-normal mt-0.5">{t("sidebar.vocabularyCount", { count: vocabulary.length })}</span>
+                </span>
+              )}
+              {dueCount > 0 && (
+                <span className="text-xs px-1.5 py-0.5 rounded-md text-violet-200"
+                  style={{ background: "rgba(139,92,246,0.3)" }}
+                  title={t("sidebar.vocabularyDue", { count: dueCount })}>
+                  {dueCount}
+                </span>
+              )}
+            </button>
+            <Link
+              href="/dashboard"
+              className={`mt-2 w-full flex items-center gap-2.5 px-2.5 py-2.5 rounded-xl text-xs font-medium text-slate-300 hover:text-white transition-all duration-150 ${sidebarCollapsed ? "justify-center" : ""}`}
+              style={{ background: "rgba(255,255,255,0.03)", border: "1px solid rgba(255,255,255,0.06)" }}
+              title={t("sidebar.progress")}
+            >
+              <svg className="w-4 h-4 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
+              </svg>
+              {!sidebarCollapsed && <span className="flex-1 text-left">{t("sidebar.progress")}</span>}
+            </Link>
+          </div>
+
+          {/* Export and backup; files are built in the browser */}
+          {!sidebarCollapsed && (
+            <>
+              <div className="border-t border-white/5" />
+              <div>
+                <p className="text-slate-600 text-xs font-semibold uppercase tracking-widest mb-2 px-1">
+                  {t("sidebar.data")}
+                </p>
+                <div className="flex items-center gap-1.5 px-2.5 py-2 rounded-xl mb-2"
+                  style={{ background: "rgba(255,255,255,0.03)", border: "1px solid rgba(255,255,255,0.06)" }}>
+                  <span className="flex-1 text-xs font-medium text-slate-300">{t("sidebar.exportSession")}</span>
+                  {([
+                    ["md", "MD", t("sidebar.exportMarkdown")],
+                    ["html", "HTML", t("sidebar.exportHtml")],
+                    ["json", "JSON", t("sidebar.exportJson")],
+                  ] as const).map(([format, label, title]) => (
+                    <button
+                      key={format}
+                      onClick={() => exportSession(format)}
+                      disabled={!messages.some(m => m.role === "user")}
+                      className="px-1.5 py-0.5 rounded-md text-[10px] font-semibold text-violet-300 hover:text-white hover:bg-white/10 disabled:opacity-40 disabled:hover:bg-transparent transition-colors"
+                      title={title}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+                {[
+                  { label: t("sidebar.exportAnki"), onClick: exportVocabulary, disabled: vocabulary.length === 0 },
+                  { label: t("sidebar.backup"), onClick: backUpEverything, disabled: false },
+                  { label: t("sidebar.restore"), onClick: () => restoreInputRef.current?.click(), disabled: false },
+                ].map(({ label, onClick, disabled }) => (
+                  <button
+                    key={label}
+                    onClick={onClick}
+                    disabled={disabled}
+                    className="w-full text-left px-2.5 py-2 rounded-xl text-xs font-medium text-slate-400 hover:text-white hover:bg-white/5 disabled:opacity-40 disabled:hover:bg-transparent transition-colors"
+                  >
+                    {label}
+                  </button>
+                ))}
+                <input
+                  ref={restoreInputRef}
+                  type="file"
+                  accept="application/json,.json"
+                  className="hidden"
+                  aria-label={t("sidebar.restore")}
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    e.target.value = "";
+                    if (file) restoreFromFile(file);
+                  }}
+                />
+              </div>
+            </>
+          )}
+
+          {/* Divider */}
+          <div className="border-t border-white/5" />
+
+          {/* Practice */}
+          <div>
+            {!sidebarCollapsed && (
+              <p className="text-slate-600 text-xs font-semibold uppercase tracking-widest mb-2 px-1">
+                {t("sidebar.practice")}
+              </p>
+            )}
+            <button
+              onClick={() => openDrill("")}
+              disabled={isRecording}
+              className={`w-full flex items-center gap-2.5 px-2.5 py-2.5 rounded-xl text-xs font-medium text-slate-300 hover:text-white transition-all duration-150 disabled:opacity-40 ${sidebarCollapsed ? "justify-center" : ""}`}
+              style={{ background: "rgba(255,255,255,0.03)", border: "1px solid rgba(255,255,255,0.06)" }}
+              title={t("sidebar.pronunciationDrill")}
+            >
+              <svg className="w-4 h-4 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 8h10M7 12h4m1 8l-4-4H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-3l-4 4z" />
+              </svg>
+              {!sidebarCollapsed && <span>{t("sidebar.pronunciationDrill")}</span>}
+            </button>
+          </div>
+
+          {/* Divider */}
+          <div className="border-t border-white/5" />
+
+          {/* Role-play scenarios */}
+          <div>
+            {!sidebarCollapsed && (
+              <p className="text-slate-600 text-xs font-semibold uppercase tracking-widest mb-2 px-1">
+                {t("sidebar.scenarios")}
+              </p>
+            )}
+            <div className="space-y-1">
+              {SCENARIOS.map(item => (
+                <button
+                  key={item.id}
+                  onClick={() => startScenario(item)}
+                  disabled={isRecording}
+                  className={`w-full flex items-center gap-2.5 px-2.5 py-2 rounded-xl text-sm transition-all duration-150 disabled:opacity-40 ${
+                    scenario?.id === item.id
+                      ? "text-white"
+                      : "text-slate-400 hover:text-slate-200 hover:bg-white/5"
+                  } ${sidebarCollapsed ? "justify-center" : ""}`}
+                  style={scenario?.id === item.id ? {
+                    background: "rgba(124,58,237,0.2)",
+                    border: "1px solid rgba(124,58,237,0.3)",
+                  } : {
+                    border: "1px solid transparent",
+                  }}
+                  title={`${item.title[uiLocale]} (${item.level})`}
+                >
+                  <span className="text-base flex-shrink-0">{item.icon}</span>
+                  {!sidebarCollapsed && (
+                    <span className="min-w-0 flex-1 text-left">
+                      <span className="block truncate text-xs font-medium">{item.title[uiLocale]}</span>
+                      {scenario?.id === item.id && (
+                        <span className="block text-violet-300 text-xs">{t("sidebar.scenarioActive")}</span>
+                      )}
+                    </span>
+                  )}
+                  {!sidebarCollapsed && (
+                    <span className="text-xs px-1.5 py-0.5 rounded-md text-slate-400 flex-shrink-0"
+                      style={{ background: "rgba(255,255,255,0.05)" }}>
+                      {item.level}
+                    </span>
+                  )}
+                </button>
+              ))}
+            </div>
+          </div>
+
           {/* Divider */}
           <div className="border-t border-white/5" />
 
@@ -556,7 +1878,7 @@ export default function LanguageLearningApp({ apiKey, onResetKey }: LanguageLear
           <div>
             {!sidebarCollapsed && (
               <p className="text-slate-600 text-xs font-semibold uppercase tracking-widest mb-3 px-1">
-                Pengaturan
+                {t("sidebar.settings")}
               </p>
             )}
 
@@ -567,11 +1889,11 @@ export default function LanguageLearningApp({ apiKey, onResetKey }: LanguageLear
                 <button
                   onClick={() => {
                     setLiveMode(!liveMode);
-                    addLog("info", `Mode Live Audio ${!liveMode ? "diaktifkan" : "dinonaktifkan"}`);
+                    addLog("info", !liveMode ? t("log.liveModeOn") : t("log.liveModeOff"));
                   }}
                   className="w-8 h-8 rounded-lg flex items-center justify-center transition-all"
                   style={{ background: liveMode ? "rgba(124,58,237,0.3)" : "rgba(255,255,255,0.05)" }}
-                  title="Toggle Live Mode"
+                  title={t("sidebar.toggleLiveMode")}
                 >
                   <svg className="w-4 h-4" style={{ color: liveMode ? "#a78bfa" : "#64748b" }} fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.536 8.464a5 5 0 010 7.072M12 18.364a9 9 0 000-12.728M8.464 15.536a5 5 0 010-7.072" />
@@ -580,13 +1902,13 @@ export default function LanguageLearningApp({ apiKey, onResetKey }: LanguageLear
               ) : (
                 <div className="flex items-center justify-between">
                   <div>
-                    <p className="text-white text-xs font-medium">Live Audio</p>
-                    <p className="text-slate-600 text-xs mt-0.5">Gemini 2.5 Flash Native</p>
+                    <p className="text-white text-xs font-medium">{t("sidebar.liveAudio")}</p>
+                    <p className="text-slate-600 text-xs mt-0.5">{t("sidebar.liveAudioModel")}</p>
                   </div>
                   <button
                     onClick={() => {
                       setLiveMode(!liveMode);
-                      addLog("info", `Mode Live Audio ${!liveMode ? "diaktifkan" : "dinonaktifkan"}`);
+                      addLog("info", !liveMode ? t("log.liveModeOn") : t("log.liveModeOff"));
                     }}
                     className="relative w-10 h-5 rounded-full transition-all duration-300 flex-shrink-0"
                     style={{ background: liveMode ? "linear-gradient(135deg, #7c3aed, #4f46e5)" : "rgba(255,255,255,0.1)" }}
@@ -597,6 +1919,61 @@ export default function LanguageLearningApp({ apiKey, onResetKey }: LanguageLear
               )}
             </div>
 
+            {/* Hands-free: voice activity detection opens and closes each live utterance */}
+            {liveMode && !sidebarCollapsed && (
+              <div className="px-2.5 py-3 rounded-xl mb-2"
+                style={{ background: "rgba(255,255,255,0.03)", border: "1px solid rgba(255,255,255,0.06)" }}>
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-white text-xs font-medium">{t("sidebar.handsFree")}</p>
+                    <p className="text-slate-600 text-xs mt-0.5">{t("sidebar.handsFreeHint")}</p>
+                  </div>
+                  <button
+                    onClick={toggleHandsFree}
+                    disabled={isRecording}
+                    className="relative w-10 h-5 rounded-full transition-all duration-300 flex-shrink-0 disabled:opacity-40 disabled:cursor-not-allowed"
+                    style={{ background: handsFree ? "linear-gradient(135deg, #7c3aed, #4f46e5)" : "rgba(255,255,255,0.1)" }}
+                    title={t("sidebar.toggleHandsFree")}
+                  >
+                    <span className={`absolute top-0.5 w-4 h-4 bg-white rounded-full shadow-lg transition-transform duration-300 ${handsFree ? "translate-x-5" : "translate-x-0.5"}`} />
+                  </button>
+                </div>
+                {handsFree && (
+                  <label className="block mt-2.5">
+                    <span className="text-slate-500 text-xs">{t("sidebar.vadSensitivity")}</span>
+                    <select
+                      value={vadSensitivity}
+                      onChange={(e) => changeVadSensitivity(e.target.value)}
+                      className="w-full mt-1 px-2.5 py-1.5 rounded-lg text-xs font-medium text-slate-200 focus:outline-none"
+                      style={{ background: "rgba(255,255,255,0.03)", border: "1px solid rgba(255,255,255,0.08)" }}
+                    >
+                      {VAD_SENSITIVITIES.map(value => (
+                        <option key={value} value={value} className="bg-slate-900">{t(`vad.${value}`)}</option>
+                      ))}
+                    </select>
+                  </label>
+                )}
+              </div>
+            )}
+
+            {/* Voice that reads text replies aloud, remembered per target language */}
+            {!sidebarCollapsed && (
+              <label className="block px-2.5 py-3 rounded-xl mb-2"
+                style={{ background: "rgba(255,255,255,0.03)", border: "1px solid rgba(255,255,255,0.06)" }}>
+                <span className="text-white text-xs font-medium">{t("sidebar.ttsVoice")}</span>
+                <select
+                  value={ttsVoice}
+                  onChange={(e) => changeVoice(e.target.value)}
+                  className="w-full mt-1.5 px-2.5 py-1.5 rounded-lg text-xs font-medium text-slate-200 focus:outline-none"
+                  style={{ background: "rgba(255,255,255,0.03)", border: "1px solid rgba(255,255,255,0.08)" }}
+                >
+                  {TTS_VOICES.map(voice => (
+                    <option key={voice} value={voice} className="bg-slate-900">{voice}</option>
+                  ))}
+                </select>
+              </label>
+            )}
+
             {/* Activity Log Toggle */}
             <button
               onClick={() => setShowLog(!showLog)}
@@ -607,12 +1984,12 @@ export default function LanguageLearningApp({ apiKey, onResetKey }: LanguageLear
                 background: showLog ? "rgba(139,92,246,0.12)" : "rgba(255,255,255,0.03)",
                 border: `1px solid ${showLog ? "rgba(139,92,246,0.25)" : "rgba(255,255,255,0.06)"}`,
               }}
-              title="Toggle Activity Log"
+              title={t("sidebar.toggleActivityLog")}
             >
               <svg className="w-4 h-4 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2" />
               </svg>
-              {!sidebarCollapsed && <span>Activity Log</span>}
+              {!sidebarCollapsed && <span>{t("sidebar.activityLog")}</span>}
               {!sidebarCollapsed && (
                 <span className="ml-auto text-xs px-1.5 py-0.5 rounded-md"
                   style={{ background: showLog ? "rgba(139,92,246,0.2)" : "rgba(255,255,255,0.05)", color: showLog ? "#a78bfa" : "#475569" }}>
@@ -623,24 +2000,94 @@ export default function LanguageLearningApp({ apiKey, onResetKey }: LanguageLear
           </div>
         </div>
 
-        {/* Sidebar footer — API Key reset */}
-        <div className="border-t border-white/5 p-3">
+        {/* Sidebar footer — quota, API key and account */}
+        <div className="border-t border-white/5 p-3 space-y-2">
+          {auth.quota && !sidebarCollapsed && (
+            <div className="px-2.5 py-2 rounded-xl space-y-0.5"
+              style={{ background: "rgba(255,255,255,0.03)", border: "1px solid rgba(255,255,255,0.06)" }}>
+              <p className="text-slate-400 text-xs font-medium">{t("sidebar.quotaToday")}</p>
+              <p className="text-slate-500 text-xs">
+                {t("sidebar.quotaRequests", { used: auth.quota.used.requests, limit: auth.quota.limits.requests })}
+              </p>
+              <p className="text-slate-500 text-xs">
+                {t("sidebar.quotaAudio", {
+                  used: Math.ceil(auth.quota.used.audioSeconds / 60),
+                  limit: Math.floor(auth.quota.limits.audioSeconds / 60),
+                })}
+              </p>
+            </div>
+          )}
           <button
-            onClick={onResetKey}
+            onClick={onChangeKey}
             className={`w-full flex items-center gap-2.5 px-2.5 py-2.5 rounded-xl text-xs font-medium text-red-400 hover:text-red-300 transition-all duration-150 ${sidebarCollapsed ? "justify-center" : ""}`}
             style={{ background: "rgba(239,68,68,0.08)", border: "1px solid rgba(239,68,68,0.15)" }}
-            title="Ganti API Key"
+            title={auth.ownKey ? t("sidebar.changeApiKey") : t("sidebar.useOwnApiKey")}
           >
             <svg className="w-4 h-4 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 7a2 2 0 012 2m4 0a6 6 0 01-7.743 5.743L11 17H9v2H7v2H4a1 1 0 01-1-1v-2.586a1 1 0 01.293-.707l5.964-5.964A6 6 0 1121 9z" />
             </svg>
-            {!sidebarCollapsed && <span>Ganti API Key</span>}
+            {!sidebarCollapsed && <span>{auth.ownKey ? t("sidebar.changeApiKey") : t("sidebar.useOwnApiKey")}</span>}
           </button>
+          {onLogout && (
+            <button
+              onClick={onLogout}
+              className={`w-full flex items-center gap-2.5 px-2.5 py-2.5 rounded-xl text-xs font-medium text-slate-400 hover:text-slate-200 transition-all duration-150 ${sidebarCollapsed ? "justify-center" : ""}`}
+              style={{ background: "rgba(255,255,255,0.03)", border: "1px solid rgba(255,255,255,0.06)" }}
+              title={t("sidebar.logout")}
+            >
+              <svg className="w-4 h-4 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 16l4-4m0 0l-4-4m4 4H7m6 4v1a3 3 0 01-3 3H6a3 3 0 01-3-3V7a3 3 0 013-3h4a3 3 0 013 3v1" />
+              </svg>
+              {!sidebarCollapsed && <span className="truncate">{t("sidebar.logoutAs", { user: auth.user ?? "" })}</span>}
+            </button>
+          )}
         </div>
       </aside>
 
       {/* ─── MAIN CONTENT ─── */}
       <div className="flex-1 flex flex-col min-w-0 relative z-10">
+        {drill && (
+          <PronunciationDrill
+            sentence={drill.sentence}
+            onSentenceChange={(sentence) => setDrill({ ...drill, sentence })}
+            result={drill.result}
+            targetLanguage={targetLanguage}
+            isRecording={isRecording}
+            isAssessing={isAssessing}
+            hasRecording={!!drill.recording}
+            onToggleRecording={isRecording ? stopRecording : startRecording}
+            onPlay={(audio, sampleRate) => player.play({ sampleRate, samples: base64ToFloat32(audio) })}
+            onPlayRecording={() => {
+              if (drill.recording) player.play({ sampleRate: CAPTURE_SAMPLE_RATE, samples: base64ToFloat32(drill.recording) });
+            }}
+            onClose={() => setDrill(null)}
+            t={t}
+          />
+        )}
+        {placement && (
+          <PlacementTest
+            targetLanguage={targetLanguage}
+            result={placement.result}
+            isEvaluating={isPlacing}
+            onSubmit={submitPlacement}
+            onAccept={acceptPlacement}
+            onClose={() => setPlacement(null)}
+            t={t}
+          />
+        )}
+        {reviewCards && (
+          <VocabularyReview
+            cards={reviewCards}
+            targetLanguage={targetLanguage}
+            onClose={() => setReviewCards(null)}
+            onChange={() => refreshVocabulary(targetLanguage)}
+            onError={(err) => {
+              console.error("Vocabulary store error:", err);
+              addLog("error", t("log.vocabSaveFailed"));
+            }}
+            t={t}
+          />
+        )}
 
         {/* Top bar */}
         <header className="flex items-center justify-between px-5 py-3 border-b border-white/5 flex-shrink-0"
@@ -651,7 +2098,7 @@ export default function LanguageLearningApp({ apiKey, onResetKey }: LanguageLear
             <div className="flex items-center gap-2">
               <div className={`w-2 h-2 rounded-full ${isConnected ? "bg-emerald-400 animate-pulse" : "bg-red-400"}`} />
               <span className="text-xs font-medium" style={{ color: isConnected ? "#34d399" : "#f87171" }}>
-                {isConnected ? "Gemini 2.5 Flash" : "Terputus"}
+                {isConnected ? t("header.model") : t("status.disconnected")}
               </span>
             </div>
             {liveMode && (
@@ -659,7 +2106,7 @@ export default function LanguageLearningApp({ apiKey, onResetKey }: LanguageLear
                 <div className="w-px h-3 bg-white/10" />
                 <div className="flex items-center gap-1.5">
                   <div className="w-1.5 h-1.5 rounded-full bg-violet-400 animate-pulse" />
-                  <span className="text-violet-400 text-xs">Live Audio</span>
+                  <span className="text-violet-400 text-xs">{t("sidebar.liveAudio")}</span>
                 </div>
               </>
             )}
@@ -668,7 +2115,7 @@ export default function LanguageLearningApp({ apiKey, onResetKey }: LanguageLear
                 <div className="w-px h-3 bg-white/10" />
                 <div className="flex items-center gap-1.5">
                   <div className="w-2 h-2 rounded-full bg-red-400 animate-pulse" />
-                  <span className="text-red-400 text-xs font-medium">Merekam...</span>
+                  <span className="text-red-400 text-xs font-medium">{t("header.recording")}</span>
                 </div>
               </>
             )}
@@ -680,32 +2127,80 @@ export default function LanguageLearningApp({ apiKey, onResetKey }: LanguageLear
                     <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
                     <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
                   </svg>
-                  <span className="text-violet-400 text-xs">Memproses...</span>
+                  <span className="text-violet-400 text-xs">{t("header.processing")}</span>
                 </div>
               </>
             )}
-            {isPlayingAudio && (
+            {playback.status !== "idle" && (
               <>
                 <div className="w-px h-3 bg-white/10" />
                 <div className="flex items-center gap-1.5">
                   <div className="flex gap-0.5 items-end">
                     {[...Array(4)].map((_, i) => (
-                      <div key={i} className="w-0.5 bg-emerald-400 rounded-full animate-bounce"
+                      <div key={i} className={`w-0.5 bg-emerald-400 rounded-full ${playback.status === "playing" ? "animate-bounce" : ""}`}
                         style={{ height: "10px", animationDelay: `${i * 80}ms` }} />
                     ))}
                   </div>
-                  <span className="text-emerald-400 text-xs">Memutar audio...</span>
+                  <span className="text-emerald-400 text-xs">
+                    {playback.status === "paused" ? t("header.paused") : t("header.playing")}
+                  </span>
+                  <button
+                    onClick={playback.status === "paused" ? player.resume : player.pause}
+                    className="text-emerald-600 hover:text-emerald-400 transition-colors"
+                    title={playback.status === "paused" ? t("audio.resume") : t("audio.pause")}
+                  >
+                    <svg className="w-3 h-3" fill="currentColor" viewBox="0 0 24 24">
+                      <path d={playback.status === "paused" ? "M8 5v14l11-7z" : "M6 19h4V5H6v14zm8-14v14h4V5h-4z"} />
+                    </svg>
+                  </button>
+                  <button onClick={stopAudio} className="text-emerald-600 hover:text-emerald-400 transition-colors" title={t("audio.stop")}>
+                    <svg className="w-3 h-3" fill="currentColor" viewBox="0 0 24 24">
+                      <path d="M6 6h12v12H6z" />
+                    </svg>
+                  </button>
+                  {!playback.live && playback.rate !== 1 && (
+                    <span className="text-emerald-600 text-[10px] font-semibold">{playback.rate}×</span>
+                  )}
                 </div>
               </>
             )}
           </div>
 
-          {/* Current language badge */}
+          {/* Current scenario and language badge */}
           <div className="flex items-center gap-2">
+            {!scenario && (
+              <button
+                onClick={endSession}
+                disabled={isSummarizing || isLoading || isRecording || !messages.some(m => m.role === "user")}
+                className="px-3 py-1.5 rounded-xl text-xs font-medium text-slate-200 transition-all disabled:opacity-40"
+                style={{ background: "rgba(255,255,255,0.06)", border: "1px solid rgba(255,255,255,0.1)" }}
+                title={t("header.endSessionHint")}
+              >
+                {isSummarizing ? t("header.summarizing") : t("header.endSession")}
+              </button>
+            )}
+            {scenario && (
+              <>
+                <div className="flex items-center gap-2 px-3 py-1.5 rounded-xl"
+                  style={{ background: "rgba(255,255,255,0.05)", border: "1px solid rgba(255,255,255,0.08)" }}>
+                  <span className="text-sm">{scenario.icon}</span>
+                  <span className="text-slate-300 text-xs font-medium">{scenario.title[uiLocale]}</span>
+                </div>
+                <button
+                  onClick={endScenario}
+                  disabled={isSummarizing || isLoading || isRecording || !messages.some(m => m.role === "user")}
+                  className="px-3 py-1.5 rounded-xl text-xs font-medium text-white transition-all disabled:opacity-40"
+                  style={{ background: "linear-gradient(135deg, #7c3aed, #4f46e5)" }}
+                >
+                  {isSummarizing ? t("header.summarizing") : t("header.endScenario")}
+                </button>
+              </>
+            )}
             <div className="flex items-center gap-2 px-3 py-1.5 rounded-xl"
               style={{ background: "rgba(124,58,237,0.12)", border: "1px solid rgba(124,58,237,0.2)" }}>
               <span className="text-sm">{LANGUAGES.find(l => l.code === targetLanguage)?.label.split(" ")[0]}</span>
               <span className="text-violet-300 text-xs font-medium">{targetLanguage}</span>
+              {level && <span className="text-violet-200/70 text-xs">· {level}</span>}
             </div>
           </div>
         </header>
@@ -713,9 +2208,9 @@ export default function LanguageLearningApp({ apiKey, onResetKey }: LanguageLear
         {/* Messages */}
         <div className="flex-1 overflow-y-auto px-5 py-5 space-y-5"
           style={{ scrollbarWidth: "thin", scrollbarColor: "rgba(139,92,246,0.3) transparent" }}>
-          {messages.map((msg, idx) => (
+          {messages.map((msg, index) => (
             <div
-              key={idx}
+              key={msg.id}
               className={`flex ${msg.role === "user" ? "justify-end" : "justify-start"} items-end gap-3`}
             >
               {msg.role === "model" && (
@@ -750,18 +2245,107 @@ export default function LanguageLearningApp({ apiKey, onResetKey }: LanguageLear
                         ))}
                       </div>
                       <span className="text-xs" style={{ color: msg.role === "user" ? "rgba(255,255,255,0.7)" : "#a78bfa" }}>
-                        {msg.role === "user" ? "Pesan suara" : "Respons audio Gemini Live"}
+                        {msg.role === "user" ? t("chat.voiceMessage") : t("chat.voiceReply")}
                       </span>
+                      {msg.audio && (
+                        <div className="ml-auto">
+                          <ReplyAudioControls
+                            status={playback.messageId === msg.id ? playback.status : "idle"}
+                            rate={playback.rate}
+                            onPlay={() => player.play(msg.audio!, msg.id)}
+                            onPause={player.pause}
+                            onResume={player.resume}
+                            onStop={stopAudio}
+                            onRateChange={changePlaybackRate}
+                            t={t}
+                          />
+                        </div>
+                      )}
                     </div>
                   )}
-                  <div
-                    className="text-sm leading-relaxed text-white"
-                    dangerouslySetInnerHTML={{ __html: formatMessage(msg.parts[0].text) }}
-                  />
+                  {msg.scenarioReport && getScenario(msg.scenarioReport.scenarioId) ? (
+                    <ScenarioReportCard
+                      report={msg.scenarioReport}
+                      scenario={getScenario(msg.scenarioReport.scenarioId)!}
+                      locale={uiLocale}
+                      t={t}
+                    />
+                  ) : msg.sessionReport ? (
+                    <SessionReportCard
+                      report={msg.sessionReport}
+                      previous={previousSessionReport(sessionReports, msg.sessionReport)}
+                      t={t}
+                    />
+                  ) : msg.corrections?.length ? (
+                    <CorrectionDiff text={msg.parts[0].text} corrections={msg.corrections} />
+                  ) : (
+                    <MarkdownMessage className="text-sm leading-relaxed text-white" text={msg.parts[0].text} />
+                  )}
+                  {msg.id === streamingMessageId && (
+                    <span className="inline-block w-1.5 h-3.5 ml-0.5 align-middle bg-violet-400 animate-pulse" />
+                  )}
+                  {msg.translation && (
+                    <details className="mt-2 pt-2 border-t border-white/10 group">
+                      <summary className="text-xs text-violet-300 cursor-pointer select-none hover:text-violet-200">
+                        {t("chat.translation")}
+                      </summary>
+                      <MarkdownMessage className="mt-1.5 text-xs leading-relaxed text-slate-300" text={msg.translation} />
+                    </details>
+                  )}
                 </div>
+                {msg.corrections?.length ? (
+                  <div className="rounded-xl px-3 py-2 space-y-1"
+                    style={{ background: "rgba(16,185,129,0.06)", border: "1px solid rgba(16,185,129,0.15)" }}>
+                    <p className="text-xs font-semibold text-emerald-300">{t("chat.corrections")}</p>
+                    {msg.corrections.map((correction, i) => (
+                      <p key={i} className="text-xs leading-relaxed text-slate-300">
+                        <span className="line-through text-red-300">{correction.original}</span>
+                        {" → "}
+                        <span className="text-emerald-300">{correction.corrected}</span>
+                        {correction.explanation && <span className="text-slate-400"> — {correction.explanation}</span>}
+                      </p>
+                    ))}
+                  </div>
+                ) : null}
+                {msg.role === "model" && !msg.isAudio && msg.id !== streamingMessageId && !msg.scenarioReport && !msg.sessionReport && (
+                  <ReplyAudioControls
+                    status={playback.messageId === msg.id ? playback.status : "idle"}
+                    rate={playback.rate}
+                    isLoading={synthesizingMessageId === msg.id}
+                    hasAudio={msg.audio?.voice === ttsVoice}
+                    onPlay={() => listenToMessage(msg)}
+                    onPause={player.pause}
+                    onResume={player.resume}
+                    onStop={stopAudio}
+                    onRateChange={changePlaybackRate}
+                    t={t}
+                  />
+                )}
+                {msg.role === "model" && index > 0 && msg.id !== streamingMessageId && !msg.scenarioReport && (
+                  <MessageVocabulary
+                    items={msg.vocabulary ?? []}
+                    savedTerms={savedTerms}
+                    onSave={(item) => saveVocabulary(item, msg.id)}
+                    onPractice={() => openDrill(practiceSentence(msg.sessionReport?.vocabulary[0]?.example || msg.parts[0].text))}
+                    t={t}
+                  />
+                )}
+                {msg.failed && (
+                  <p className="flex items-center justify-end gap-2 text-xs text-red-300">
+                    {t("chat.notSent")}
+                    <button
+                      type="button"
+                      onClick={() => retryMessage(msg)}
+                      disabled={isLoading}
+                      className="px-2 py-0.5 rounded-lg font-medium text-violet-200 hover:text-white hover:bg-white/10 disabled:opacity-40 transition-colors"
+                    >
+                      ↻ {t("chat.retry")}
+                    </button>
+                  </p>
+                )}
                 {msg.timestamp && (
                   <p className={`text-xs text-slate-600 ${msg.role === "user" ? "text-right" : "text-left"}`}>
-                    {formatTime(msg.timestamp)}
+                    {formatTime(msg.timestamp, dateLocale)}
                   </p>
                 )}
               </div>
@@ -777,7 +2361,7 @@ export default function LanguageLearningApp({ apiKey, onResetKey }: LanguageLear
           ))}
 
           {/* Loading indicator */}
-          {isLoading && (
+          {isLoading && !streamingMessageId && (
             <div className="flex justify-start items-end gap-3">
               <div className="w-8 h-8 rounded-2xl flex items-center justify-center flex-shrink-0"
                 style={{ background: "linear-gradient(135deg, #7c3aed, #4f46e5)" }}>
@@ -842,7 +2426,15 @@ export default function LanguageLearningApp({ apiKey, onResetKey }: LanguageLear
               <div className="flex items-center gap-2">
                 <div className="w-2 h-2 rounded-full bg-red-400 animate-pulse" />
                 <span className="text-red-400 text-xs font-medium">
-                  {liveMode ? "🎙️ Merekam untuk Gemini Live..." : "Mendengarkan..."}
+                  {!liveMode
+                    ? t("composer.recordingTranscribe")
+                    : !handsFree
+                    ? t("composer.recordingLive")
+                    : isUserSpeaking
+                    ? t("composer.handsFreeSpeaking")
+                    : playback.live && playback.status === "playing"
+                    ? t("composer.handsFreeTutorSpeaking")
+                    : t("composer.handsFreeListening")}
                 </span>
               </div>
             </div>
@@ -852,10 +2444,11 @@ export default function LanguageLearningApp({ apiKey, onResetKey }: LanguageLear
             {/* Text input */}
             <div className="flex-1 relative">
               <textarea
+                ref={inputRef}
                 value={inputText}
                 onChange={(e) => setInputText(e.target.value)}
                 onKeyDown={handleKeyDown}
-                placeholder={`Ketik dalam ${targetLanguage} atau Bahasa Indonesia...`}
+                placeholder={t("composer.placeholder", { target: targetLanguage, native: nativeLanguage })}
                 rows={1}
                 className="w-full text-white placeholder-slate-600 focus:outline-none resize-none text-sm"
                 style={{
@@ -876,7 +2469,7 @@ export default function LanguageLearningApp({ apiKey, onResetKey }: LanguageLear
             {/* Voice button */}
             <button
               onClick={isRecording ? stopRecording : startRecording}
-              disabled={isLoading || isProcessingAudio}
+              disabled={isLoading || (isProcessingAudio && !isRecording)}
               className="rounded-xl flex items-center justify-center transition-all duration-200 flex-shrink-0 disabled:opacity-40 disabled:cursor-not-allowed"
               style={{
                 width: "40px",
@@ -894,7 +2487,7 @@ export default function LanguageLearningApp({ apiKey, onResetKey }: LanguageLear
                 border: "1px solid rgba(255,255,255,0.1)",
                 transform: isRecording ? "scale(1.05)" : "scale(1)",
               }}
-              title={liveMode ? "Bicara dengan Gemini Live API" : "Rekam suara"}
+              title={liveMode ? t(handsFree ? "composer.micHandsFree" : "composer.micLive") : t("composer.micTranscribe")}
             >
               {isRecording ? (
                 <svg className="w-4 h-4 text-white" fill="currentColor" viewBox="0 0 24 24">
@@ -907,30 +2500,49 @@ export default function LanguageLearningApp({ apiKey, onResetKey }: LanguageLear
               )}
             </button>
 
-            {/* Send button */}
-            <button
-              onClick={() => sendTextMessage(inputText)}
-              disabled={!inputText.trim() || isLoading}
-              className="flex items-center justify-center transition-all duration-200 flex-shrink-0 disabled:opacity-40 disabled:cursor-not-allowed"
-              style={{
-                width: "52px",
-                height: "52px",
-                borderRadius: "16px",
-                background: inputText.trim() && !isLoading
-                  ? "linear-gradient(135deg, #7c3aed, #4f46e5)"
-                  : "rgba(255,255,255,0.05)",
-                boxShadow: inputText.trim() && !isLoading ? "0 4px 20px rgba(124,58,237,0.3)" : "none",
-                border: "1px solid rgba(255,255,255,0.1)",
-              }}
-            >
-              <svg className="w-5 h-5 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8" />
-              </svg>
-            </button>
+            {/* Send button — becomes a stop button while a reply streams in */}
+            {isLoading ? (
+              <button
+                onClick={cancelTextMessage}
+                className="flex items-center justify-center transition-all duration-200 flex-shrink-0"
+                style={{
+                  width: "52px",
+                  height: "52px",
+                  borderRadius: "16px",
+                  background: "rgba(239,68,68,0.15)",
+                  border: "1px solid rgba(239,68,68,0.3)",
+                }}
+                title={t("composer.stop")}
+              >
+                <svg className="w-4 h-4 text-red-300" fill="currentColor" viewBox="0 0 24 24">
+                  <rect x="6" y="6" width="12" height="12" rx="2" />
+                </svg>
+              </button>
+            ) : (
+              <button
+                onClick={() => sendTextMessage(inputText)}
+                disabled={!inputText.trim() || isLoading}
+                className="flex items-center justify-center transition-all duration-200 flex-shrink-0 disabled:opacity-40 disabled:cursor-not-allowed"
+                style={{
+                  width: "52px",
+                  height: "52px",
+                  borderRadius: "16px",
+                  background: inputText.trim() && !isLoading
+                    ? "linear-gradient(135deg, #7c3aed, #4f46e5)"
+                    : "rgba(255,255,255,0.05)",
+                  boxShadow: inputText.trim() && !isLoading ? "0 4px 20px rgba(124,58,237,0.3)" : "none",
+                  border: "1px solid rgba(255,255,255,0.1)",
+                }}
+              >
+                <svg className="w-5 h-5 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8" />
+                </svg>
+              </button>
+            )}
           </div>
 
           <p className="text-slate-600 text-xs text-center mt-3">
-            Enter untuk kirim • {liveMode ? "🎙️ Tekan mikrofon untuk Live Audio Gemini 2.5" : "🎙️ untuk rekam suara"}
+            {t("composer.hint", { mode: liveMode ? t(handsFree ? "composer.hintHandsFree" : "composer.hintLive") : t("composer.hintTranscribe") })}
           </p>
         </div>
       </div>
@@ -949,14 +2561,14 @@ export default function LanguageLearningApp({ apiKey, onResetKey }: LanguageLear
           <div className="px-4 py-3.5 border-b border-white/5 flex items-center justify-between flex-shrink-0">
             <div className="flex items-center gap-2">
               <div className="w-2 h-2 rounded-full bg-violet-400 animate-pulse" />
-              <h3 className="text-white text-xs font-semibold tracking-widest uppercase">Activity Log</h3>
+              <h3 className="text-white text-xs font-semibold tracking-widest uppercase">{t("sidebar.activityLog")}</h3>
             </div>
             <div className="flex items-center gap-2">
               <span className="text-slate-600 text-xs">{logs.length}</span>
               <button
                 onClick={() => setLogs([])}
                 className="text-slate-600 hover:text-slate-400 transition-colors"
-                title="Bersihkan log"
+                title={t("logPanel.clear")}
               >
                 <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
@@ -975,10 +2587,10 @@ export default function LanguageLearningApp({ apiKey, onResetKey }: LanguageLear
               <div className={`w-2.5 h-2.5 rounded-full flex-shrink-0 ${isConnected ? "bg-emerald-400 animate-pulse" : "bg-red-400"}`} />
               <div>
                 <p className="text-xs font-semibold" style={{ color: isConnected ? "#34d399" : "#f87171" }}>
-                  {isConnected ? "● TERSAMBUNG" : "● TERPUTUS"}
+                  {isConnected ? t("logPanel.connected") : t("logPanel.disconnected")}
                 </p>
                 <p className="text-xs mt-0.5" style={{ color: isConnected ? "#6ee7b7" : "#fca5a5" }}>
-                  {isConnected ? "Gemini 2.5 Flash Live API" : "Tidak ada koneksi"}
+                  {isConnected ? t("logPanel.connectedDetail") : t("logPanel.disconnectedDetail")}
                 </p>
               </div>
             </div>
@@ -992,7 +2604,7 @@ export default function LanguageLearningApp({ apiKey, onResetKey }: LanguageLear
                 <svg className="w-8 h-8 text-slate-700" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2" />
                 </svg>
-                <p className="text-slate-700 text-xs">Belum ada aktivitas</p>
+                <p className="text-slate-700 text-xs">{t("logPanel.empty")}</p>
               </div>
             ) : (
               logs.map(log => {
@@ -1004,7 +2616,7 @@ export default function LanguageLearningApp({ apiKey, onResetKey }: LanguageLear
                       <span className="text-xs flex-shrink-0 mt-0.5">{cfg.icon}</span>
                       <div className="flex-1 min-w-0">
                         <p className={`text-xs leading-relaxed ${cfg.color} break-words`}>{log.message}</p>
-                        <p className="text-slate-700 text-xs mt-0.5">{formatTime(log.timestamp)}</p>
+                        <p className="text-slate-700 text-xs mt-0.5">{formatTime(log.timestamp, dateLocale)}</p>
                       </div>
                     </div>
                   </div>
@@ -1019,7 +2631,7 @@ export default function LanguageLearningApp({ apiKey, onResetKey }: LanguageLear
             <div className="px-3 py-3 border-t border-white/5 flex-shrink-0">
               <div className="flex items-center gap-2 mb-1.5">
                 <div className="w-1.5 h-1.5 rounded-full bg-red-400 animate-pulse" />
-                <span className="text-red-400 text-xs">Level Audio</span>
+                <span className="text-red-400 text-xs">{t("logPanel.audioLevel")}</span>
               </div>
               <div className="h-2 rounded-full overflow-hidden" style={{ background: "rgba(255,255,255,0.05)" }}>
                 <div
@@ -1039,7 +2651,7 @@ export default function LanguageLearningApp({ apiKey, onResetKey }: LanguageLear
           )}
 
           {/* Playing audio indicator */}
-          {isPlayingAudio && (
+          {playback.status !== "idle" && (
             <div className="px-3 py-3 border-t border-white/5 flex-shrink-0">
               <div className="flex items-center justify-between px-3 py-2 rounded-xl"
                 style={{ background: "rgba(16,185,129,0.08)", border: "1px solid rgba(16,185,129,0.2)" }}>
@@ -1050,11 +2662,13 @@ export default function LanguageLearningApp({ apiKey, onResetKey }: LanguageLear
                         style={{ height: "12px", animationDelay: `${i * 80}ms` }} />
                     ))}
                   </div>
-                  <span className="text-emerald-400 text-xs">Memutar...</span>
+                  <span className="text-emerald-400 text-xs">
+                    {playback.status === "paused" ? t("header.paused") : t("logPanel.playing")}
+                  </span>
                 </div>
-                <button onClick={stopAudio} className="text-emerald-600 hover:text-emerald-400 transition-colors">
+                <button onClick={stopAudio} className="text-emerald-600 hover:text-emerald-400 transition-colors" title={t("audio.stop")}>
                   <svg className="w-3.5 h-3.5" fill="currentColor" viewBox="0 0 24 24">
-                    <path d="M6 19h4V5H6v14zm8-14v14h4V5h-4z" />
+                    <path d="M6 6h12v12H6z" />
                   </svg>
                 </button>
               </div>
@@ -0,0 +1,98 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { getStoredNativeLanguage } from "@/lib/languages";
+import { createTranslator, localizeApiError, uiLocaleFor } from "@/lib/i18n";
+
+interface LoginFormProps {
+  onLoggedIn: () => void;
+}
+
+// Shown when the deployment sets AUTH_USERS
+export default function LoginForm({ onLoggedIn }: LoginFormProps) {
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState("");
+  const t = useMemo(() => createTranslator(uiLocaleFor(getStoredNativeLanguage())), []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError("");
+
+    try {
+      const response = await fetch("/api/auth/session", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ username: username.trim(), password }),
+      });
+
+      if (!response.ok) {
+        setError(localizeApiError(t, await response.json()));
+        return;
+      }
+
+      onLoggedIn();
+    } catch {
+      setError(t("apiKey.serverUnreachable"));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const inputClassName = "w-full bg-white/10 border border-white/20 rounded-xl px-4 py-3 text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent text-sm";
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900 flex items-center justify-center p-4">
+      <div className="w-full max-w-md">
+        <div className="text-center mb-8">
+          <h1 className="text-3xl font-bold text-white mb-2">{t("app.title")}</h1>
+          <p className="text-purple-300 text-sm">{t("app.tagline")}</p>
+        </div>
+
+        <div className="bg-white/10 backdrop-blur-md rounded-2xl p-6 border border-white/20 shadow-xl">
+          <h2 className="text-white font-semibold text-lg mb-1">{t("login.heading")}</h2>
+          <p className="text-slate-400 text-sm mb-5">{t("login.description")}</p>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-slate-300 text-sm font-medium mb-2">{t("login.username")}</label>
+              <input
+                type="text"
+                autoComplete="username"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-slate-300 text-sm font-medium mb-2">{t("login.password")}</label>
+              <input
+                type="password"
+                autoComplete="current-password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className={inputClassName}
+              />
+            </div>
+
+            {error && (
+              <div className="bg-red-500/20 border border-red-500/30 rounded-xl p-3">
+                <p className="text-red-300 text-sm">{error}</p>
+              </div>
+            )}
+
+            <button
+              type="submit"
+              disabled={isLoading || !username.trim() || !password}
+              className="w-full bg-purple-600 hover:bg-purple-500 disabled:bg-purple-800 disabled:cursor-not-allowed text-white font-semibold py-3 rounded-xl transition-all duration-200 shadow-lg shadow-purple-500/20"
+            >
+              {isLoading ? t("login.loggingIn") : t("login.submit")}
+            </button>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+import { Fragment, useMemo, type ReactNode } from "react";
+import { parseMarkdown, type BlockNode, type InlineNode } from "@/lib/markdown";
+
+interface MarkdownMessageProps {
+  text: string;
+  className?: string;
+}
+
+function renderInline(nodes: InlineNode[]): ReactNode {
+  return nodes.map((node, i) => {
+    switch (node.type) {
+      case "text":
+        return <Fragment key={i}>{node.text}</Fragment>;
+      case "strong":
+        return <strong key={i} className="font-semibold">{renderInline(node.children)}</strong>;
+      case "em":
+        return <em key={i}>{renderInline(node.children)}</em>;
+      case "del":
+        return <del key={i} className="opacity-70">{renderInline(node.children)}</del>;
+      case "code":
+        return (
+          <code key={i} className="px-1 py-0.5 rounded text-[0.85em] font-mono text-violet-200"
+            style={{ background: "rgba(0,0,0,0.3)" }}>
+            {node.text}
+          </code>
+        );
+      case "link":
+        return (
+          <a key={i} href={node.href} target="_blank" rel="noopener noreferrer"
+            className="underline decoration-violet-400 hover:text-violet-200">
+            {renderInline(node.children)}
+          </a>
+        );
+      case "ruby":
+        return (
+          <ruby key={i}>
+            {node.base}
+            <rp>(</rp>
+            <rt className="text-[0.65em] text-violet-200">{node.annotation}</rt>
+            <rp>)</rp>
+          </ruby>
+        );
+      case "break":
+        return <br key={i} />;
+    }
+  });
+}
+
+const HEADING_CLASSES = ["text-lg", "text-base", "text-sm", "text-sm", "text-sm", "text-sm"];
+
+function renderBlocks(blocks: BlockNode[], tight = false): ReactNode {
+  return blocks.map((block, i) => {
+    switch (block.type) {
+      case "paragraph":
+        // Single-paragraph list items render inline so tight lists don't get paragraph spacing
+        return tight ? <Fragment key={i}>{renderInline(block.children)}</Fragment> : <p key={i}>{renderInline(block.children)}</p>;
+      case "heading": {
+        const Tag = `h${block.level}` as const;
+        return (
+          <Tag key={i} className={`${HEADING_CLASSES[block.level - 1]} font-semibold text-violet-100`}>
+            {renderInline(block.children)}
+          </Tag>
+        );
+      }
+      case "code":
+        return (
+          <pre key={i} className="px-3 py-2 rounded-lg overflow-x-auto text-xs font-mono text-slate-200"
+            style={{ background: "rgba(0,0,0,0.35)", border: "1px solid rgba(255,255,255,0.06)" }}>
+            <code>{block.text}</code>
+          </pre>
+        );
+      case "list": {
+        const items = block.items.map((item, j) => (
+          <li key={j}>{renderBlocks(item, item.length === 1)}</li>
+        ));
+        return block.ordered ? (
+          <ol key={i} start={block.start} className="pl-5 space-y-0.5 list-decimal marker:text-violet-300">{items}</ol>
+        ) : (
+          <ul key={i} className="pl-5 space-y-0.5 list-disc marker:text-violet-300">{items}</ul>
+        );
+      }
+      case "blockquote":
+        return (
+          <blockquote key={i} className="pl-3 border-l-2 border-violet-400/50 text-slate-300 space-y-2">
+            {renderBlocks(block.children)}
+          </blockquote>
+        );
+      case "table":
+        return (
+          <div key={i} className="overflow-x-auto">
+            <table className="text-xs border-collapse">
+              <thead>
+                <tr>
+                  {block.header.map((cell, j) => (
+                    <th key={j} className="px-2.5 py-1.5 font-semibold text-violet-200 border border-white/10"
+                      style={{ textAlign: block.align[j] ?? "left", background: "rgba(124,58,237,0.15)" }}>
+                      {renderInline(cell)}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {block.rows.map((row, j) => (
+                  <tr key={j}>
+                    {row.map((cell, k) => (
+                      <td key={k} className="px-2.5 py-1.5 border border-white/10"
+                        style={{ textAlign: block.align[k] ?? "left" }}>
+                        {renderInline(cell)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        );
+      case "rule":
+        return <hr key={i} className="border-white/10" />;
+    }
+  });
+}
+
+// Renders chat text as markdown without ever touching innerHTML
+export default function MarkdownMessage({ text, className }: MarkdownMessageProps) {
+  const blocks = useMemo(() => parseMarkdown(text), [text]);
+  return <div className={`space-y-2 ${className ?? ""}`}>{renderBlocks(blocks)}</div>;
+}
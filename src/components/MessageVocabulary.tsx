@@ -0,0 +1,124 @@
+import { useState } from "react";
+import type { VocabularyItem } from "@/lib/types";
+import type { Translator } from "@/lib/i18n";
+import { normalizeTerm } from "@/lib/vocabularyStore";
+
+interface MessageVocabularyProps {
+  // Words the tutor extracted from this reply
+  items: VocabularyItem[];
+  savedTerms: Set<string>;
+  onSave: (item: VocabularyItem) => void;
+  // Opens a pronunciation drill on this reply
+  onPractice: () => void;
+  t: Translator;
+}
+
+const EMPTY_ITEM: VocabularyItem = { term: "", translation: "", example: "" };
+
+// Vocabulary chips under a tutor reply, a small form to save any word from it, and a drill shortcut
+export default function MessageVocabulary({ items, savedTerms, onSave, onPractice, t }: MessageVocabularyProps) {
+  const [draft, setDraft] = useState<VocabularyItem | null>(null);
+
+  // Read the selection on mousedown, before the click can collapse it (click covers the keyboard)
+  const openForm = () => {
+    const selected = typeof window !== "undefined" ? window.getSelection()?.toString().trim() ?? "" : "";
+    setDraft({ ...EMPTY_ITEM, term: selected.slice(0, 80) });
+  };
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft?.term.trim()) return;
+    onSave(draft);
+    setDraft(null);
+  };
+
+  const inputClassName = "w-full rounded-lg px-2.5 py-1.5 text-xs text-white placeholder-slate-500 focus:outline-none focus:ring-1 focus:ring-violet-500";
+  const inputStyle = { background: "rgba(255,255,255,0.06)", border: "1px solid rgba(255,255,255,0.08)" };
+
+  return (
+    <div className="space-y-1.5">
+      {items.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {items.map((item) => {
+            const saved = savedTerms.has(normalizeTerm(item.term));
+            return (
+              <button
+                key={item.term}
+                onClick={() => !saved && onSave(item)}
+                disabled={saved}
+                title={item.example}
+                className={`flex items-center gap-1.5 px-2 py-1 rounded-lg text-xs transition-all duration-150 ${
+                  saved ? "text-emerald-300 cursor-default" : "text-slate-300 hover:text-white"
+                }`}
+                style={{
+                  background: saved ? "rgba(16,185,129,0.1)" : "rgba(139,92,246,0.1)",
+                  border: `1px solid ${saved ? "rgba(16,185,129,0.2)" : "rgba(139,92,246,0.2)"}`,
+                }}
+              >
+                <span className="font-medium">{item.term}</span>
+                <span className="text-slate-500">{item.translation}</span>
+                <span>{saved ? "✓" : "+"}</span>
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {draft ? (
+        <form onSubmit={submit} className="rounded-xl p-2.5 space-y-1.5"
+          style={{ background: "rgba(255,255,255,0.03)", border: "1px solid rgba(255,255,255,0.06)" }}>
+          <input
+            autoFocus
+            value={draft.term}
+            onChange={(e) => setDraft({ ...draft, term: e.target.value })}
+            placeholder={t("vocab.term")}
+            className={inputClassName}
+            style={inputStyle}
+          />
+          <input
+            value={draft.translation}
+            onChange={(e) => setDraft({ ...draft, translation: e.target.value })}
+            placeholder={t("vocab.translation")}
+            className={inputClassName}
+            style={inputStyle}
+          />
+          <input
+            value={draft.example}
+            onChange={(e) => setDraft({ ...draft, example: e.target.value })}
+            placeholder={t("vocab.example")}
+            className={inputClassName}
+            style={inputStyle}
+          />
+          <div className="flex justify-end gap-1.5">
+            <button type="button" onClick={() => setDraft(null)}
+              className="px-2.5 py-1 rounded-lg text-xs text-slate-400 hover:text-white">
+              {t("vocab.cancel")}
+            </button>
+            <button type="submit" disabled={!draft.term.trim()}
+              className="px-2.5 py-1 rounded-lg text-xs font-medium text-white disabled:opacity-40"
+              style={{ background: "linear-gradient(135deg, #7c3aed, #4f46e5)" }}>
+              {t("vocab.save")}
+            </button>
+          </div>
+        </form>
+      ) : (
+        <div className="flex items-center gap-3">
+          <button
+            onMouseDown={openForm}
+            onClick={openForm}
+            className="text-xs text-slate-500 hover:text-violet-300 transition-colors"
+            title={t("vocab.saveWordHint")}
+          >
+            + {t("vocab.saveWord")}
+          </button>
+          <button
+            onClick={onPractice}
+            className="text-xs text-slate-500 hover:text-violet-300 transition-colors"
+          >
+            🎯 {t("pronunciation.practice")}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+import { useState } from "react";
+import type { Translator } from "@/lib/i18n";
+import type { PlacementResult } from "@/lib/types";
+
+interface PlacementTestProps {
+  targetLanguage: string;
+  result: PlacementResult | null;
+  isEvaluating: boolean;
+  onSubmit: (answers: { prompt: string; answer: string }[]) => void;
+  onAccept: (result: PlacementResult) => void;
+  onClose: () => void;
+  t: Translator;
+}
+
+// Writing tasks from A1 to C1; skipped ones tell the examiner where the learner's limit is
+const PROMPT_KEYS = ["placement.q1", "placement.q2", "placement.q3", "placement.q4", "placement.q5"] as const;
+
+// Short written placement test whose answers are graded into a CEFR level
+export default function PlacementTest({ targetLanguage, result, isEvaluating, onSubmit, onAccept, onClose, t }: PlacementTestProps) {
+  const [answers, setAnswers] = useState<string[]>(() => PROMPT_KEYS.map(() => ""));
+  const prompts = PROMPT_KEYS.map(key => t(key));
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit(prompts.map((prompt, i) => ({ prompt, answer: answers[i].trim() })));
+  };
+
+  return (
+    <div className="absolute inset-0 z-30 flex items-center justify-center p-6"
+      style={{ background: "rgba(5,5,15,0.85)", backdropFilter: "blur(12px)" }}>
+      <div className="w-full max-w-lg rounded-3xl p-6 space-y-4 max-h-full overflow-y-auto"
+        style={{ background: "rgba(20,20,35,0.95)", border: "1px solid rgba(255,255,255,0.08)" }}>
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-white font-semibold">{t("placement.title")}</h2>
+            <p className="text-slate-500 text-xs">{targetLanguage}</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-white text-sm" title={t("placement.close")}>✕</button>
+        </div>
+
+        {result ? (
+          <div className="space-y-4 text-center py-2">
+            <p className="text-slate-400 text-xs">{t("placement.result")}</p>
+            <p className="text-4xl font-bold text-violet-200">{result.level}</p>
+            <p className="text-slate-500 text-xs">{t(`level.${result.level}`)}</p>
+            {result.rationale && <p className="text-sm text-slate-300 leading-relaxed text-left">{result.rationale}</p>}
+            <div className="flex gap-2">
+              <button onClick={onClose}
+                className="flex-1 py-2 rounded-xl text-sm text-slate-300"
+                style={{ background: "rgba(255,255,255,0.05)", border: "1px solid rgba(255,255,255,0.08)" }}>
+                {t("placement.close")}
+              </button>
+              <button onClick={() => onAccept(result)}
+                className="flex-1 py-2 rounded-xl text-sm font-medium text-white"
+                style={{ background: "linear-gradient(135deg, #7c3aed, #4f46e5)" }}>
+                {t("placement.accept", { level: result.level })}
+              </button>
+            </div>
+          </div>
+        ) : (
+          <form onSubmit={submit} className="space-y-4">
+            <p className="text-slate-400 text-xs">{t("placement.instructions", { target: targetLanguage })}</p>
+            {prompts.map((prompt, i) => (
+              <div key={PROMPT_KEYS[i]}>
+                <label className="block text-slate-300 text-xs mb-1.5">{i + 1}. {prompt}</label>
+                <textarea
+                  value={answers[i]}
+                  onChange={(e) => setAnswers(prev => prev.map((answer, j) => (j === i ? e.target.value : answer)))}
+                  disabled={isEvaluating}
+                  rows={2}
+                  placeholder={t("placement.answerPlaceholder", { target: targetLanguage })}
+                  className="w-full rounded-xl px-3 py-2 text-sm text-white placeholder-slate-600 resize-none focus:outline-none focus:ring-1 focus:ring-violet-500 disabled:opacity-60"
+                  style={{ background: "rgba(255,255,255,0.05)", border: "1px solid rgba(255,255,255,0.08)" }}
+                />
+              </div>
+            ))}
+            <button
+              type="submit"
+              disabled={isEvaluating || !answers.some(answer => answer.trim())}
+              className="w-full py-2.5 rounded-xl text-sm font-medium text-white disabled:opacity-40"
+              style={{ background: "linear-gradient(135deg, #7c3aed, #4f46e5)" }}
+            >
+              {isEvaluating ? t("placement.evaluating") : t("placement.submit")}
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
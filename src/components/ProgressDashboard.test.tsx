@@ -0,0 +1,24 @@
+import { describe, expect, test } from "bun:test";
+import { render, screen, within } from "@testing-library/react";
+import ProgressDashboard from "./ProgressDashboard";
+import { createTranslator } from "@/lib/i18n";
+import { recordMessage, recordSpeech } from "@/lib/practiceLog";
+
+const t = createTranslator("id");
+
+describe("ProgressDashboard", () => {
+  // The test database is shared with other suites, so only Arabic and speech are asserted exactly
+  test("shows the streak, spoken minutes and messages per language", async () => {
+    await recordMessage("Arabic", true);
+    await recordMessage("Arabic", false);
+    await recordSpeech("Arabic", 90);
+
+    render(<ProgressDashboard />);
+
+    expect(await screen.findByText(t("dashboard.title"))).toBeDefined();
+    expect(screen.getByText("🔥 1")).toBeDefined();
+    expect(screen.getByText("1.5")).toBeDefined();
+    const arabic = screen.getByText("🇸🇦 Arabic").parentElement!;
+    expect(within(arabic).getByText("2")).toBeDefined();
+  });
+});
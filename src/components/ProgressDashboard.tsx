@@ -0,0 +1,206 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { createTranslator, dateLocaleFor, uiLocaleFor, type Locale } from "@/lib/i18n";
+import { LANGUAGES, getStoredNativeLanguage } from "@/lib/languages";
+import { listPracticeEvents, type PracticeEvent } from "@/lib/practiceLog";
+import { correctionTrend, messagesByLanguage, practiceStreak, spokenMinutes, vocabularyGrowth } from "@/lib/progressStats";
+import { listAllVocabulary } from "@/lib/vocabularyStore";
+
+const TREND_DAYS = 14;
+const GROWTH_DAYS = 30;
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+interface DashboardData {
+  events: PracticeEvent[];
+  vocabularyCreatedAt: number[];
+  now: number;
+  locale: Locale;
+}
+
+const PANEL_STYLE = { background: "rgba(255,255,255,0.04)", border: "1px solid rgba(255,255,255,0.08)" };
+
+function dayLabel(day: string, dateLocale: string): string {
+  const [year, month, date] = day.split("-").map(Number);
+  return new Date(year, month - 1, date).toLocaleDateString(dateLocale, { day: "numeric", month: "short" });
+}
+
+function StatTile({ label, value, detail }: { label: string; value: string; detail: string }) {
+  return (
+    <div className="rounded-2xl p-4" style={PANEL_STYLE}>
+      <p className="text-slate-400 text-xs font-medium">{label}</p>
+      <p className="text-white text-2xl font-bold mt-1">{value}</p>
+      <p className="text-slate-500 text-xs mt-0.5">{detail}</p>
+    </div>
+  );
+}
+
+// Progress across every language, read from the practice log and vocabulary deck in this browser
+export default function ProgressDashboard() {
+  const [data, setData] = useState<DashboardData | null>(null);
+  // Set when loading fails, so the error is shown in the learner's language
+  const [failedLocale, setFailedLocale] = useState<Locale | null>(null);
+
+  // Everything lives in IndexedDB and localStorage, so nothing is rendered on the server. The
+  // locale is read here too: reading it while rendering would not match the server's HTML.
+  useEffect(() => {
+    const locale = uiLocaleFor(getStoredNativeLanguage());
+    Promise.all([listPracticeEvents(), listAllVocabulary()])
+      .then(([events, cards]) =>
+        setData({
+          events,
+          vocabularyCreatedAt: cards.map(card => card.createdAt),
+          now: Date.now(),
+          locale,
+        })
+      )
+      .catch(err => {
+        console.error("Practice log error:", err);
+        setFailedLocale(locale);
+      });
+  }, []);
+
+  const stats = useMemo(() => {
+    if (!data) return null;
+    const { events, vocabularyCreatedAt, now } = data;
+    const trend = correctionTrend(events, now, TREND_DAYS);
+    const checked = trend.reduce((total, day) => total + day.checked, 0);
+    const corrected = trend.reduce((total, day) => total + day.corrected, 0);
+    return {
+      streak: practiceStreak(events, now),
+      minutesTotal: spokenMinutes(events),
+      minutesWeek: spokenMinutes(events, now - WEEK_MS),
+      languages: messagesByLanguage(events),
+      trend,
+      correctionRate: checked ? Math.round((corrected / checked) * 100) : null,
+      growth: vocabularyGrowth(vocabularyCreatedAt, now, GROWTH_DAYS),
+    };
+  }, [data]);
+
+  if (!data || !stats) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900 flex items-center justify-center">
+        {failedLocale && <p className="text-red-300 text-sm">{createTranslator(failedLocale)("dashboard.loadFailed")}</p>}
+      </div>
+    );
+  }
+
+  const t = createTranslator(data.locale);
+  const dateLocale = dateLocaleFor(data.locale);
+  const totalMessages = stats.languages.reduce((total, entry) => total + entry.count, 0);
+  const maxGrowth = Math.max(1, ...stats.growth.map(day => day.total));
+  const lastGrowth = stats.growth[stats.growth.length - 1];
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900 p-6">
+      <div className="max-w-4xl mx-auto space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-white text-xl font-bold">{t("dashboard.title")}</h1>
+            <p className="text-slate-400 text-xs mt-0.5">{t("dashboard.subtitle")}</p>
+          </div>
+          <Link href="/" className="px-3 py-1.5 rounded-xl text-xs font-medium text-slate-200 hover:text-white transition-all" style={PANEL_STYLE}>
+            ← {t("dashboard.back")}
+          </Link>
+        </div>
+
+        {data.events.length === 0 ? (
+          <div className="rounded-2xl p-8 text-center text-slate-400 text-sm" style={PANEL_STYLE}>
+            {t("dashboard.empty")}
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              <StatTile
+                label={t("dashboard.streak")}
+                value={`🔥 ${stats.streak.current}`}
+                detail={t("dashboard.longestStreak", { days: stats.streak.longest })}
+              />
+              <StatTile
+                label={t("dashboard.minutesSpoken")}
+                value={stats.minutesTotal.toFixed(1)}
+                detail={t("dashboard.thisWeek", { minutes: stats.minutesWeek.toFixed(1) })}
+              />
+              <StatTile
+                label={t("dashboard.messages")}
+                value={String(totalMessages)}
+                detail={t("dashboard.languageCount", { count: stats.languages.length })}
+              />
+              <StatTile
+                label={t("dashboard.correctionRate")}
+                value={stats.correctionRate === null ? "–" : `${stats.correctionRate}%`}
+                detail={t("dashboard.lastDays", { days: TREND_DAYS })}
+              />
+            </div>
+
+            <div className="grid md:grid-cols-2 gap-3">
+              <section className="rounded-2xl p-4" style={PANEL_STYLE}>
+                <h2 className="text-white text-sm font-semibold mb-3">{t("dashboard.messagesByLanguage")}</h2>
+                <ul className="space-y-2">
+                  {stats.languages.map(({ language, count }) => (
+                    <li key={language}>
+                      <div className="flex justify-between text-xs text-slate-300 mb-1">
+                        <span>{LANGUAGES.find(l => l.code === language)?.label ?? language}</span>
+                        <span>{count}</span>
+                      </div>
+                      <div className="h-1.5 rounded-full bg-white/5 overflow-hidden">
+                        <div className="h-full rounded-full"
+                          style={{ width: `${(count / totalMessages) * 100}%`, background: "linear-gradient(90deg, #7c3aed, #4f46e5)" }} />
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </section>
+
+              <section className="rounded-2xl p-4" style={PANEL_STYLE}>
+                <h2 className="text-white text-sm font-semibold">{t("dashboard.correctionTrend")}</h2>
+                <p className="text-slate-500 text-xs mb-3">{t("dashboard.correctionTrendHint")}</p>
+                <div className="flex items-end gap-1 h-28">
+                  {stats.trend.map(day => {
+                    const rate = day.checked ? day.corrected / day.checked : null;
+                    return (
+                      <div key={day.day} className="flex-1 h-full flex items-end"
+                        title={rate === null
+                          ? dayLabel(day.day, dateLocale)
+                          : t("dashboard.correctionDay", { day: dayLabel(day.day, dateLocale), corrected: day.corrected, checked: day.checked })}>
+                        <div className="w-full rounded-t"
+                          style={{
+                            height: rate === null ? "2px" : `${Math.max(4, rate * 100)}%`,
+                            background: rate === null ? "rgba(255,255,255,0.08)" : "rgba(245,158,11,0.6)",
+                          }} />
+                      </div>
+                    );
+                  })}
+                </div>
+                <div className="flex justify-between text-[10px] text-slate-500 mt-1">
+                  <span>{dayLabel(stats.trend[0].day, dateLocale)}</span>
+                  <span>{dayLabel(stats.trend[stats.trend.length - 1].day, dateLocale)}</span>
+                </div>
+              </section>
+            </div>
+
+            <section className="rounded-2xl p-4" style={PANEL_STYLE}>
+              <div className="flex items-baseline justify-between mb-3">
+                <h2 className="text-white text-sm font-semibold">{t("dashboard.vocabularyGrowth")}</h2>
+                <span className="text-slate-400 text-xs">{t("dashboard.vocabularyTotal", { count: lastGrowth.total })}</span>
+              </div>
+              <div className="flex items-end gap-0.5 h-24">
+                {stats.growth.map(day => (
+                  <div key={day.day} className="flex-1 h-full flex items-end" title={`${dayLabel(day.day, dateLocale)}: ${day.total}`}>
+                    <div className="w-full rounded-t"
+                      style={{ height: `${Math.max(2, (day.total / maxGrowth) * 100)}%`, background: "rgba(16,185,129,0.55)" }} />
+                  </div>
+                ))}
+              </div>
+              <div className="flex justify-between text-[10px] text-slate-500 mt-1">
+                <span>{dayLabel(stats.growth[0].day, dateLocale)}</span>
+                <span>{dayLabel(lastGrowth.day, dateLocale)}</span>
+              </div>
+            </section>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,181 @@
+import { useState } from "react";
+import type { Translator } from "@/lib/i18n";
+import type { PronunciationResult } from "@/lib/types";
+
+interface PronunciationDrillProps {
+  sentence: string;
+  onSentenceChange: (sentence: string) => void;
+  result: PronunciationResult | null;
+  targetLanguage: string;
+  isRecording: boolean;
+  isAssessing: boolean;
+  hasRecording: boolean;
+  onToggleRecording: () => void;
+  // Plays base64 16-bit PCM
+  onPlay: (audio: string, sampleRate: number) => void;
+  onPlayRecording: () => void;
+  onClose: () => void;
+  t: Translator;
+}
+
+function scoreColor(score: number): { text: string; background: string; border: string } {
+  if (score >= 80) return { text: "#6ee7b7", background: "rgba(16,185,129,0.15)", border: "rgba(16,185,129,0.3)" };
+  if (score >= 50) return { text: "#fcd34d", background: "rgba(245,158,11,0.15)", border: "rgba(245,158,11,0.3)" };
+  return { text: "#fca5a5", background: "rgba(239,68,68,0.15)", border: "rgba(239,68,68,0.3)" };
+}
+
+// Read-aloud drill: the learner records the sentence and gets per-word scores back
+export default function PronunciationDrill({
+  sentence,
+  onSentenceChange,
+  result,
+  targetLanguage,
+  isRecording,
+  isAssessing,
+  hasRecording,
+  onToggleRecording,
+  onPlay,
+  onPlayRecording,
+  onClose,
+  t,
+}: PronunciationDrillProps) {
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+  const selected = result && selectedIndex !== null ? result.words[selectedIndex] : null;
+
+  const selectWord = (index: number) => {
+    setSelectedIndex(index);
+    const audio = result?.words[index].referenceAudio;
+    if (audio && result) onPlay(audio, result.sampleRate);
+  };
+
+  return (
+    <div className="absolute inset-0 z-30 flex items-center justify-center p-6"
+      style={{ background: "rgba(5,5,15,0.85)", backdropFilter: "blur(12px)" }}>
+      <div className="w-full max-w-lg rounded-3xl p-6 space-y-4 max-h-full overflow-y-auto"
+        style={{ background: "rgba(20,20,35,0.95)", border: "1px solid rgba(255,255,255,0.08)" }}>
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-white font-semibold">{t("pronunciation.title")}</h2>
+            <p className="text-slate-500 text-xs">{targetLanguage}</p>
+          </div>
+          <button onClick={onClose} disabled={isRecording} className="text-slate-400 hover:text-white text-sm disabled:opacity-40"
+            title={t("pronunciation.close")}>✕</button>
+        </div>
+
+        <div>
+          <label className="block text-slate-400 text-xs mb-1.5">{t("pronunciation.sentence")}</label>
+          <textarea
+            value={sentence}
+            onChange={(e) => {
+              onSentenceChange(e.target.value);
+              setSelectedIndex(null);
+            }}
+            disabled={isRecording || isAssessing}
+            rows={2}
+            placeholder={t("pronunciation.sentencePlaceholder", { target: targetLanguage })}
+            className="w-full rounded-xl px-3 py-2 text-base text-white placeholder-slate-600 resize-none focus:outline-none focus:ring-1 focus:ring-violet-500 disabled:opacity-60"
+            style={{ background: "rgba(255,255,255,0.05)", border: "1px solid rgba(255,255,255,0.08)" }}
+          />
+        </div>
+
+        <div className="flex items-center gap-3">
+          <button
+            onClick={onToggleRecording}
+            disabled={isAssessing || !sentence.trim()}
+            className={`w-12 h-12 rounded-2xl flex items-center justify-center text-white disabled:opacity-40 ${isRecording ? "animate-pulse" : ""}`}
+            style={{ background: isRecording ? "linear-gradient(135deg, #ef4444, #dc2626)" : "linear-gradient(135deg, #7c3aed, #4f46e5)" }}
+            title={isRecording ? t("pronunciation.stop") : t("pronunciation.record")}
+          >
+            {isRecording ? (
+              <span className="w-4 h-4 rounded-sm bg-white" />
+            ) : (
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11a7 7 0 01-7 7m0 0a7 7 0 01-7-7m7 7v4m0 0H8m4 0h4m-4-8a3 3 0 01-3-3V5a3 3 0 116 0v6a3 3 0 01-3 3z" />
+              </svg>
+            )}
+          </button>
+          <p className="text-xs text-slate-400 flex-1">
+            {isRecording
+              ? t("pronunciation.recording")
+              : isAssessing
+                ? t("pronunciation.assessing")
+                : t("pronunciation.instructions")}
+          </p>
+        </div>
+
+        {result && (
+          <div className="space-y-3">
+            <div className="flex items-center gap-3">
+              <div className="w-14 h-14 rounded-2xl flex items-center justify-center text-lg font-bold flex-shrink-0"
+                style={{ color: scoreColor(result.overallScore).text, background: scoreColor(result.overallScore).background }}>
+                {result.overallScore}
+              </div>
+              <p className="text-sm text-slate-300 leading-relaxed">{result.feedback}</p>
+            </div>
+
+            <div className="flex flex-wrap gap-1.5">
+              {result.words.map((word, i) => {
+                const colors = scoreColor(word.score);
+                return (
+                  <button
+                    key={i}
+                    onClick={() => selectWord(i)}
+                    className="px-2 py-1 rounded-lg text-sm transition-all"
+                    style={{
+                      color: colors.text,
+                      background: colors.background,
+                      border: `1px solid ${selectedIndex === i ? colors.text : colors.border}`,
+                    }}
+                    title={t("pronunciation.wordScore", { score: word.score })}
+                  >
+                    {word.word}
+                    {word.referenceAudio && <span className="ml-1 text-xs opacity-70">▶</span>}
+                  </button>
+                );
+              })}
+            </div>
+
+            {selected && (
+              <div className="rounded-xl p-3 space-y-1 text-xs"
+                style={{ background: "rgba(255,255,255,0.03)", border: "1px solid rgba(255,255,255,0.06)" }}>
+                <p className="text-white font-medium">
+                  {selected.word} — {t("pronunciation.wordScore", { score: selected.score })}
+                </p>
+                {selected.heard && (
+                  <p className="text-slate-400">{t("pronunciation.heard", { heard: selected.heard })}</p>
+                )}
+                {selected.phonemes.map((phoneme, i) => (
+                  <p key={i} className="text-slate-400 font-mono">
+                    /{phoneme.expected}/ → /{phoneme.heard}/
+                  </p>
+                ))}
+                {selected.tip && <p className="text-slate-300">{selected.tip}</p>}
+              </div>
+            )}
+
+            <div className="flex gap-2">
+              {result.referenceAudio && (
+                <button
+                  onClick={() => onPlay(result.referenceAudio!, result.sampleRate)}
+                  className="flex-1 py-2 rounded-xl text-xs font-medium text-violet-200"
+                  style={{ background: "rgba(139,92,246,0.15)", border: "1px solid rgba(139,92,246,0.3)" }}
+                >
+                  ▶ {t("pronunciation.playReference")}
+                </button>
+              )}
+              {hasRecording && (
+                <button
+                  onClick={onPlayRecording}
+                  className="flex-1 py-2 rounded-xl text-xs font-medium text-slate-300"
+                  style={{ background: "rgba(255,255,255,0.05)", border: "1px solid rgba(255,255,255,0.08)" }}
+                >
+                  ▶ {t("pronunciation.playRecording")}
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+import type { Translator } from "@/lib/i18n";
+import { PLAYBACK_RATES, type PlaybackRate, type PlaybackState } from "@/lib/playback";
+
+interface ReplyAudioControlsProps {
+  // This reply's share of the playback state: idle unless it is the one playing
+  status: PlaybackState["status"];
+  rate: PlaybackRate;
+  // Audio for a text reply is being generated
+  isLoading?: boolean;
+  // False until a text reply has been voiced, so the play button reads "listen" instead of "replay"
+  hasAudio?: boolean;
+  onPlay: () => void;
+  onPause: () => void;
+  onResume: () => void;
+  onStop: () => void;
+  onRateChange: (rate: PlaybackRate) => void;
+  t: Translator;
+}
+
+const BUTTON_CLASS = "w-6 h-6 rounded-lg flex items-center justify-center text-violet-300 hover:text-white hover:bg-white/10 transition-colors";
+
+// Listen or replay, pause, stop and speed for one tutor reply
+export default function ReplyAudioControls({
+  status,
+  rate,
+  isLoading = false,
+  hasAudio = true,
+  onPlay,
+  onPause,
+  onResume,
+  onStop,
+  onRateChange,
+  t,
+}: ReplyAudioControlsProps) {
+  const nextRate = PLAYBACK_RATES[(PLAYBACK_RATES.indexOf(rate) + 1) % PLAYBACK_RATES.length];
+  const playLabel = status === "paused" ? t("audio.resume") : hasAudio ? t("audio.replay") : t("audio.listen");
+
+  return (
+    <div className="flex items-center gap-0.5">
+      {isLoading ? (
+        <span className={BUTTON_CLASS} title={t("audio.generating")} aria-label={t("audio.generating")}>
+          <svg className="w-3 h-3 animate-spin" fill="none" viewBox="0 0 24 24">
+            <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+            <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
+          </svg>
+        </span>
+      ) : status === "playing" ? (
+        <button type="button" onClick={onPause} className={BUTTON_CLASS} title={t("audio.pause")} aria-label={t("audio.pause")}>
+          <svg className="w-3 h-3" fill="currentColor" viewBox="0 0 24 24">
+            <path d="M6 19h4V5H6v14zm8-14v14h4V5h-4z" />
+          </svg>
+        </button>
+      ) : (
+        <button
+          type="button"
+          onClick={status === "paused" ? onResume : onPlay}
+          className={BUTTON_CLASS}
+          title={playLabel}
+          aria-label={playLabel}
+        >
+          <svg className="w-3 h-3" fill="currentColor" viewBox="0 0 24 24">
+            <path d="M8 5v14l11-7z" />
+          </svg>
+        </button>
+      )}
+      {status !== "idle" && (
+        <button type="button" onClick={onStop} className={BUTTON_CLASS} title={t("audio.stop")} aria-label={t("audio.stop")}>
+          <svg className="w-3 h-3" fill="currentColor" viewBox="0 0 24 24">
+            <path d="M6 6h12v12H6z" />
+          </svg>
+        </button>
+      )}
+      <button
+        type="button"
+        onClick={() => onRateChange(nextRate)}
+        className="h-6 px-1.5 rounded-lg text-[10px] font-semibold text-violet-300 hover:text-white hover:bg-white/10 transition-colors"
+        title={t("audio.speed", { rate: nextRate })}
+      >
+        {rate}×
+      </button>
+    </div>
+  );
+}
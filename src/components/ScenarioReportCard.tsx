@@ -0,0 +1,46 @@
+import type { Locale, Translator } from "@/lib/i18n";
+import type { Scenario } from "@/lib/scenarios";
+import type { ScenarioReport } from "@/lib/types";
+
+interface ScenarioReportCardProps {
+  report: ScenarioReport;
+  scenario: Scenario;
+  locale: Locale;
+  t: Translator;
+}
+
+// Goal checklist shown in the message that closes a role-play
+export default function ScenarioReportCard({ report, scenario, locale, t }: ScenarioReportCardProps) {
+  const metCount = report.goals.filter(goal => goal.met).length;
+
+  return (
+    <div className="space-y-3 text-sm text-white">
+      <div>
+        <p className="font-semibold">{scenario.icon} {t("chat.scenarioReport", { title: scenario.title[locale] })}</p>
+        <p className="text-xs text-slate-400">{t("chat.goalsMet", { met: metCount, total: report.goals.length })}</p>
+      </div>
+
+      <ul className="space-y-1.5">
+        {report.goals.map(result => {
+          const goal = scenario.goals.find(g => g.id === result.goalId);
+          return (
+            <li key={result.goalId} className="flex gap-2">
+              <span className={result.met ? "text-emerald-300" : "text-slate-500"}>{result.met ? "✓" : "○"}</span>
+              <div className="min-w-0">
+                <p className={result.met ? "text-white" : "text-slate-400"}>{goal?.text[locale] ?? result.goalId}</p>
+                {result.evidence && <p className="text-xs text-slate-500 italic">{result.evidence}</p>}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+
+      {report.summary && <p className="leading-relaxed text-slate-300">{report.summary}</p>}
+      {report.nextSteps && (
+        <p className="text-xs leading-relaxed text-violet-200">
+          <span className="font-semibold">{t("chat.nextSteps")}:</span> {report.nextSteps}
+        </p>
+      )}
+    </div>
+  );
+}
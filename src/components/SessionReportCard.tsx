@@ -0,0 +1,91 @@
+import type { Translator } from "@/lib/i18n";
+import type { SessionReport } from "@/lib/types";
+
+interface SessionReportCardProps {
+  report: SessionReport;
+  // The learner's previous session in this language, for the comparison line
+  previous?: SessionReport;
+  t: Translator;
+}
+
+function correctionRate({ stats }: SessionReport): number {
+  return stats.learnerMessages ? Math.round((stats.correctedMessages / stats.learnerMessages) * 100) : 0;
+}
+
+// Recap shown in the message that closes a session; new words are saved from the chips under it
+export default function SessionReportCard({ report, previous, t }: SessionReportCardProps) {
+  const rate = correctionRate(report);
+
+  return (
+    <div className="space-y-3 text-sm text-white">
+      <div>
+        <p className="font-semibold">📋 {t("report.title")}</p>
+        <p className="text-xs text-slate-400">
+          {t("report.stats", { messages: report.stats.learnerMessages, words: report.vocabulary.length, rate })}
+        </p>
+        {previous && (
+          <p className="text-xs text-slate-500">
+            {t("report.previous", {
+              messages: previous.stats.learnerMessages,
+              words: previous.vocabulary.length,
+              rate: correctionRate(previous),
+            })}
+            {" "}
+            {rate < correctionRate(previous) ? (
+              <span className="text-emerald-300">{t("report.improved")}</span>
+            ) : rate > correctionRate(previous) ? (
+              <span className="text-amber-300">{t("report.slipped")}</span>
+            ) : null}
+          </p>
+        )}
+      </div>
+
+      {report.summary && <p className="leading-relaxed text-slate-300">{report.summary}</p>}
+
+      {report.mistakes.length > 0 && (
+        <div>
+          <p className="text-xs font-semibold text-amber-300 mb-1">{t("report.mistakes")}</p>
+          <ul className="space-y-1.5">
+            {report.mistakes.map((mistake, i) => (
+              <li key={i} className="text-xs leading-relaxed">
+                <p className="text-slate-200">
+                  {mistake.pattern} <span className="text-slate-500">×{mistake.count}</span>
+                </p>
+                {mistake.example && (
+                  <p>
+                    <span className="line-through text-red-300">{mistake.example}</span>
+                    {" → "}
+                    <span className="text-emerald-300">{mistake.correction}</span>
+                  </p>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {report.grammarPoints.length > 0 && (
+        <div>
+          <p className="text-xs font-semibold text-violet-300 mb-1">{t("report.grammar")}</p>
+          <ul className="list-disc pl-4 space-y-0.5 text-xs text-slate-300">
+            {report.grammarPoints.map((point, i) => <li key={i}>{point}</li>)}
+          </ul>
+        </div>
+      )}
+
+      {report.nextTopics.length > 0 && (
+        <div>
+          <p className="text-xs font-semibold text-violet-200 mb-1">{t("report.nextTopics")}</p>
+          <div className="flex flex-wrap gap-1.5">
+            {report.nextTopics.map((topic, i) => (
+              <span key={i} className="px-2 py-0.5 rounded-lg text-xs text-violet-100"
+                style={{ background: "rgba(124,58,237,0.15)", border: "1px solid rgba(124,58,237,0.25)" }}>
+                {topic}
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
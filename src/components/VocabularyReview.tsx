@@ -0,0 +1,132 @@
+import { useState } from "react";
+import type { Translator } from "@/lib/i18n";
+import { REVIEW_GRADES, type ReviewGrade } from "@/lib/srs";
+import { reviewVocabulary, deleteVocabulary, type VocabularyCard } from "@/lib/vocabularyStore";
+
+interface VocabularyReviewProps {
+  // Cards due when the review was opened, most overdue first
+  cards: VocabularyCard[];
+  targetLanguage: string;
+  onClose: () => void;
+  // Called after each graded or deleted card so the sidebar counts stay current
+  onChange: () => void;
+  onError: (error: unknown) => void;
+  t: Translator;
+}
+
+const GRADE_BUTTONS: { grade: ReviewGrade; key: "review.again" | "review.hard" | "review.good" | "review.easy"; color: string }[] = [
+  { grade: REVIEW_GRADES.again, key: "review.again", color: "rgba(239,68,68,0.2)" },
+  { grade: REVIEW_GRADES.hard, key: "review.hard", color: "rgba(245,158,11,0.2)" },
+  { grade: REVIEW_GRADES.good, key: "review.good", color: "rgba(16,185,129,0.2)" },
+  { grade: REVIEW_GRADES.easy, key: "review.easy", color: "rgba(59,130,246,0.2)" },
+];
+
+// Flashcard session over the due cards. Forgotten cards come back at the end of the session.
+export default function VocabularyReview({ cards, targetLanguage, onClose, onChange, onError, t }: VocabularyReviewProps) {
+  const [queue, setQueue] = useState(cards);
+  const [revealed, setRevealed] = useState(false);
+  const [reviewedCount, setReviewedCount] = useState(0);
+  const [isSaving, setIsSaving] = useState(false);
+  const card = queue[0];
+
+  const grade = async (value: ReviewGrade) => {
+    if (!card || isSaving) return;
+    setIsSaving(true);
+    try {
+      const updated = await reviewVocabulary(card, value);
+      setQueue(prev => (value < 3 ? [...prev.slice(1), updated] : prev.slice(1)));
+      setReviewedCount(count => count + 1);
+      setRevealed(false);
+      onChange();
+    } catch (err) {
+      onError(err);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const remove = async () => {
+    if (!card) return;
+    try {
+      await deleteVocabulary(card.id);
+      setQueue(prev => prev.slice(1));
+      setRevealed(false);
+      onChange();
+    } catch (err) {
+      onError(err);
+    }
+  };
+
+  return (
+    <div className="absolute inset-0 z-30 flex items-center justify-center p-6"
+      style={{ background: "rgba(5,5,15,0.85)", backdropFilter: "blur(12px)" }}>
+      <div className="w-full max-w-md rounded-3xl p-6"
+        style={{ background: "rgba(20,20,35,0.95)", border: "1px solid rgba(255,255,255,0.08)" }}>
+        <div className="flex items-center justify-between mb-5">
+          <div>
+            <h2 className="text-white font-semibold">{t("review.title")}</h2>
+            <p className="text-slate-500 text-xs">{targetLanguage}</p>
+          </div>
+          <div className="flex items-center gap-3">
+            {card && <span className="text-xs text-slate-500">{t("review.remaining", { count: queue.length })}</span>}
+            <button onClick={onClose} className="text-slate-400 hover:text-white text-sm" title={t("review.close")}>✕</button>
+          </div>
+        </div>
+
+        {card ? (
+          <>
+            <div className="rounded-2xl p-6 text-center min-h-40 flex flex-col items-center justify-center gap-3"
+              style={{ background: "rgba(139,92,246,0.08)", border: "1px solid rgba(139,92,246,0.2)" }}>
+              <p className="text-2xl font-semibold text-white">{card.term}</p>
+              {revealed && (
+                <>
+                  <p className="text-violet-200">{card.translation}</p>
+                  {card.example && <p className="text-sm text-slate-400 italic">{card.example}</p>}
+                </>
+              )}
+            </div>
+
+            {revealed ? (
+              <div className="grid grid-cols-4 gap-2 mt-4">
+                {GRADE_BUTTONS.map(({ grade: value, key, color }) => (
+                  <button
+                    key={key}
+                    onClick={() => grade(value)}
+                    disabled={isSaving}
+                    className="py-2 rounded-xl text-xs font-medium text-white disabled:opacity-50"
+                    style={{ background: color, border: "1px solid rgba(255,255,255,0.08)" }}
+                  >
+                    {t(key)}
+                  </button>
+                ))}
+              </div>
+            ) : (
+              <button
+                onClick={() => setRevealed(true)}
+                className="w-full mt-4 py-2.5 rounded-xl text-sm font-medium text-white"
+                style={{ background: "linear-gradient(135deg, #7c3aed, #4f46e5)" }}
+              >
+                {t("review.showAnswer")}
+              </button>
+            )}
+
+            <button onClick={remove} className="w-full mt-3 text-xs text-slate-600 hover:text-red-400 transition-colors">
+              {t("review.delete")}
+            </button>
+          </>
+        ) : (
+          <div className="text-center py-8 space-y-4">
+            <p className="text-slate-300 text-sm">
+              {reviewedCount > 0 ? t("review.finished", { count: reviewedCount }) : t("review.empty")}
+            </p>
+            <button onClick={onClose}
+              className="px-4 py-2 rounded-xl text-sm text-white"
+              style={{ background: "rgba(255,255,255,0.08)" }}>
+              {t("review.close")}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+import { NextResponse } from "next/server";
+import { ProviderHttpError, ProviderUnsupportedError, SafetyBlockedError } from "./providers/types";
+
+// Routes return a code instead of a sentence; the client localizes it (see `localizeApiError`)
+export type ApiErrorCode =
+  | "API_KEY_REQUIRED"
+  | "API_KEY_INVALID"
+  | "LOGIN_REQUIRED"
+  | "INVALID_CREDENTIALS"
+  | "QUOTA_REQUESTS_EXCEEDED"
+  | "QUOTA_AUDIO_EXCEEDED"
+  | "MESSAGE_REQUIRED"
+  | "AUDIO_REQUIRED"
+  | "SENTENCE_REQUIRED"
+  | "TRANSCRIPT_INVALID"
+  | "LEVEL_INVALID"
+  | "SAME_LANGUAGE"
+  | "SCENARIO_NOT_FOUND"
+  | "MODEL_NOT_SUPPORTED"
+  | "PROVIDER_UNSUPPORTED"
+  | "SESSION_ID_REQUIRED"
+  | "SESSION_NOT_FOUND"
+  | "LIVE_SESSION_ERROR"
+  | "UPSTREAM_RATE_LIMITED"
+  | "UPSTREAM_TIMEOUT"
+  | "UPSTREAM_UNAVAILABLE"
+  | "NETWORK_ERROR"
+  | "SAFETY_BLOCKED"
+  | "UPSTREAM_ERROR"
+  | "UNKNOWN_ERROR";
+
+export interface ApiErrorPayload {
+  code: ApiErrorCode;
+  detail?: string;
+  // Seconds to wait before trying again; also sent as the Retry-After header
+  retryAfter?: number;
+}
+
+// Failures that may clear up by themselves, so repeating the request is worthwhile
+const TRANSIENT_CODES: ApiErrorCode[] = ["UPSTREAM_RATE_LIMITED", "UPSTREAM_TIMEOUT", "UPSTREAM_UNAVAILABLE", "NETWORK_ERROR"];
+
+export function isTransientError(code: ApiErrorCode): boolean {
+  return TRANSIENT_CODES.includes(code);
+}
+
+// Node's fetch reports socket failures as `TypeError: fetch failed` with the system error as its cause
+const NETWORK_ERROR_CODES = new Set(["ECONNRESET", "ECONNREFUSED", "ENOTFOUND", "EAI_AGAIN", "EPIPE", "UND_ERR_SOCKET"]);
+const TIMEOUT_ERROR_CODES = new Set(["ETIMEDOUT", "UND_ERR_CONNECT_TIMEOUT", "UND_ERR_HEADERS_TIMEOUT"]);
+
+function systemErrorCode(error: Error): string | undefined {
+  const code = (error as { code?: unknown }).code ?? (error.cause as { code?: unknown } | undefined)?.code;
+  return typeof code === "string" ? code : undefined;
+}
+
+export function toApiErrorPayload(code: ApiErrorCode, detail?: string): ApiErrorPayload {
+  return detail ? { code, detail } : { code };
+}
+
+export function apiError(code: ApiErrorCode, status: number, detail?: string) {
+  return NextResponse.json(toApiErrorPayload(code, detail), { status });
+}
+
+// Maps an exception thrown by the model provider to a payload
+export function geminiErrorPayload(error: unknown): { payload: ApiErrorPayload; status: number } {
+  if (error instanceof ProviderUnsupportedError) {
+    return { payload: toApiErrorPayload("PROVIDER_UNSUPPORTED", error.message), status: 501 };
+  }
+  if (error instanceof SafetyBlockedError) {
+    return { payload: toApiErrorPayload("SAFETY_BLOCKED"), status: 422 };
+  }
+  if (error instanceof ProviderHttpError) {
+    if (error.status === 429) {
+      const payload = toApiErrorPayload("UPSTREAM_RATE_LIMITED");
+      return { payload: error.retryAfter ? { ...payload, retryAfter: error.retryAfter } : payload, status: 429 };
+    }
+    if (error.status === 408 || error.status === 504) {
+      return { payload: toApiErrorPayload("UPSTREAM_TIMEOUT"), status: 504 };
+    }
+    if (error.status >= 500) {
+      return { payload: toApiErrorPayload("UPSTREAM_UNAVAILABLE"), status: 503 };
+    }
+  }
+  if (error instanceof Error) {
+    if (error.message.includes("API_KEY_INVALID") || error.message.includes("API key")) {
+      return { payload: toApiErrorPayload("API_KEY_INVALID"), status: 401 };
+    }
+    const code = systemErrorCode(error);
+    if (error.name === "TimeoutError" || (code && TIMEOUT_ERROR_CODES.has(code))) {
+      return { payload: toApiErrorPayload("UPSTREAM_TIMEOUT"), status: 504 };
+    }
+    if ((code && NETWORK_ERROR_CODES.has(code)) || (error instanceof TypeError && error.message === "fetch failed")) {
+      return { payload: toApiErrorPayload("NETWORK_ERROR"), status: 502 };
+    }
+    return { payload: toApiErrorPayload("UPSTREAM_ERROR", error.message), status: 500 };
+  }
+  return { payload: toApiErrorPayload("UNKNOWN_ERROR"), status: 500 };
+}
+
+export function geminiErrorResponse(error: unknown) {
+  const { payload, status } = geminiErrorPayload(error);
+  const headers = payload.retryAfter ? { "Retry-After": String(payload.retryAfter) } : undefined;
+  return NextResponse.json(payload, { status, headers });
+}
@@ -0,0 +1,186 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes, timingSafeEqual } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { apiError } from "./apiErrors";
+import { serverApiKey } from "./providers";
+import { consumeQuota, getQuotaUsage, quotaLimits, type QuotaUsage } from "./quotas";
+import type { AuthStatus } from "./types";
+
+const SESSION_COOKIE = "allbahasa_session";
+const API_KEY_COOKIE = "allbahasa_key";
+const SESSION_TTL_SECONDS = 7 * 24 * 60 * 60;
+const API_KEY_TTL_SECONDS = 180 * 24 * 60 * 60;
+
+// Cookies are sealed with APP_SECRET; without it a per-process secret is used and
+// sessions and stored keys are lost on restart
+const globalStore = globalThis as typeof globalThis & {
+  __appSecret?: Buffer;
+};
+
+function sealingKey(): Buffer {
+  if (process.env.APP_SECRET) {
+    return createHash("sha256").update(process.env.APP_SECRET).digest();
+  }
+  globalStore.__appSecret ??= randomBytes(32);
+  return globalStore.__appSecret;
+}
+
+// AES-256-GCM: iv | auth tag | ciphertext, base64url
+function seal(value: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", sealingKey(), iv);
+  const data = Buffer.concat([cipher.update(value, "utf8"), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), data]).toString("base64url");
+}
+
+function unseal(token: string): string | null {
+  try {
+    const raw = Buffer.from(token, "base64url");
+    const decipher = createDecipheriv("aes-256-gcm", sealingKey(), raw.subarray(0, 12));
+    decipher.setAuthTag(raw.subarray(12, 28));
+    return Buffer.concat([decipher.update(raw.subarray(28)), decipher.final()]).toString("utf8");
+  } catch {
+    return null;
+  }
+}
+
+// AUTH_USERS="alice:secret,bob:hunter2" turns login on; without it the app is open to everyone
+function configuredUsers(): Map<string, string> {
+  const users = new Map<string, string>();
+  for (const entry of (process.env.AUTH_USERS || "").split(",")) {
+    const separator = entry.indexOf(":");
+    if (separator > 0) {
+      users.set(entry.slice(0, separator).trim(), entry.slice(separator + 1).trim());
+    }
+  }
+  return users;
+}
+
+export function loginRequired(): boolean {
+  return configuredUsers().size > 0;
+}
+
+export function verifyCredentials(username: string, password: string): boolean {
+  const expected = configuredUsers().get(username);
+  if (expected === undefined) return false;
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  return timingSafeEqual(digest(password), digest(expected));
+}
+
+export function getSessionUser(request: NextRequest): string | null {
+  const token = request.cookies.get(SESSION_COOKIE)?.value;
+  const payload = token ? unseal(token) : null;
+  if (!payload) return null;
+  try {
+    const { user, exp } = JSON.parse(payload);
+    if (typeof user === "string" && exp > Date.now() && configuredUsers().has(user)) {
+      return user;
+    }
+  } catch {
+    // Malformed cookie — treat as logged out
+  }
+  return null;
+}
+
+function getStoredApiKey(request: NextRequest): string | null {
+  const token = request.cookies.get(API_KEY_COOKIE)?.value;
+  return token ? unseal(token) : null;
+}
+
+function cookieOptions(maxAge: number) {
+  return {
+    httpOnly: true,
+    sameSite: "strict" as const,
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge,
+  };
+}
+
+export function setSessionCookie(response: NextResponse, user: string) {
+  const value = seal(JSON.stringify({ user, exp: Date.now() + SESSION_TTL_SECONDS * 1000 }));
+  response.cookies.set(SESSION_COOKIE, value, cookieOptions(SESSION_TTL_SECONDS));
+}
+
+export function clearSessionCookie(response: NextResponse) {
+  response.cookies.set(SESSION_COOKIE, "", cookieOptions(0));
+}
+
+// The learner's own key never reaches client-side JavaScript: it lives sealed in an httpOnly cookie
+export function setApiKeyCookie(response: NextResponse, apiKey: string) {
+  response.cookies.set(API_KEY_COOKIE, seal(apiKey), cookieOptions(API_KEY_TTL_SECONDS));
+}
+
+export function clearApiKeyCookie(response: NextResponse) {
+  response.cookies.set(API_KEY_COOKIE, "", cookieOptions(0));
+}
+
+// TRUSTED_PROXY_HOPS is the number of reverse proxies in front of the app. Each one appends the
+// address it got the request from to X-Forwarded-For, so the client is that many entries from the
+// end; anything before it was written by the client itself and can't be trusted.
+function clientAddress(request: NextRequest): string | null {
+  const hops = Number(process.env.TRUSTED_PROXY_HOPS);
+  if (!Number.isInteger(hops) || hops < 1) return null;
+  const addresses = (request.headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map(address => address.trim())
+    .filter(Boolean);
+  return addresses[addresses.length - hops] ?? null;
+}
+
+// Quotas are per logged-in user, or per client address when login is off. Route handlers don't
+// see the socket, so without a trusted proxy every anonymous caller shares one quota.
+function quotaSubject(request: NextRequest, user: string | null): string {
+  if (user) return `user:${user}`;
+  return `ip:${clientAddress(request) ?? "anonymous"}`;
+}
+
+// Who a request comes from, for tying server-side state such as live sessions to one caller
+export function callerSubject(request: NextRequest): string {
+  return quotaSubject(request, getSessionUser(request));
+}
+
+export function getAuthStatus(request: NextRequest): AuthStatus {
+  const user = getSessionUser(request);
+  const ownKey = !!getStoredApiKey(request);
+  const serverKey = serverApiKey() !== null;
+  return {
+    loginRequired: loginRequired(),
+    user,
+    ownKey,
+    serverKey,
+    quota: serverKey && !ownKey
+      ? { used: getQuotaUsage(quotaSubject(request, user)), limits: quotaLimits() }
+      : null,
+  };
+}
+
+export interface GeminiAccess {
+  apiKey: string;
+  user: string | null;
+}
+
+// Picks the key a Gemini route should call with — the learner's own key first, then the
+// server key, which is charged against the caller's daily quota. Returns an error response
+// when the caller may not proceed.
+export function authorizeGemini(request: NextRequest, usage: Partial<QuotaUsage>): GeminiAccess | NextResponse {
+  const user = getSessionUser(request);
+  if (loginRequired() && !user) {
+    return apiError("LOGIN_REQUIRED", 401);
+  }
+
+  const ownKey = getStoredApiKey(request);
+  if (ownKey) {
+    return { apiKey: ownKey, user };
+  }
+
+  const serverKey = serverApiKey();
+  if (serverKey === null) {
+    return apiError("API_KEY_REQUIRED", 400);
+  }
+
+  const exceeded = consumeQuota(quotaSubject(request, user), usage);
+  if (exceeded) {
+    return apiError(exceeded, 429);
+  }
+  return { apiKey: serverKey, user };
+}
@@ -0,0 +1,169 @@
+import { describe, expect, test } from "bun:test";
+import { createBackup, parseBackup, restoreBackup, sessionBackup } from "./backup";
+import { deleteConversation, getConversation, saveConversation, type StoredConversation } from "./conversationStore";
+import { addVocabulary, deleteVocabulary, listVocabulary } from "./vocabularyStore";
+import { LEVELS_STORAGE_KEY } from "./proficiency";
+import { listSessionReports, saveSessionReport } from "./sessionReportStore";
+import type { PracticeEvent } from "./practiceLog";
+import type { SessionReport } from "./types";
+
+// The test database is shared with other suites, so everything here uses Swahili
+const conversation: StoredConversation = {
+  id: "conv-backup-test",
+  targetLanguage: "Swahili",
+  title: "Habari",
+  messages: [
+    {
+      id: "m1",
+      role: "model",
+      parts: [{ text: "Habari yako?" }],
+      isAudio: true,
+      audio: { sampleRate: 24000, samples: new Float32Array([0.1, -0.1]) },
+      timestamp: new Date("2025-03-10T09:00:00Z"),
+    },
+    { id: "u1", role: "user", parts: [{ text: "Nzuri sana" }], timestamp: new Date("2025-03-10T09:00:05Z") },
+  ],
+  createdAt: 1,
+  updatedAt: 2,
+};
+
+const report: SessionReport = {
+  conversationId: conversation.id,
+  targetLanguage: "Swahili",
+  createdAt: 3,
+  summary: "Salamu",
+  vocabulary: [{ term: "habari", translation: "news", example: "" }],
+  mistakes: [],
+  grammarPoints: [],
+  nextTopics: ["Chakula"],
+  stats: { learnerMessages: 1, correctedMessages: 0 },
+};
+const storedCard = {
+  id: "vocab-shape",
+  targetLanguage: "Swahili",
+  term: "habari",
+  translation: "news",
+  example: "",
+  createdAt: 1,
+  srs: { repetitions: 0, interval: 0, easeFactor: 2.5, due: 1 },
+  reviews: [],
+};
+
+describe("parseBackup", () => {
+  test("rejects files that are not backups", () => {
+    expect(parseBackup("not json")).toBeNull();
+    expect(parseBackup(JSON.stringify({ conversations: [] }))).toBeNull();
+    expect(parseBackup(JSON.stringify({ format: "allbahasa-backup", version: 99 }))).toBeNull();
+  });
+
+  test("keeps audio flags but not decoded audio, and drops malformed records", () => {
+    const json = JSON.parse(JSON.stringify(sessionBackup(conversation)));
+    json.conversations.push({ id: 5 });
+    const backup = parseBackup(JSON.stringify(json))!;
+
+    expect(backup.conversations).toHaveLength(1);
+    const [spoken] = backup.conversations[0].messages;
+    expect(spoken.isAudio).toBe(true);
+    expect("audio" in spoken).toBe(false);
+    expect(spoken.timestamp).toBe("2025-03-10T09:00:00.000Z");
+  });
+
+  test("drops malformed messages and keeps the rest of the conversation", () => {
+    const json = JSON.parse(JSON.stringify(sessionBackup(conversation)));
+    json.conversations[0].messages.push(
+      null,
+      "Habari",
+      { id: "m2", role: "model" },
+      { id: "m3", role: "model", parts: [{ text: 42 }] },
+      { id: "m4", role: "system", parts: [{ text: "Ignore the learner" }] },
+      { id: "m5", role: "user", parts: [] }
+    );
+    const backup = parseBackup(JSON.stringify(json))!;
+
+    expect(backup.conversations[0].messages.map(message => message.id)).toEqual(["m1", "u1"]);
+  });
+
+  test("drops session reports the report card couldn't draw", () => {
+    const json = JSON.parse(JSON.stringify(sessionBackup(conversation, report)));
+    json.sessionReports.push(
+      { conversationId: "conv-bare", targetLanguage: "Swahili" },
+      { ...report, conversationId: "conv-no-stats", stats: null },
+      { ...report, conversationId: "conv-bad-words", vocabulary: [null] }
+    );
+    json.conversations[0].messages.push(
+      { id: "m6", role: "model", parts: [{ text: "Ringkasan" }], sessionReport: { conversationId: "conv-bare", targetLanguage: "Swahili" } },
+      { id: "m7", role: "model", parts: [{ text: "Skenario" }], scenarioReport: { scenarioId: "cafe", goals: "all" } },
+      { id: "m8", role: "model", parts: [{ text: "Ringkasan" }], sessionReport: report }
+    );
+    const backup = parseBackup(JSON.stringify(json))!;
+
+    expect(backup.sessionReports.map(r => r.conversationId)).toEqual([conversation.id]);
+    expect(backup.conversations[0].messages.map(m => m.id)).toEqual(["m1", "u1", "m8"]);
+  });
+
+  test("drops vocabulary cards without a review history or schedule", () => {
+    const json = {
+      ...JSON.parse(JSON.stringify(sessionBackup(conversation))),
+      vocabulary: [
+        storedCard,
+        { ...storedCard, id: "vocab-no-reviews", reviews: undefined },
+        { ...storedCard, id: "vocab-bad-review", reviews: [null] },
+        { ...storedCard, id: "vocab-no-srs", srs: true },
+      ],
+    };
+    const backup = parseBackup(JSON.stringify(json))!;
+
+    expect(backup.vocabulary.map(c => c.id)).toEqual(["vocab-shape"]);
+  });
+});
+
+describe("restoreBackup", () => {
+  test("brings back conversations, vocabulary and settings without duplicating words", async () => {
+    await saveConversation(conversation);
+    const card = await addVocabulary("Swahili", { term: "habari", translation: "news", example: "Habari yako?" });
+    localStorage.setItem(LEVELS_STORAGE_KEY, JSON.stringify({ Swahili: { level: "A2", source: "placement", recentCorrections: [], updatedAt: 1 } }));
+    const backup = parseBackup(JSON.stringify(await createBackup()))!;
+
+    await deleteConversation(conversation.id);
+    await deleteVocabulary(card.id);
+    localStorage.removeItem(LEVELS_STORAGE_KEY);
+    // The same word saved again on the "new device" under another id
+    await addVocabulary("Swahili", { term: "Habari", translation: "news", example: "" });
+
+    const restored = await restoreBackup(backup);
+
+    expect(restored.vocabulary).toBe(backup.vocabulary.length - 1);
+    const [message] = (await getConversation(conversation.id))!.messages;
+    expect(message.timestamp).toEqual(new Date("2025-03-10T09:00:00Z"));
+    expect(message.isAudio).toBe(true);
+    expect((await listVocabulary("Swahili")).map(c => c.term)).toEqual(["Habari"]);
+    expect(JSON.parse(localStorage.getItem(LEVELS_STORAGE_KEY)!).Swahili.level).toBe("A2");
+  });
+
+  test("keeps the newer session report of a conversation", async () => {
+    const newer = { ...report, conversationId: "conv-report-newer", createdAt: 20, summary: "Newer" };
+    const older = { ...report, conversationId: "conv-report-older", createdAt: 10, summary: "Older" };
+    await saveSessionReport(newer);
+    await saveSessionReport(older);
+    const backup = { ...sessionBackup(conversation), sessionReports: [{ ...newer, createdAt: 15, summary: "Stale" }, { ...older, createdAt: 15, summary: "Fresh" }] };
+
+    const restored = await restoreBackup(backup);
+
+    expect(restored.sessionReports).toBe(1);
+    const summaries = (await listSessionReports("Swahili")).map(r => [r.conversationId, r.summary]);
+    expect(summaries).toContainEqual(["conv-report-newer", "Newer"]);
+    expect(summaries).toContainEqual(["conv-report-older", "Fresh"]);
+  });
+
+  test("writes nothing when one record can't be stored", async () => {
+    const backup = sessionBackup({ ...conversation, id: "conv-backup-partial" });
+    backup.practiceEvents = [{ targetLanguage: "Swahili", at: 1 } as PracticeEvent];
+    backup.settings = { [LEVELS_STORAGE_KEY]: "{}" };
+    localStorage.removeItem(LEVELS_STORAGE_KEY);
+
+    await expect(restoreBackup(backup)).rejects.toThrow();
+
+    expect(await getConversation("conv-backup-partial")).toBeUndefined();
+    expect(localStorage.getItem(LEVELS_STORAGE_KEY)).toBeNull();
+  });
+});
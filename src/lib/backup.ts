@@ -0,0 +1,252 @@
+import type { Message, SessionReport } from "./types";
+import { STORES, putAll, withStore } from "./db";
+import type { StoredConversation } from "./conversationStore";
+import type { StoredSessionReport } from "./sessionReportStore";
+import { listPracticeEvents, type PracticeEvent } from "./practiceLog";
+import { listAllVocabulary, normalizeTerm, type VocabularyCard } from "./vocabularyStore";
+import { NATIVE_LANGUAGE_STORAGE_KEY } from "./languages";
+import { LEVELS_STORAGE_KEY } from "./proficiency";
+import { VAD_SENSITIVITY_STORAGE_KEY } from "./vad";
+import { TTS_VOICES_STORAGE_KEY } from "./voices";
+
+// A JSON file that carries the learner's data to another browser. Exporting one session
+// produces the same format with a single conversation, so it can be imported the same way.
+
+export const BACKUP_FORMAT = "allbahasa-backup";
+export const BACKUP_VERSION = 1;
+
+// Preferences restored with a backup; the API key stays on the device it was entered on
+export const BACKUP_SETTING_KEYS = [
+  NATIVE_LANGUAGE_STORAGE_KEY,
+  LEVELS_STORAGE_KEY,
+  VAD_SENSITIVITY_STORAGE_KEY,
+  TTS_VOICES_STORAGE_KEY,
+];
+
+// Decoded reply audio is left out to keep files small; isAudio still marks spoken turns
+export type BackupMessage = Omit<Message, "audio" | "timestamp"> & { timestamp?: string };
+
+export type BackupConversation = Omit<StoredConversation, "messages"> & { messages: BackupMessage[] };
+
+export interface Backup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string;
+  conversations: BackupConversation[];
+  vocabulary: VocabularyCard[];
+  sessionReports: SessionReport[];
+  practiceEvents: PracticeEvent[];
+  settings: Record<string, string>;
+}
+
+export interface RestoreResult {
+  conversations: number;
+  vocabulary: number;
+  sessionReports: number;
+  practiceEvents: number;
+  settings: number;
+}
+
+function toBackupMessage({ audio: _audio, timestamp, ...message }: Message): BackupMessage {
+  return timestamp ? { ...message, timestamp: timestamp.toISOString() } : message;
+}
+
+function fromBackupMessage({ timestamp, ...message }: BackupMessage): Message {
+  return timestamp ? { ...message, timestamp: new Date(timestamp) } : message;
+}
+
+export function toBackupConversation(conversation: StoredConversation): BackupConversation {
+  return { ...conversation, messages: conversation.messages.map(toBackupMessage) };
+}
+
+function emptyBackup(): Backup {
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    conversations: [],
+    vocabulary: [],
+    sessionReports: [],
+    practiceEvents: [],
+    settings: {},
+  };
+}
+
+// One conversation and its report, without the deck or preferences
+export function sessionBackup(conversation: StoredConversation, report?: SessionReport): Backup {
+  return {
+    ...emptyBackup(),
+    conversations: [toBackupConversation(conversation)],
+    sessionReports: report ? [report] : [],
+  };
+}
+
+// Everything this browser holds for the learner, across all languages
+export async function createBackup(): Promise<Backup> {
+  const [conversations, vocabulary, sessionReports, practiceEvents] = await Promise.all([
+    withStore<StoredConversation[]>(STORES.conversations, "readonly", store => store.getAll()),
+    listAllVocabulary(),
+    withStore<StoredSessionReport[]>(STORES.sessionReports, "readonly", store => store.getAll()),
+    listPracticeEvents(),
+  ]);
+  const settings: Record<string, string> = {};
+  for (const key of BACKUP_SETTING_KEYS) {
+    const value = localStorage.getItem(key);
+    if (value !== null) settings[key] = value;
+  }
+  return {
+    ...emptyBackup(),
+    conversations: conversations.map(toBackupConversation),
+    vocabulary,
+    sessionReports: sessionReports.map(({ id: _id, ...report }) => report),
+    practiceEvents,
+    settings,
+  };
+}
+
+type Validator = (record: Record<string, unknown>) => boolean;
+
+const isRecord = (value: unknown): value is Record<string, unknown> => !!value && typeof value === "object";
+
+function records<T>(value: unknown, isValid: Validator): T[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter(record => isRecord(record) && isValid(record)) as T[];
+}
+
+// Lists the UI maps over must hold only well-formed entries; a single bad one would throw while rendering
+const isListOf = (value: unknown, isValid: Validator) =>
+  Array.isArray(value) && value.every(item => isRecord(item) && isValid(item));
+const isStringList = (value: unknown) => Array.isArray(value) && value.every(item => typeof item === "string");
+const isOptional = (value: unknown, isValid: (value: unknown) => boolean) => value === undefined || isValid(value);
+
+const hasLanguage = (record: Record<string, unknown>) => typeof record.targetLanguage === "string";
+const hasId = (record: Record<string, unknown>) => typeof record.id === "string" && hasLanguage(record);
+
+const isVocabularyItem: Validator = item =>
+  typeof item.term === "string" && typeof item.translation === "string" && isOptional(item.example, v => typeof v === "string");
+const isCorrection: Validator = item =>
+  typeof item.original === "string" && typeof item.corrected === "string";
+const isMistake: Validator = item =>
+  typeof item.pattern === "string" && typeof item.example === "string" && typeof item.correction === "string";
+
+// Session reports are drawn by SessionReportCard, which reads every list and the stats unguarded
+const isSessionReport: Validator = report =>
+  typeof report.conversationId === "string" &&
+  hasLanguage(report) &&
+  typeof report.createdAt === "number" &&
+  typeof report.summary === "string" &&
+  isRecord(report.stats) &&
+  typeof report.stats.learnerMessages === "number" &&
+  typeof report.stats.correctedMessages === "number" &&
+  isListOf(report.vocabulary, isVocabularyItem) &&
+  isListOf(report.mistakes, isMistake) &&
+  isStringList(report.grammarPoints) &&
+  isStringList(report.nextTopics);
+
+const isScenarioReport: Validator = report =>
+  typeof report.scenarioId === "string" &&
+  typeof report.summary === "string" &&
+  typeof report.nextSteps === "string" &&
+  isListOf(report.goals, goal => typeof goal.goalId === "string" && typeof goal.met === "boolean");
+
+// The chat renders parts[0].text of every message, so one without it would break the whole conversation
+const isMessage: Validator = record =>
+  typeof record.id === "string" &&
+  (record.role === "user" || record.role === "model") &&
+  Array.isArray(record.parts) &&
+  typeof record.parts[0]?.text === "string" &&
+  isOptional(record.timestamp, v => typeof v === "string") &&
+  isOptional(record.corrections, v => isListOf(v, isCorrection)) &&
+  isOptional(record.vocabulary, v => isListOf(v, isVocabularyItem)) &&
+  isOptional(record.sessionReport, v => isRecord(v) && isSessionReport(v)) &&
+  isOptional(record.scenarioReport, v => isRecord(v) && isScenarioReport(v));
+
+// Review order and the last review's time decide which copy of a card wins on restore
+const isVocabularyCard: Validator = card =>
+  hasId(card) &&
+  isVocabularyItem(card) &&
+  typeof card.createdAt === "number" &&
+  isRecord(card.srs) &&
+  typeof card.srs.due === "number" &&
+  isListOf(card.reviews, review => typeof review.at === "number");
+
+// Null when the file isn't a backup this version understands; malformed records are dropped
+export function parseBackup(raw: string): Backup | null {
+  let parsed: Record<string, unknown>;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+  if (parsed?.format !== BACKUP_FORMAT || typeof parsed.version !== "number" || parsed.version > BACKUP_VERSION) {
+    return null;
+  }
+
+  const settings: Record<string, string> = {};
+  const storedSettings = (parsed.settings ?? {}) as Record<string, unknown>;
+  for (const key of BACKUP_SETTING_KEYS) {
+    if (typeof storedSettings[key] === "string") settings[key] = storedSettings[key];
+  }
+
+  return {
+    format: BACKUP_FORMAT,
+    version: parsed.version,
+    exportedAt: typeof parsed.exportedAt === "string" ? parsed.exportedAt : "",
+    conversations: records<BackupConversation>(parsed.conversations, record => hasId(record) && Array.isArray(record.messages))
+      .map(conversation => ({ ...conversation, messages: records<BackupMessage>(conversation.messages, isMessage) })),
+    vocabulary: records(parsed.vocabulary, isVocabularyCard),
+    sessionReports: records(parsed.sessionReports, isSessionReport),
+    practiceEvents: records(parsed.practiceEvents, record => hasId(record) && typeof record.at === "number"),
+    settings,
+  };
+}
+
+const cardTouchedAt = (card: VocabularyCard) => card.reviews[card.reviews.length - 1]?.at ?? card.createdAt;
+
+// Writes a backup into this browser. Where both sides have the same record the more recently
+// changed one wins, and a word already in the deck under another id is not added twice.
+export async function restoreBackup(backup: Backup): Promise<RestoreResult> {
+  const [existingConversations, existingCards, existingReports] = await Promise.all([
+    withStore<StoredConversation[]>(STORES.conversations, "readonly", store => store.getAll()),
+    listAllVocabulary(),
+    withStore<StoredSessionReport[]>(STORES.sessionReports, "readonly", store => store.getAll()),
+  ]);
+
+  const conversationUpdatedAt = new Map(existingConversations.map(c => [c.id, c.updatedAt]));
+  const conversations = backup.conversations
+    .filter(c => (conversationUpdatedAt.get(c.id) ?? -Infinity) <= c.updatedAt)
+    .map(c => ({ ...c, messages: c.messages.map(fromBackupMessage) }));
+
+  const cardsById = new Map(existingCards.map(card => [card.id, card]));
+  const cardIdsByTerm = new Map(existingCards.map(card => [`${card.targetLanguage}\n${normalizeTerm(card.term)}`, card.id]));
+  const vocabulary = backup.vocabulary.filter(card => {
+    const existingId = cardIdsByTerm.get(`${card.targetLanguage}\n${normalizeTerm(card.term)}`);
+    if (existingId !== undefined && existingId !== card.id) return false;
+    const existing = cardsById.get(card.id);
+    return !existing || cardTouchedAt(existing) <= cardTouchedAt(card);
+  });
+
+  // Ending a session again replaces its report, so the newer report is the one to keep
+  const reportCreatedAt = new Map(existingReports.map(r => [r.conversationId, r.createdAt]));
+  const sessionReports = backup.sessionReports.filter(r => (reportCreatedAt.get(r.conversationId) ?? -Infinity) <= r.createdAt);
+
+  await putAll({
+    [STORES.conversations]: conversations,
+    [STORES.vocabulary]: vocabulary,
+    [STORES.sessionReports]: sessionReports.map(report => ({ ...report, id: report.conversationId })),
+    // Events are append-only, so re-importing the same file doesn't count practice twice
+    [STORES.practiceEvents]: backup.practiceEvents,
+  });
+
+  // Preferences only change once the data they refer to is in
+  const settings = Object.entries(backup.settings);
+  for (const [key, value] of settings) localStorage.setItem(key, value);
+
+  return {
+    conversations: conversations.length,
+    vocabulary: vocabulary.length,
+    sessionReports: sessionReports.length,
+    practiceEvents: backup.practiceEvents.length,
+    settings: settings.length,
+  };
+}
@@ -0,0 +1,47 @@
+import type { Message } from "./types";
+import { STORES, withStore } from "./db";
+
+export interface StoredConversation {
+  id: string;
+  targetLanguage: string;
+  // Role-play scenario this conversation was started with, if any
+  scenarioId?: string;
+  title: string;
+  messages: Message[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type ConversationSummary = Omit<StoredConversation, "messages"> & { messageCount: number };
+
+export function createConversationId(): string {
+  return `conv-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+// Title is the learner's first message, trimmed for the sidebar (empty until they say something)
+export function conversationTitle(messages: Message[]): string {
+  const first = messages.find(m => m.role === "user");
+  const text = first?.parts[0].text.trim() || "";
+  return text.length > 48 ? `${text.slice(0, 48)}…` : text;
+}
+
+export async function listConversations(targetLanguage: string): Promise<ConversationSummary[]> {
+  const all = await withStore<StoredConversation[]>(STORES.conversations, "readonly", store =>
+    store.index("targetLanguage").getAll(targetLanguage)
+  );
+  return all
+    .map(({ messages, ...rest }) => ({ ...rest, messageCount: messages.length }))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function getConversation(id: string): Promise<StoredConversation | undefined> {
+  return withStore<StoredConversation | undefined>(STORES.conversations, "readonly", store => store.get(id));
+}
+
+export async function saveConversation(conversation: StoredConversation): Promise<void> {
+  await withStore(STORES.conversations, "readwrite", store => store.put(conversation));
+}
+
+export async function deleteConversation(id: string): Promise<void> {
+  await withStore(STORES.conversations, "readwrite", store => store.delete(id));
+}
@@ -0,0 +1,78 @@
+const DB_NAME = "allbahasa";
+const DB_VERSION = 4;
+
+// Object stores of the browser database; bump DB_VERSION when adding one
+export const STORES = {
+  conversations: "conversations",
+  vocabulary: "vocabulary",
+  sessionReports: "sessionReports",
+  practiceEvents: "practiceEvents",
+} as const;
+
+export type StoreName = (typeof STORES)[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        // Each store carries a targetLanguage index so lists stay per language
+        for (const name of Object.values(STORES)) {
+          if (!db.objectStoreNames.contains(name)) {
+            const store = db.createObjectStore(name, { keyPath: "id" });
+            store.createIndex("targetLanguage", "targetLanguage");
+          }
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function withStore<T>(
+  name: StoreName,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDb();
+  return promisify(fn(db.transaction(name, mode).objectStore(name)));
+}
+
+// Writes records into several stores in one transaction, so a restore either lands completely
+// or not at all
+export async function putAll(recordsByStore: Partial<Record<StoreName, unknown[]>>): Promise<void> {
+  const names = Object.keys(recordsByStore) as StoreName[];
+  if (names.length === 0) return;
+  const db = await openDb();
+  await new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(names, "readwrite");
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+    try {
+      for (const name of names) {
+        const store = transaction.objectStore(name);
+        for (const record of recordsByStore[name] ?? []) store.put(record);
+      }
+    } catch (error) {
+      // A record the store can't take throws here; abort so the puts before it are undone too
+      transaction.abort();
+      reject(error);
+    }
+  });
+}
@@ -0,0 +1,81 @@
+import { describe, expect, test } from "bun:test";
+import { exportFileName, sessionToHtml, sessionToMarkdown, vocabularyToAnkiCsv, type ExportedSession } from "./exporters";
+import { createTranslator } from "./i18n";
+import { initialSrsState } from "./srs";
+import type { VocabularyCard } from "./vocabularyStore";
+
+const t = createTranslator("en");
+
+const session: ExportedSession = {
+  title: "I goed to <the> market",
+  targetLanguage: "English",
+  createdAt: new Date(2025, 2, 10, 9).getTime(),
+  messages: [
+    {
+      id: "u1",
+      role: "user",
+      parts: [{ text: "I goed to <the> market" }],
+      corrections: [{ original: "goed", corrected: "went", explanation: "Irregular past tense" }],
+    },
+    {
+      id: "m1",
+      role: "model",
+      parts: [{ text: "**Nice!** What did you buy?" }],
+      isAudio: true,
+      translation: "Bagus! Apa yang kamu beli?",
+      vocabulary: [{ term: "market", translation: "pasar", example: "The market opens early." }],
+    },
+  ],
+};
+
+function card(term: string, translation: string, example: string): VocabularyCard {
+  return { id: term, targetLanguage: "Brazilian Portuguese", term, translation, example, createdAt: 0, srs: initialSrsState(0), reviews: [] };
+}
+
+describe("sessionToMarkdown", () => {
+  test("writes each turn with its corrections, translation and new words", () => {
+    const markdown = sessionToMarkdown(session, t, "en-US");
+    expect(markdown).toStartWith("# I goed to <the> market\n\n_English practice · March 10, 2025_");
+    expect(markdown).toContain("### You\n\nI goed to <the> market");
+    expect(markdown).toContain("- ~~goed~~ → **went** — Irregular past tense");
+    expect(markdown).toContain("### 🎤 Tutor\n\n**Nice!** What did you buy?");
+    expect(markdown).toContain("> _Translation:_ Bagus! Apa yang kamu beli?");
+    expect(markdown).toContain("- **market** — pasar (_The market opens early._)");
+  });
+});
+
+describe("sessionToHtml", () => {
+  test("renders markdown and escapes the learner's text", () => {
+    const html = sessionToHtml(session, t, "en-US", "en");
+    expect(html).toStartWith("<!DOCTYPE html>\n<html lang=\"en\">");
+    expect(html).toContain("<title>I goed to &lt;the&gt; market</title>");
+    expect(html).toContain("<p>I goed to &lt;the&gt; market</p>");
+    expect(html).toContain("<p><strong>Nice!</strong> What did you buy?</p>");
+    expect(html).toContain("<li><del>goed</del> → <strong>went</strong> — Irregular past tense</li>");
+    expect(html).not.toContain("<the>");
+  });
+});
+
+describe("vocabularyToAnkiCsv", () => {
+  test("quotes fields with commas, quotes or line breaks and tags the language", () => {
+    const csv = vocabularyToAnkiCsv([
+      card("obrigado", "thank you", "Obrigado, amigo!"),
+      card("saudade", 'a "longing"', "Sinto saudade\nde casa"),
+    ]);
+    expect(csv.split("\n").slice(0, 4)).toEqual([
+      "#separator:comma",
+      "#html:false",
+      "#tags column:4",
+      'obrigado,thank you,"Obrigado, amigo!",allbahasa::Brazilian_Portuguese',
+    ]);
+    expect(csv).toContain('saudade,"a ""longing""","Sinto saudade\nde casa",allbahasa::Brazilian_Portuguese');
+  });
+});
+
+describe("exportFileName", () => {
+  test("slugs the title and falls back when nothing is left", () => {
+    expect(exportFileName("Café au lait, s'il vous plaît!", "md")).toBe("cafe-au-lait-s-il-vous-plait.md");
+    expect(exportFileName("日本語の練習", "html")).toBe("日本語の練習.html");
+    expect(exportFileName("?!", "json")).toBe("allbahasa.json");
+  });
+});
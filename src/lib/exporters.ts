@@ -0,0 +1,144 @@
+import type { Translator } from "./i18n";
+import { escapeHtml, markdownToHtml } from "./markdown";
+import type { StoredConversation } from "./conversationStore";
+import type { VocabularyCard } from "./vocabularyStore";
+import type { Message } from "./types";
+
+// Readable copies of a session and an Anki deck of the vocabulary. Everything is built as a
+// string in the browser and handed to downloadFile; nothing goes through the server.
+
+export type ExportedSession = Pick<StoredConversation, "title" | "targetLanguage" | "messages" | "createdAt">;
+
+function sessionTitle(session: ExportedSession, t: Translator): string {
+  return session.title || t("sidebar.newConversation");
+}
+
+function sessionMeta(session: ExportedSession, t: Translator, dateLocale: string): string {
+  const date = new Date(session.createdAt).toLocaleDateString(dateLocale, { day: "numeric", month: "long", year: "numeric" });
+  return t("export.sessionMeta", { language: session.targetLanguage, date });
+}
+
+function speaker(message: Message, t: Translator, dateLocale: string): string {
+  const name = message.role === "user" ? t("export.learner") : t("export.tutor");
+  const icon = message.isAudio ? "🎤 " : "";
+  const time = message.timestamp?.toLocaleTimeString(dateLocale, { hour: "2-digit", minute: "2-digit" });
+  return time ? `${icon}${name} · ${time}` : `${icon}${name}`;
+}
+
+export function sessionToMarkdown(session: ExportedSession, t: Translator, dateLocale: string): string {
+  const lines = [`# ${sessionTitle(session, t)}`, "", `_${sessionMeta(session, t, dateLocale)}_`];
+
+  for (const message of session.messages) {
+    lines.push("", `### ${speaker(message, t, dateLocale)}`, "", message.parts[0].text);
+    if (message.corrections?.length) {
+      lines.push("", `**${t("export.corrections")}**`, "");
+      for (const c of message.corrections) {
+        lines.push(`- ~~${c.original}~~ → **${c.corrected}**${c.explanation ? ` — ${c.explanation}` : ""}`);
+      }
+    }
+    if (message.translation) lines.push("", `> _${t("chat.translation")}:_ ${message.translation}`);
+    if (message.vocabulary?.length) {
+      lines.push("", `**${t("export.newWords")}**`, "");
+      for (const item of message.vocabulary) {
+        lines.push(`- **${item.term}** — ${item.translation}${item.example ? ` (_${item.example}_)` : ""}`);
+      }
+    }
+  }
+
+  return `${lines.join("\n")}\n`;
+}
+
+const PRINT_STYLE = `
+  body { font-family: system-ui, sans-serif; max-width: 720px; margin: 2rem auto; padding: 0 1rem; color: #1e293b; line-height: 1.55; }
+  h1 { margin-bottom: 0.25rem; }
+  .meta { color: #64748b; margin-top: 0; }
+  .message { border-left: 3px solid #a78bfa; padding: 0.25rem 0 0.25rem 0.9rem; margin: 1.1rem 0; break-inside: avoid; }
+  .message.user { border-left-color: #38bdf8; }
+  .speaker { font-size: 0.8rem; font-weight: 600; color: #64748b; margin: 0 0 0.25rem; }
+  .extra { font-size: 0.9rem; color: #475569; }
+  del { color: #dc2626; }
+  pre, table { overflow-x: auto; }
+  @media print { body { margin: 0; max-width: none; } a { color: inherit; } }
+`;
+
+// A standalone page laid out for "Print → Save as PDF"
+export function sessionToHtml(session: ExportedSession, t: Translator, dateLocale: string, lang: string): string {
+  const title = escapeHtml(sessionTitle(session, t));
+  const messages = session.messages.map(message => {
+    const extras: string[] = [];
+    if (message.corrections?.length) {
+      const items = message.corrections
+        .map(c => `<li><del>${escapeHtml(c.original)}</del> → <strong>${escapeHtml(c.corrected)}</strong>${c.explanation ? ` — ${escapeHtml(c.explanation)}` : ""}</li>`)
+        .join("");
+      extras.push(`<div class="extra"><strong>${escapeHtml(t("export.corrections"))}</strong><ul>${items}</ul></div>`);
+    }
+    if (message.translation) {
+      extras.push(`<p class="extra"><em>${escapeHtml(t("chat.translation"))}:</em> ${escapeHtml(message.translation)}</p>`);
+    }
+    if (message.vocabulary?.length) {
+      const items = message.vocabulary
+        .map(item => `<li><strong>${escapeHtml(item.term)}</strong> — ${escapeHtml(item.translation)}${item.example ? ` (<em>${escapeHtml(item.example)}</em>)` : ""}</li>`)
+        .join("");
+      extras.push(`<div class="extra"><strong>${escapeHtml(t("export.newWords"))}</strong><ul>${items}</ul></div>`);
+    }
+    return [
+      `<section class="message ${message.role}">`,
+      `<p class="speaker">${escapeHtml(speaker(message, t, dateLocale))}</p>`,
+      markdownToHtml(message.parts[0].text),
+      ...extras,
+      "</section>",
+    ].join("\n");
+  });
+
+  return [
+    "<!DOCTYPE html>",
+    `<html lang="${escapeHtml(lang)}">`,
+    "<head>",
+    '<meta charset="utf-8">',
+    `<title>${title}</title>`,
+    `<style>${PRINT_STYLE}</style>`,
+    "</head>",
+    "<body>",
+    `<h1>${title}</h1>`,
+    `<p class="meta">${escapeHtml(sessionMeta(session, t, dateLocale))}</p>`,
+    ...messages,
+    "</body>",
+    "</html>",
+    "",
+  ].join("\n");
+}
+
+function csvField(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// Front, back, example and tags, with the header lines Anki reads to set up the import by itself
+export function vocabularyToAnkiCsv(cards: VocabularyCard[]): string {
+  const rows = cards.map(card => {
+    const tag = `allbahasa::${card.targetLanguage.replace(/\s+/g, "_")}`;
+    return [card.term, card.translation, card.example, tag].map(csvField).join(",");
+  });
+  return ["#separator:comma", "#html:false", "#tags column:4", ...rows, ""].join("\n");
+}
+
+// Lowercase, dash-separated name for the downloaded file
+export function exportFileName(title: string, extension: string): string {
+  const slug = title
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 48);
+  return `${slug || "allbahasa"}.${extension}`;
+}
+
+export function downloadFile(fileName: string, content: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: `${type};charset=utf-8` }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Some browsers start the download after click() returns
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
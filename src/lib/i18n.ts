@@ -0,0 +1,726 @@
+import type { ApiErrorCode, ApiErrorPayload } from "./apiErrors";
+
+export type Locale = "id" | "en";
+
+const id = {
+  "app.title": "AI Language Tutor",
+  "app.tagline": "Belajar bahasa dengan AI Gemini secara real-time",
+
+  "apiKey.interfaceLanguage": "Bahasa antarmuka",
+  "apiKey.heading": "Masukkan Gemini API Key",
+  "apiKey.privacy": "API key dienkripsi dan disimpan dalam cookie aman di browser Anda; server tidak menyimpannya.",
+  "apiKey.label": "Google Gemini API Key",
+  "apiKey.required": "Masukkan API key terlebih dahulu",
+  "apiKey.invalid": "API key tidak valid",
+  "apiKey.serverUnreachable": "Gagal menghubungi server. Coba lagi.",
+  "apiKey.verifying": "Memverifikasi...",
+  "apiKey.submit": "Simpan & Mulai",
+  "apiKey.noKey": "Belum punya API key?",
+  "apiKey.getKey": "Dapatkan gratis di Google AI Studio",
+  "apiKey.featureAudio": "Audio Real-time",
+  "apiKey.featureLanguages": "Multi Bahasa",
+  "apiKey.featureAi": "AI Gemini",
+  "apiKey.useServerKey": "Kembali ke API key bersama",
+  "apiKey.keepCurrentKey": "Tetap pakai API key saat ini",
+
+  "login.heading": "Masuk",
+  "login.description": "Gunakan akun yang diberikan oleh pengajar Anda.",
+  "login.username": "Nama pengguna",
+  "login.password": "Kata sandi",
+  "login.submit": "Masuk",
+  "login.loggingIn": "Masuk...",
+
+  "status.connected": "Tersambung",
+  "status.disconnected": "Terputus",
+
+  "level.A1": "Pemula",
+  "level.A2": "Dasar",
+  "level.B1": "Menengah",
+  "level.B2": "Menengah atas",
+  "level.C1": "Mahir",
+  "level.C2": "Fasih",
+
+  "sidebar.nativeLanguage": "Bahasa Asli",
+  "sidebar.targetLanguage": "Bahasa Target",
+  "sidebar.nativeLanguageSuffix": "{label} (bahasa asli)",
+  "sidebar.level": "Level",
+  "sidebar.levelNotSet": "Belum diatur",
+  "sidebar.levelAuto": "Disesuaikan otomatis dari koreksi",
+  "sidebar.levelPlacement": "Dari tes penempatan",
+  "sidebar.placementTest": "Tes penempatan",
+  "sidebar.history": "Riwayat",
+  "sidebar.newConversation": "Percakapan baru",
+  "sidebar.noConversations": "Belum ada percakapan tersimpan",
+  "sidebar.conversationMeta": "{date} • {count} pesan",
+  "sidebar.deleteConversation": "Hapus percakapan",
+  "sidebar.vocabulary": "Kosakata",
+  "sidebar.reviewVocabulary": "Ulas kosakata",
+  "sidebar.progress": "Perkembangan belajar",
+  "sidebar.data": "Data Anda",
+  "sidebar.exportSession": "Ekspor sesi ini",
+  "sidebar.exportMarkdown": "Unduh sebagai Markdown",
+  "sidebar.exportHtml": "Unduh halaman siap cetak (simpan sebagai PDF dari dialog cetak)",
+  "sidebar.exportJson": "Unduh sebagai JSON (bisa diimpor kembali)",
+  "sidebar.exportAnki": "Kosakata untuk Anki (CSV)",
+  "sidebar.backup": "Cadangkan semua data",
+  "sidebar.restore": "Pulihkan dari cadangan",
+  "sidebar.vocabularyCount": "{count} kata tersimpan",
+  "sidebar.vocabularyDue": "{count} kata perlu diulas",
+  "sidebar.practice": "Latihan",
+  "sidebar.pronunciationDrill": "Latihan pengucapan",
+  "sidebar.scenarios": "Role-play",
+  "sidebar.scenarioActive": "Sedang berlangsung",
+  "sidebar.settings": "Pengaturan",
+  "sidebar.liveAudio": "Live Audio",
+  "sidebar.liveAudioModel": "Gemini 2.5 Flash Native",
+  "sidebar.toggleLiveMode": "Aktifkan/nonaktifkan Live Audio",
+  "sidebar.handsFree": "Mode bicara otomatis",
+  "sidebar.handsFreeHint": "Mikrofon mendeteksi kapan kamu bicara",
+  "sidebar.toggleHandsFree": "Aktifkan/nonaktifkan mode bicara otomatis",
+  "sidebar.vadSensitivity": "Sensitivitas deteksi suara",
+  "sidebar.ttsVoice": "Suara pembaca",
+  "vad.low": "Rendah — ruangan bising",
+  "vad.medium": "Sedang",
+  "vad.high": "Tinggi — suara pelan",
+  "sidebar.activityLog": "Activity Log",
+  "sidebar.toggleActivityLog": "Tampilkan/sembunyikan Activity Log",
+  "sidebar.changeApiKey": "Ganti API Key",
+  "sidebar.useOwnApiKey": "Gunakan API Key sendiri",
+  "sidebar.logoutAs": "Keluar ({user})",
+  "sidebar.logout": "Keluar",
+  "sidebar.quotaToday": "Kuota hari ini",
+  "sidebar.quotaRequests": "{used}/{limit} permintaan",
+  "sidebar.quotaAudio": "{used}/{limit} menit audio",
+
+  "header.model": "Gemini 2.5 Flash",
+  "header.recording": "Merekam...",
+  "header.processing": "Memproses...",
+  "header.playing": "Memutar audio...",
+  "header.paused": "Audio dijeda",
+  "header.endScenario": "Akhiri skenario",
+  "header.endSession": "Akhiri sesi",
+  "header.endSessionHint": "Buat laporan sesi: kosakata baru, kesalahan berulang, dan topik berikutnya",
+  "header.summarizing": "Menilai...",
+
+  "chat.welcome": "Halo! Saya siap membantu kamu belajar **{target}**! 🎉\n\nKamu bisa:\n- 🎙️ Tekan tombol mikrofon untuk berbicara langsung dengan AI (Gemini Live)\n- ⌨️ Ketik pesan di bawah\n- 🌍 Ganti bahasa target di sidebar kiri\n\nMari mulai! Coba ucapkan atau ketik sesuatu dalam {target} atau {native}.",
+  "chat.voiceMessage": "Pesan suara",
+  "chat.voiceReply": "Respons audio Gemini Live",
+  "audio.replay": "Putar ulang",
+  "audio.listen": "Dengarkan",
+  "audio.generating": "Membuat audio...",
+  "audio.pause": "Jeda",
+  "audio.resume": "Lanjutkan",
+  "audio.stop": "Hentikan",
+  "audio.speed": "Kecepatan {rate}×",
+  "chat.voiceMessagePlaceholder": "🎙️ [Pesan suara dikirim ke Gemini Live]",
+  "chat.voiceReplyPlaceholder": "🔊 [Respons audio dari Gemini Live]",
+  "chat.translation": "Terjemahan",
+  "chat.corrections": "Koreksi",
+  "chat.notSent": "Belum terkirim",
+  "chat.retry": "Kirim ulang",
+  "chat.scenarioWelcome": "🎭 **{title}** · level {level}\n\n{description}\n\n**Tujuan kamu:**\n{goals}\n\nMulailah berbicara atau mengetik dalam {target}. Setelah selesai, tekan **Akhiri skenario** untuk melihat tujuan mana yang sudah tercapai.",
+  "chat.scenarioReport": "Hasil role-play: {title}",
+  "chat.goalsMet": "{met}/{total} tujuan tercapai",
+  "chat.nextSteps": "Langkah berikutnya",
+  "report.title": "Laporan sesi",
+  "report.stats": "{messages} pesan · {words} kata baru · {rate}% perlu koreksi",
+  "report.previous": "Sesi sebelumnya: {messages} pesan · {words} kata baru · {rate}% perlu koreksi.",
+  "report.improved": "Lebih sedikit kesalahan!",
+  "report.slipped": "Lebih banyak koreksi dari sebelumnya.",
+  "report.mistakes": "Kesalahan berulang",
+  "report.grammar": "Tata bahasa yang dibahas",
+  "report.nextTopics": "Coba berikutnya",
+
+  "dashboard.title": "Perkembangan belajar",
+  "dashboard.subtitle": "Tersimpan di browser ini",
+  "dashboard.back": "Kembali berlatih",
+  "dashboard.empty": "Belum ada latihan yang tercatat. Kirim pesan atau rekam suaramu untuk mulai mengisi dasbor ini.",
+  "dashboard.loadFailed": "Gagal memuat riwayat latihan",
+  "dashboard.streak": "Hari beruntun",
+  "dashboard.longestStreak": "Terpanjang: {days} hari",
+  "dashboard.minutesSpoken": "Menit berbicara",
+  "dashboard.thisWeek": "{minutes} minggu ini",
+  "dashboard.messages": "Pesan terkirim",
+  "dashboard.languageCount": "dalam {count} bahasa",
+  "dashboard.correctionRate": "Perlu koreksi",
+  "dashboard.lastDays": "{days} hari terakhir",
+  "dashboard.messagesByLanguage": "Pesan per bahasa",
+  "dashboard.correctionTrend": "Tren koreksi",
+  "dashboard.correctionTrendHint": "Bagian pesan teks yang perlu dikoreksi, per hari",
+  "dashboard.correctionDay": "{day}: {corrected} dari {checked} pesan dikoreksi",
+  "dashboard.vocabularyGrowth": "Pertumbuhan kosakata",
+  "dashboard.vocabularyTotal": "{count} kata tersimpan",
+
+  "export.sessionMeta": "Latihan {language} · {date}",
+  "export.learner": "Anda",
+  "export.tutor": "Tutor",
+  "export.corrections": "Koreksi",
+  "export.newWords": "Kata baru",
+
+  "vocab.saveWord": "Simpan kata",
+  "vocab.saveWordHint": "Pilih kata di pesan lalu klik untuk menyimpannya",
+  "vocab.term": "Kata atau frasa",
+  "vocab.translation": "Terjemahan",
+  "vocab.example": "Contoh kalimat",
+  "vocab.save": "Simpan",
+  "vocab.cancel": "Batal",
+
+  "review.title": "Ulas Kosakata",
+  "review.remaining": "{count} tersisa",
+  "review.showAnswer": "Tampilkan jawaban",
+  "review.again": "Lupa",
+  "review.hard": "Sulit",
+  "review.good": "Baik",
+  "review.easy": "Mudah",
+  "review.delete": "Hapus kata ini dari kosakata",
+  "review.finished": "Selesai! {count} ulasan hari ini.",
+  "review.empty": "Tidak ada kata yang perlu diulas sekarang.",
+  "review.close": "Tutup",
+
+  "pronunciation.title": "Latihan Pengucapan",
+  "pronunciation.practice": "Latih pengucapan",
+  "pronunciation.sentence": "Kalimat yang dibaca",
+  "pronunciation.sentencePlaceholder": "Tulis kalimat dalam {target}...",
+  "pronunciation.instructions": "Tekan mikrofon, baca kalimat dengan lantang, lalu tekan lagi.",
+  "pronunciation.record": "Mulai merekam",
+  "pronunciation.stop": "Berhenti dan nilai",
+  "pronunciation.recording": "Merekam... baca kalimatnya sekarang.",
+  "pronunciation.assessing": "Menilai pengucapan...",
+  "pronunciation.wordScore": "Skor {score}",
+  "pronunciation.heard": "Terdengar: \"{heard}\"",
+  "pronunciation.playReference": "Contoh",
+  "pronunciation.playRecording": "Rekaman kamu",
+  "pronunciation.close": "Tutup",
+
+  "placement.title": "Tes Penempatan",
+  "placement.instructions": "Jawab dalam {target} sebisamu. Lewati tugas yang terlalu sulit — itu juga membantu penilaian.",
+  "placement.q1": "Perkenalkan dirimu: nama, asal, dan pekerjaan atau sekolahmu.",
+  "placement.q2": "Ceritakan apa yang kamu lakukan akhir pekan lalu.",
+  "placement.q3": "Apa rencanamu untuk tahun depan, dan mengapa?",
+  "placement.q4": "Apakah bekerja dari rumah lebih baik daripada bekerja di kantor? Berikan pendapat beserta alasannya.",
+  "placement.q5": "Jika kamu menjadi wali kota selama setahun, apa yang akan kamu ubah di kotamu dan apa dampaknya?",
+  "placement.answerPlaceholder": "Jawab dalam {target}... (boleh dikosongkan)",
+  "placement.submit": "Nilai jawaban",
+  "placement.evaluating": "Menilai...",
+  "placement.result": "Perkiraan level kamu",
+  "placement.accept": "Gunakan level {level}",
+  "placement.close": "Tutup",
+
+  "composer.placeholder": "Ketik dalam {target} atau {native}...",
+  "composer.recordingLive": "🎙️ Merekam untuk Gemini Live...",
+  "composer.recordingTranscribe": "Mendengarkan — akan diubah menjadi teks...",
+  "composer.micLive": "Bicara dengan Gemini Live API",
+  "composer.micTranscribe": "Rekam suara menjadi teks",
+  "composer.micHandsFree": "Mulai/hentikan mode bicara otomatis",
+  "composer.handsFreeListening": "👂 Mendengarkan — mulai bicara kapan saja",
+  "composer.handsFreeSpeaking": "🎙️ Kamu sedang bicara...",
+  "composer.handsFreeTutorSpeaking": "🔊 Tutor berbicara — bicara untuk menyela",
+  "composer.stop": "Hentikan respons",
+  "composer.hint": "Enter untuk kirim • {mode}",
+  "composer.hintLive": "🎙️ Tekan mikrofon untuk Live Audio Gemini 2.5",
+  "composer.hintTranscribe": "🎙️ untuk ubah suara menjadi teks",
+  "composer.hintHandsFree": "🎙️ Tekan mikrofon sekali, lalu bicara bergantian dengan tutor",
+
+  "logPanel.clear": "Bersihkan log",
+  "logPanel.connected": "● TERSAMBUNG",
+  "logPanel.disconnected": "● TERPUTUS",
+  "logPanel.connectedDetail": "Gemini 2.5 Flash Live API",
+  "logPanel.disconnectedDetail": "Tidak ada koneksi",
+  "logPanel.empty": "Belum ada aktivitas",
+  "logPanel.audioLevel": "Level Audio",
+  "logPanel.playing": "Memutar...",
+
+  "log.sessionStarted": "Sesi dimulai — bahasa target: {target}",
+  "log.apiReady": "Koneksi ke Gemini API siap",
+  "log.saveFailed": "Gagal menyimpan riwayat percakapan",
+  "log.exported": "{file} diunduh",
+  "log.exportFailed": "Gagal mengekspor data",
+  "log.restored": "Cadangan dipulihkan: {conversations} percakapan, {words} kata, {reports} laporan sesi",
+  "log.restoreInvalid": "File ini bukan cadangan yang bisa dibaca",
+  "log.restoreFailed": "Gagal memulihkan cadangan",
+  "log.playbackFailed": "Gagal memutar audio respons",
+  "log.playbackStopped": "Pemutaran audio dihentikan oleh pengguna",
+  "log.playbackRate": "Kecepatan putar ulang: {rate}×",
+  "log.ttsRequest": "Meminta audio balasan (suara {voice})...",
+  "log.ttsReady": "Audio balasan siap ({seconds} dtk)",
+  "log.ttsError": "Error text-to-speech: {error}",
+  "log.ttsConnectionLost": "Koneksi terputus — gagal membuat audio",
+  "log.ttsVoice": "Suara untuk {language}: {voice}",
+  "log.sendingText": "Mengirim pesan teks: \"{preview}\"",
+  "log.apiError": "API error: {error}",
+  "log.textReceived": "Respons teks diterima dari Gemini",
+  "log.textCancelled": "Respons teks dihentikan oleh pengguna",
+  "log.textConnectionLost": "Koneksi terputus — gagal menghubungi Gemini API",
+  "log.retrying": "Gemini sedang sibuk — mencoba lagi dalam {seconds} detik",
+  "log.retryingMessage": "Mengirim ulang pesan",
+  "log.transcribing": "Mentranskripsi rekaman ({seconds}s)",
+  "log.transcribeError": "Transkripsi error: {error}",
+  "log.noSpeech": "Tidak ada ucapan yang terdeteksi",
+  "log.transcriptInserted": "Transkripsi dimasukkan ke kolom pesan",
+  "log.transcribeConnectionLost": "Koneksi terputus — gagal mentranskripsi audio",
+  "log.liveReceiving": "Menerima respons audio streaming ({rate}Hz)",
+  "log.liveInterrupted": "Respons Gemini dipotong — kamu mulai berbicara",
+  "log.liveTurnComplete": "Giliran Gemini Live selesai",
+  "log.liveError": "Live API error: {error}",
+  "log.liveClosed": "Sesi Gemini Live ditutup",
+  "log.liveOpening": "Membuka sesi Gemini Live...",
+  "log.liveOpened": "Sesi Gemini Live terbuka — percakapan berlanjut antar giliran",
+  "log.liveStreamLost": "Stream Gemini Live terputus",
+  "log.liveConnectionLost": "Koneksi terputus — gagal menghubungi Gemini Live API",
+  "log.liveSendFailed": "Gagal mengirim audio ke Gemini Live",
+  "log.liveBacklog": "Koneksi lambat: sebagian audio dilewati agar tutor tidak tertinggal",
+  "log.micRequest": "Meminta akses mikrofon...",
+  "log.micActive": "Mikrofon aktif — merekam suara...",
+  "log.micDenied": "Gagal mengakses mikrofon — izin ditolak",
+  "log.recordingStopped": "Rekaman dihentikan — memproses audio...",
+  "log.noAudio": "Tidak ada data audio yang direkam",
+  "log.nativeChanged": "Bahasa asli diubah ke: {language}",
+  "log.targetChanged": "Bahasa target diubah ke: {language}",
+  "log.liveModeOn": "Mode Live Audio diaktifkan",
+  "log.liveModeOff": "Mode Live Audio dinonaktifkan",
+  "log.handsFreeOn": "Mode bicara otomatis diaktifkan",
+  "log.handsFreeOff": "Mode bicara otomatis dinonaktifkan",
+  "log.vadSensitivity": "Sensitivitas deteksi suara: {sensitivity}",
+  "log.vadSpeechStart": "Suara terdeteksi",
+  "log.vadSpeechEnd": "Jeda terdeteksi — giliran kamu dikirim",
+  "log.bargeIn": "Kamu menyela — audio tutor dihentikan",
+  "log.newConversation": "Percakapan baru dimulai",
+  "log.conversationNotFound": "Percakapan tidak ditemukan",
+  "log.conversationResumed": "Melanjutkan percakapan: \"{title}\"",
+  "log.loadFailed": "Gagal memuat riwayat percakapan",
+  "log.conversationDeleted": "Percakapan dihapus dari riwayat",
+  "log.deleteFailed": "Gagal menghapus percakapan",
+  "log.vocabSaved": "Kata disimpan ke kosakata: {term}",
+  "log.vocabSaveFailed": "Gagal menyimpan kosakata",
+  "log.vocabLoadFailed": "Gagal memuat kosakata",
+  "log.assessing": "Menilai pengucapan ({seconds} detik)...",
+  "log.assessed": "Pengucapan dinilai — skor {score}",
+  "log.assessError": "Error penilaian pengucapan: {error}",
+  "log.assessConnectionLost": "Koneksi terputus — gagal menilai pengucapan",
+  "log.scenarioStarted": "Role-play dimulai: {title}",
+  "log.scenarioSummarizing": "Menilai hasil role-play...",
+  "log.scenarioSummarized": "Role-play dinilai — {met}/{total} tujuan tercapai",
+  "log.scenarioSummaryError": "Error penilaian role-play: {error}",
+  "log.scenarioConnectionLost": "Koneksi terputus — gagal menilai role-play",
+  "log.sessionSummarizing": "Membuat laporan sesi...",
+  "log.sessionSummarized": "Laporan sesi: {words} kata baru, {mistakes} kesalahan berulang",
+  "log.sessionSummaryError": "Error laporan sesi: {error}",
+  "log.sessionSummaryConnectionLost": "Koneksi terputus — gagal membuat laporan sesi",
+  "log.levelChanged": "Level {target} diatur ke {level}",
+  "log.levelCleared": "Level {target} dikosongkan",
+  "log.levelRaised": "Level {target} dinaikkan ke {level} — koreksi makin jarang",
+  "log.levelLowered": "Level {target} diturunkan ke {level} — banyak koreksi belakangan ini",
+  "log.placementEvaluating": "Menilai tes penempatan...",
+  "log.placementDone": "Tes penempatan selesai — perkiraan level {level}",
+  "log.placementError": "Error tes penempatan: {error}",
+  "log.placementConnectionLost": "Koneksi terputus — gagal menilai tes penempatan",
+
+  "errors.connection": "Gagal menghubungi AI. Periksa koneksi internet Anda.",
+  "errors.liveConnection": "Gagal menghubungi Gemini Live API. Periksa koneksi internet Anda.",
+  "errors.microphone": "Tidak dapat mengakses mikrofon. Pastikan izin mikrofon diberikan.",
+  "errors.API_KEY_REQUIRED": "API key diperlukan",
+  "errors.API_KEY_INVALID": "API key tidak valid. Silakan periksa kembali API key Gemini Anda.",
+  "errors.LOGIN_REQUIRED": "Silakan masuk terlebih dahulu",
+  "errors.INVALID_CREDENTIALS": "Nama pengguna atau kata sandi salah",
+  "errors.QUOTA_REQUESTS_EXCEEDED": "Kuota permintaan harian Anda sudah habis. Coba lagi besok atau gunakan API key sendiri.",
+  "errors.QUOTA_AUDIO_EXCEEDED": "Kuota audio harian Anda sudah habis. Coba lagi besok atau gunakan API key sendiri.",
+  "errors.MESSAGE_REQUIRED": "Pesan diperlukan",
+  "errors.AUDIO_REQUIRED": "Data audio diperlukan",
+  "errors.SENTENCE_REQUIRED": "Kalimat latihan diperlukan",
+  "errors.TRANSCRIPT_INVALID": "Transkrip sesi tidak valid",
+  "errors.LEVEL_INVALID": "Level CEFR tidak dikenal",
+  "errors.SAME_LANGUAGE": "Bahasa asli dan bahasa target tidak boleh sama",
+  "errors.SCENARIO_NOT_FOUND": "Skenario role-play tidak ditemukan",
+  "errors.MODEL_NOT_SUPPORTED": "Model yang diminta tidak didukung",
+  "errors.PROVIDER_UNSUPPORTED": "Fitur ini tidak tersedia pada penyedia model yang dikonfigurasi",
+  "errors.SESSION_ID_REQUIRED": "Session ID diperlukan",
+  "errors.SESSION_NOT_FOUND": "Sesi live tidak ditemukan",
+  "errors.LIVE_SESSION_ERROR": "Terjadi kesalahan pada Live API",
+  "errors.UPSTREAM_RATE_LIMITED": "Gemini sedang membatasi permintaan. Tunggu sebentar lalu coba lagi.",
+  "errors.UPSTREAM_TIMEOUT": "Gemini terlalu lama menjawab. Coba lagi.",
+  "errors.UPSTREAM_UNAVAILABLE": "Gemini sedang sibuk atau tidak tersedia. Coba lagi sebentar lagi.",
+  "errors.NETWORK_ERROR": "Server gagal menghubungi Gemini. Coba lagi.",
+  "errors.SAFETY_BLOCKED": "Jawaban diblokir oleh filter keamanan Gemini. Coba ubah kata-kata pesan Anda.",
+  "errors.UPSTREAM_ERROR": "Terjadi kesalahan pada Gemini API",
+  "errors.UNKNOWN_ERROR": "Terjadi kesalahan yang tidak diketahui",
+};
+
+export type MessageKey = keyof typeof id;
+
+const en: Record<MessageKey, string> = {
+  "app.title": "AI Language Tutor",
+  "app.tagline": "Learn languages with Gemini AI in real time",
+
+  "apiKey.interfaceLanguage": "Interface language",
+  "apiKey.heading": "Enter your Gemini API key",
+  "apiKey.privacy": "Your API key is encrypted into a secure cookie in your browser; the server does not store it.",
+  "apiKey.label": "Google Gemini API Key",
+  "apiKey.required": "Enter an API key first",
+  "apiKey.invalid": "Invalid API key",
+  "apiKey.serverUnreachable": "Could not reach the server. Please try again.",
+  "apiKey.verifying": "Verifying...",
+  "apiKey.submit": "Save & Start",
+  "apiKey.noKey": "Don't have an API key?",
+  "apiKey.getKey": "Get one free at Google AI Studio",
+  "apiKey.featureAudio": "Real-time Audio",
+  "apiKey.featureLanguages": "Multilingual",
+  "apiKey.featureAi": "Gemini AI",
+  "apiKey.useServerKey": "Back to the shared API key",
+  "apiKey.keepCurrentKey": "Keep the current API key",
+
+  "login.heading": "Sign in",
+  "login.description": "Use the account your teacher gave you.",
+  "login.username": "Username",
+  "login.password": "Password",
+  "login.submit": "Sign in",
+  "login.loggingIn": "Signing in...",
+
+  "status.connected": "Connected",
+  "status.disconnected": "Disconnected",
+
+  "level.A1": "Beginner",
+  "level.A2": "Elementary",
+  "level.B1": "Intermediate",
+  "level.B2": "Upper intermediate",
+  "level.C1": "Advanced",
+  "level.C2": "Proficient",
+
+  "sidebar.nativeLanguage": "Native Language",
+  "sidebar.targetLanguage": "Target Language",
+  "sidebar.nativeLanguageSuffix": "{label} (native language)",
+  "sidebar.level": "Level",
+  "sidebar.levelNotSet": "Not set",
+  "sidebar.levelAuto": "Auto-adjusted from corrections",
+  "sidebar.levelPlacement": "From the placement test",
+  "sidebar.placementTest": "Placement test",
+  "sidebar.history": "History",
+  "sidebar.newConversation": "New conversation",
+  "sidebar.noConversations": "No saved conversations yet",
+  "sidebar.conversationMeta": "{date} • {count} messages",
+  "sidebar.deleteConversation": "Delete conversation",
+  "sidebar.vocabulary": "Vocabulary",
+  "sidebar.reviewVocabulary": "Review vocabulary",
+  "sidebar.progress": "Learning progress",
+  "sidebar.data": "Your data",
+  "sidebar.exportSession": "Export this session",
+  "sidebar.exportMarkdown": "Download as Markdown",
+  "sidebar.exportHtml": "Download a print-ready page (save as PDF from the print dialog)",
+  "sidebar.exportJson": "Download as JSON (can be imported again)",
+  "sidebar.exportAnki": "Vocabulary for Anki (CSV)",
+  "sidebar.backup": "Back up all data",
+  "sidebar.restore": "Restore from backup",
+  "sidebar.vocabularyCount": "{count} saved words",
+  "sidebar.vocabularyDue": "{count} words due for review",
+  "sidebar.practice": "Practice",
+  "sidebar.pronunciationDrill": "Pronunciation drill",
+  "sidebar.scenarios": "Role-play",
+  "sidebar.scenarioActive": "In progress",
+  "sidebar.settings": "Settings",
+  "sidebar.liveAudio": "Live Audio",
+  "sidebar.liveAudioModel": "Gemini 2.5 Flash Native",
+  "sidebar.toggleLiveMode": "Toggle Live Audio",
+  "sidebar.handsFree": "Hands-free",
+  "sidebar.handsFreeHint": "The mic detects when you speak",
+  "sidebar.toggleHandsFree": "Toggle hands-free mode",
+  "sidebar.vadSensitivity": "Voice detection sensitivity",
+  "sidebar.ttsVoice": "Reading voice",
+  "vad.low": "Low — noisy room",
+  "vad.medium": "Medium",
+  "vad.high": "High — quiet voice",
+  "sidebar.activityLog": "Activity Log",
+  "sidebar.toggleActivityLog": "Toggle Activity Log",
+  "sidebar.changeApiKey": "Change API Key",
+  "sidebar.useOwnApiKey": "Use my own API Key",
+  "sidebar.logoutAs": "Sign out ({user})",
+  "sidebar.logout": "Sign out",
+  "sidebar.quotaToday": "Today's quota",
+  "sidebar.quotaRequests": "{used}/{limit} requests",
+  "sidebar.quotaAudio": "{used}/{limit} audio minutes",
+
+  "header.model": "Gemini 2.5 Flash",
+  "header.recording": "Recording...",
+  "header.processing": "Processing...",
+  "header.playing": "Playing audio...",
+  "header.paused": "Audio paused",
+  "header.endScenario": "End scenario",
+  "header.endSession": "End session",
+  "header.endSessionHint": "Get a session report: new words, recurring mistakes and what to practise next",
+  "header.summarizing": "Evaluating...",
+
+  "chat.welcome": "Hi! I'm ready to help you learn **{target}**! 🎉\n\nYou can:\n- 🎙️ Press the microphone button to talk to the AI directly (Gemini Live)\n- ⌨️ Type a message below\n- 🌍 Change the target language in the left sidebar\n\nLet's begin! Try saying or typing something in {target} or {native}.",
+  "chat.voiceMessage": "Voice message",
+  "chat.voiceReply": "Gemini Live audio reply",
+  "audio.replay": "Replay",
+  "audio.listen": "Listen",
+  "audio.generating": "Generating audio...",
+  "audio.pause": "Pause",
+  "audio.resume": "Resume",
+  "audio.stop": "Stop",
+  "audio.speed": "Speed {rate}×",
+  "chat.voiceMessagePlaceholder": "🎙️ [Voice message sent to Gemini Live]",
+  "chat.voiceReplyPlaceholder": "🔊 [Audio reply from Gemini Live]",
+  "chat.translation": "Translation",
+  "chat.corrections": "Corrections",
+  "chat.notSent": "Not sent",
+  "chat.retry": "Retry",
+  "chat.scenarioWelcome": "🎭 **{title}** · level {level}\n\n{description}\n\n**Your goals:**\n{goals}\n\nStart speaking or typing in {target}. When you're done, press **End scenario** to see which goals you reached.",
+  "chat.scenarioReport": "Role-play result: {title}",
+  "chat.goalsMet": "{met}/{total} goals reached",
+  "chat.nextSteps": "Next step",
+  "report.title": "Session report",
+  "report.stats": "{messages} messages · {words} new words · {rate}% needed a correction",
+  "report.previous": "Last session: {messages} messages · {words} new words · {rate}% needed a correction.",
+  "report.improved": "Fewer mistakes!",
+  "report.slipped": "More corrections than last time.",
+  "report.mistakes": "Recurring mistakes",
+  "report.grammar": "Grammar covered",
+  "report.nextTopics": "Try next",
+
+  "dashboard.title": "Learning progress",
+  "dashboard.subtitle": "Stored in this browser",
+  "dashboard.back": "Back to practice",
+  "dashboard.empty": "No practice recorded yet. Send a message or record your voice to start filling this dashboard.",
+  "dashboard.loadFailed": "Could not load your practice history",
+  "dashboard.streak": "Day streak",
+  "dashboard.longestStreak": "Longest: {days} days",
+  "dashboard.minutesSpoken": "Minutes spoken",
+  "dashboard.thisWeek": "{minutes} this week",
+  "dashboard.messages": "Messages sent",
+  "dashboard.languageCount": "across {count} languages",
+  "dashboard.correctionRate": "Needed a correction",
+  "dashboard.lastDays": "last {days} days",
+  "dashboard.messagesByLanguage": "Messages per language",
+  "dashboard.correctionTrend": "Correction trend",
+  "dashboard.correctionTrendHint": "Share of text messages that needed a correction, per day",
+  "dashboard.correctionDay": "{day}: {corrected} of {checked} messages corrected",
+  "dashboard.vocabularyGrowth": "Vocabulary growth",
+  "dashboard.vocabularyTotal": "{count} words saved",
+
+  "export.sessionMeta": "{language} practice · {date}",
+  "export.learner": "You",
+  "export.tutor": "Tutor",
+  "export.corrections": "Corrections",
+  "export.newWords": "New words",
+
+  "vocab.saveWord": "Save word",
+  "vocab.saveWordHint": "Select a word in the message, then click to save it",
+  "vocab.term": "Word or phrase",
+  "vocab.translation": "Translation",
+  "vocab.example": "Example sentence",
+  "vocab.save": "Save",
+  "vocab.cancel": "Cancel",
+
+  "review.title": "Vocabulary Review",
+  "review.remaining": "{count} left",
+  "review.showAnswer": "Show answer",
+  "review.again": "Again",
+  "review.hard": "Hard",
+  "review.good": "Good",
+  "review.easy": "Easy",
+  "review.delete": "Remove this word from the deck",
+  "review.finished": "Done! {count} reviews today.",
+  "review.empty": "Nothing is due for review right now.",
+  "review.close": "Close",
+
+  "pronunciation.title": "Pronunciation Drill",
+  "pronunciation.practice": "Practice pronunciation",
+  "pronunciation.sentence": "Sentence to read",
+  "pronunciation.sentencePlaceholder": "Write a sentence in {target}...",
+  "pronunciation.instructions": "Press the mic, read the sentence aloud, then press it again.",
+  "pronunciation.record": "Start recording",
+  "pronunciation.stop": "Stop and score",
+  "pronunciation.recording": "Recording... read the sentence now.",
+  "pronunciation.assessing": "Scoring your pronunciation...",
+  "pronunciation.wordScore": "Score {score}",
+  "pronunciation.heard": "Heard: \"{heard}\"",
+  "pronunciation.playReference": "Reference",
+  "pronunciation.playRecording": "Your recording",
+  "pronunciation.close": "Close",
+
+  "placement.title": "Placement Test",
+  "placement.instructions": "Answer in {target} as best you can. Skip tasks that are too hard — that helps the estimate too.",
+  "placement.q1": "Introduce yourself: your name, where you're from, and your job or school.",
+  "placement.q2": "Tell me what you did last weekend.",
+  "placement.q3": "What are your plans for next year, and why?",
+  "placement.q4": "Is working from home better than working in an office? Give your opinion with reasons.",
+  "placement.q5": "If you were mayor for a year, what would you change in your city and what would the effect be?",
+  "placement.answerPlaceholder": "Answer in {target}... (optional)",
+  "placement.submit": "Evaluate answers",
+  "placement.evaluating": "Evaluating...",
+  "placement.result": "Your estimated level",
+  "placement.accept": "Use level {level}",
+  "placement.close": "Close",
+
+  "composer.placeholder": "Type in {target} or {native}...",
+  "composer.recordingLive": "🎙️ Recording for Gemini Live...",
+  "composer.recordingTranscribe": "Listening — will be converted to text...",
+  "composer.micLive": "Talk with the Gemini Live API",
+  "composer.micTranscribe": "Record speech as text",
+  "composer.micHandsFree": "Start/stop hands-free mode",
+  "composer.handsFreeListening": "👂 Listening — start speaking any time",
+  "composer.handsFreeSpeaking": "🎙️ You're speaking...",
+  "composer.handsFreeTutorSpeaking": "🔊 Tutor is speaking — talk to interrupt",
+  "composer.stop": "Stop reply",
+  "composer.hint": "Enter to send • {mode}",
+  "composer.hintLive": "🎙️ Press the mic for Gemini 2.5 Live Audio",
+  "composer.hintTranscribe": "🎙️ to turn speech into text",
+  "composer.hintHandsFree": "🎙️ Press the mic once, then take turns with the tutor",
+
+  "logPanel.clear": "Clear log",
+  "logPanel.connected": "● CONNECTED",
+  "logPanel.disconnected": "● DISCONNECTED",
+  "logPanel.connectedDetail": "Gemini 2.5 Flash Live API",
+  "logPanel.disconnectedDetail": "No connection",
+  "logPanel.empty": "No activity yet",
+  "logPanel.audioLevel": "Audio Level",
+  "logPanel.playing": "Playing...",
+
+  "log.sessionStarted": "Session started — target language: {target}",
+  "log.apiReady": "Gemini API connection ready",
+  "log.saveFailed": "Failed to save conversation history",
+  "log.exported": "Downloaded {file}",
+  "log.exportFailed": "Could not export data",
+  "log.restored": "Backup restored: {conversations} conversations, {words} words, {reports} session reports",
+  "log.restoreInvalid": "This file is not a backup that can be read",
+  "log.restoreFailed": "Could not restore the backup",
+  "log.playbackFailed": "Failed to play the audio reply",
+  "log.playbackStopped": "Audio playback stopped by user",
+  "log.playbackRate": "Replay speed: {rate}×",
+  "log.ttsRequest": "Requesting reply audio (voice {voice})...",
+  "log.ttsReady": "Reply audio ready ({seconds}s)",
+  "log.ttsError": "Text-to-speech error: {error}",
+  "log.ttsConnectionLost": "Connection lost — could not generate audio",
+  "log.ttsVoice": "Voice for {language}: {voice}",
+  "log.sendingText": "Sending text message: \"{preview}\"",
+  "log.apiError": "API error: {error}",
+  "log.textReceived": "Text reply received from Gemini",
+  "log.textCancelled": "Text reply stopped by user",
+  "log.textConnectionLost": "Connection lost — could not reach the Gemini API",
+  "log.retrying": "Gemini is busy — retrying in {seconds}s",
+  "log.retryingMessage": "Resending message",
+  "log.transcribing": "Transcribing recording ({seconds}s)",
+  "log.transcribeError": "Transcription error: {error}",
+  "log.noSpeech": "No speech detected",
+  "log.transcriptInserted": "Transcript inserted into the message box",
+  "log.transcribeConnectionLost": "Connection lost — could not transcribe audio",
+  "log.liveReceiving": "Receiving streamed audio reply ({rate}Hz)",
+  "log.liveInterrupted": "Gemini's reply cut off — you started speaking",
+  "log.liveTurnComplete": "Gemini Live turn complete",
+  "log.liveError": "Live API error: {error}",
+  "log.liveClosed": "Gemini Live session closed",
+  "log.liveOpening": "Opening Gemini Live session...",
+  "log.liveOpened": "Gemini Live session open — context carries across turns",
+  "log.liveStreamLost": "Gemini Live stream disconnected",
+  "log.liveConnectionLost": "Connection lost — could not reach the Gemini Live API",
+  "log.liveSendFailed": "Failed to send audio to Gemini Live",
+  "log.liveBacklog": "Slow connection: some audio was skipped so the tutor doesn't fall behind",
+  "log.micRequest": "Requesting microphone access...",
+  "log.micActive": "Microphone on — recording...",
+  "log.micDenied": "Could not access the microphone — permission denied",
+  "log.recordingStopped": "Recording stopped — processing audio...",
+  "log.noAudio": "No audio data was recorded",
+  "log.nativeChanged": "Native language changed to: {language}",
+  "log.targetChanged": "Target language changed to: {language}",
+  "log.liveModeOn": "Live Audio mode enabled",
+  "log.liveModeOff": "Live Audio mode disabled",
+  "log.handsFreeOn": "Hands-free mode enabled",
+  "log.handsFreeOff": "Hands-free mode disabled",
+  "log.vadSensitivity": "Voice detection sensitivity: {sensitivity}",
+  "log.vadSpeechStart": "Speech detected",
+  "log.vadSpeechEnd": "Pause detected — your turn was sent",
+  "log.bargeIn": "You interrupted — tutor audio stopped",
+  "log.newConversation": "New conversation started",
+  "log.conversationNotFound": "Conversation not found",
+  "log.conversationResumed": "Resuming conversation: \"{title}\"",
+  "log.loadFailed": "Failed to load conversation history",
+  "log.conversationDeleted": "Conversation removed from history",
+  "log.deleteFailed": "Failed to delete conversation",
+  "log.vocabSaved": "Saved to vocabulary: {term}",
+  "log.vocabSaveFailed": "Failed to save vocabulary",
+  "log.vocabLoadFailed": "Failed to load vocabulary",
+  "log.assessing": "Scoring pronunciation ({seconds}s)...",
+  "log.assessed": "Pronunciation scored — {score}",
+  "log.assessError": "Pronunciation scoring error: {error}",
+  "log.assessConnectionLost": "Connection lost — could not score pronunciation",
+  "log.scenarioStarted": "Role-play started: {title}",
+  "log.scenarioSummarizing": "Evaluating the role-play...",
+  "log.scenarioSummarized": "Role-play evaluated — {met}/{total} goals reached",
+  "log.scenarioSummaryError": "Role-play evaluation error: {error}",
+  "log.scenarioConnectionLost": "Connection lost — could not evaluate the role-play",
+  "log.sessionSummarizing": "Preparing the session report...",
+  "log.sessionSummarized": "Session report: {words} new words, {mistakes} recurring mistakes",
+  "log.sessionSummaryError": "Session report error: {error}",
+  "log.sessionSummaryConnectionLost": "Connection lost — could not prepare the session report",
+  "log.levelChanged": "{target} level set to {level}",
+  "log.levelCleared": "{target} level cleared",
+  "log.levelRaised": "{target} level raised to {level} — fewer corrections lately",
+  "log.levelLowered": "{target} level lowered to {level} — many corrections lately",
+  "log.placementEvaluating": "Evaluating the placement test...",
+  "log.placementDone": "Placement test done — estimated level {level}",
+  "log.placementError": "Placement test error: {error}",
+  "log.placementConnectionLost": "Connection lost — could not evaluate the placement test",
+
+  "errors.connection": "Could not reach the AI. Check your internet connection.",
+  "errors.liveConnection": "Could not reach the Gemini Live API. Check your internet connection.",
+  "errors.microphone": "Cannot access the microphone. Make sure microphone permission is granted.",
+  "errors.API_KEY_REQUIRED": "An API key is required",
+  "errors.API_KEY_INVALID": "Invalid API key. Please double-check your Gemini API key.",
+  "errors.LOGIN_REQUIRED": "Please sign in first",
+  "errors.INVALID_CREDENTIALS": "Wrong username or password",
+  "errors.QUOTA_REQUESTS_EXCEEDED": "You have used up today's request quota. Try again tomorrow or use your own API key.",
+  "errors.QUOTA_AUDIO_EXCEEDED": "You have used up today's audio quota. Try again tomorrow or use your own API key.",
+  "errors.MESSAGE_REQUIRED": "A message is required",
+  "errors.AUDIO_REQUIRED": "Audio data is required",
+  "errors.SENTENCE_REQUIRED": "A practice sentence is required",
+  "errors.TRANSCRIPT_INVALID": "The session transcript is malformed",
+  "errors.LEVEL_INVALID": "Unknown CEFR level",
+  "errors.SAME_LANGUAGE": "Native and target language must differ",
+  "errors.SCENARIO_NOT_FOUND": "Role-play scenario not found",
+  "errors.MODEL_NOT_SUPPORTED": "The requested model is not supported",
+  "errors.PROVIDER_UNSUPPORTED": "This feature isn't available with the configured model provider",
+  "errors.SESSION_ID_REQUIRED": "A session ID is required",
+  "errors.SESSION_NOT_FOUND": "Live session not found",
+  "errors.LIVE_SESSION_ERROR": "Something went wrong in the Live API",
+  "errors.UPSTREAM_RATE_LIMITED": "Gemini is rate-limiting requests. Wait a moment and try again.",
+  "errors.UPSTREAM_TIMEOUT": "Gemini took too long to answer. Try again.",
+  "errors.UPSTREAM_UNAVAILABLE": "Gemini is busy or unavailable. Try again shortly.",
+  "errors.NETWORK_ERROR": "The server could not reach Gemini. Try again.",
+  "errors.SAFETY_BLOCKED": "The reply was blocked by Gemini's safety filters. Try rephrasing your message.",
+  "errors.UPSTREAM_ERROR": "Something went wrong in the Gemini API",
+  "errors.UNKNOWN_ERROR": "An unknown error occurred",
+};
+
+const catalogs: Record<Locale, Record<MessageKey, string>> = { id, en };
+
+// Indonesian speakers get the Indonesian UI; everyone else falls back to English
+export function uiLocaleFor(nativeLanguage: string): Locale {
+  return nativeLanguage === "Indonesian" ? "id" : "en";
+}
+
+export function dateLocaleFor(locale: Locale): string {
+  return locale === "id" ? "id-ID" : "en-US";
+}
+
+export type Translator = (key: MessageKey, params?: Record<string, string | number>) => string;
+
+export function createTranslator(locale: Locale): Translator {
+  const catalog = catalogs[locale];
+  return (key, params) => {
+    const template = catalog[key] ?? id[key] ?? key;
+    if (!params) return template;
+    return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+      name in params ? String(params[name]) : match
+    );
+  };
+}
+
+function isErrorKey(key: string): key is `errors.${ApiErrorCode}` {
+  return key in id;
+}
+
+// Turns `{ code, detail }` from an API route into a sentence in the UI language
+export function localizeApiError(t: Translator, payload: Partial<ApiErrorPayload> | null | undefined): string {
+  const key = `errors.${payload?.code}`;
+  const message = isErrorKey(key) ? t(key) : t("errors.UNKNOWN_ERROR");
+  return payload?.detail ? `${message} (${payload.detail})` : message;
+}
@@ -0,0 +1,32 @@
+export const LANGUAGES = [
+  { code: "English", label: "🇺🇸 English" },
+  { code: "Japanese", label: "🇯🇵 Japanese" },
+  { code: "Korean", label: "🇰🇷 Korean" },
+  { code: "French", label: "🇫🇷 French" },
+  { code: "Spanish", label: "🇪🇸 Spanish" },
+  { code: "German", label: "🇩🇪 German" },
+  { code: "Mandarin Chinese", label: "🇨🇳 Mandarin" },
+  { code: "Arabic", label: "🇸🇦 Arabic" },
+];
+
+export const NATIVE_LANGUAGES = [
+  { code: "Indonesian", label: "🇮🇩 Indonesian" },
+  ...LANGUAGES,
+];
+
+export const NATIVE_LANGUAGE_STORAGE_KEY = "native_language";
+
+export function getStoredNativeLanguage(): string {
+  if (typeof window === "undefined") return "Indonesian";
+  const stored = localStorage.getItem(NATIVE_LANGUAGE_STORAGE_KEY);
+  return NATIVE_LANGUAGES.some(l => l.code === stored) ? stored! : "Indonesian";
+}
+
+export function storeNativeLanguage(code: string) {
+  localStorage.setItem(NATIVE_LANGUAGE_STORAGE_KEY, code);
+}
+
+// Default target is the first language that isn't the learner's own
+export function defaultTargetLanguage(nativeLanguage: string): string {
+  return LANGUAGES.find(l => l.code !== nativeLanguage)!.code;
+}
@@ -0,0 +1,150 @@
+import { getProvider, type LiveConnection, type LiveEvent } from "./providers";
+
+export const LIVE_OUTPUT_SAMPLE_RATE = 24000;
+
+// Sessions with no client traffic for this long are closed by the sweeper
+const IDLE_TIMEOUT_MS = 5 * 60 * 1000;
+
+export type { LiveEvent };
+
+interface LiveSessionEntry {
+  id: string;
+  // The caller that opened the session; nobody else may stream to it, read it or close it
+  owner: string;
+  connection: LiveConnection;
+  queue: LiveEvent[];
+  listener: ((event: LiveEvent) => void) | null;
+  lastActivity: number;
+  closed: boolean;
+}
+
+// Kept on globalThis so sessions survive module reloads in dev
+const globalStore = globalThis as typeof globalThis & {
+  __liveSessions?: Map<string, LiveSessionEntry>;
+};
+const sessions = globalStore.__liveSessions ?? new Map<string, LiveSessionEntry>();
+globalStore.__liveSessions = sessions;
+
+function emit(entry: LiveSessionEntry, event: LiveEvent) {
+  if (entry.listener) {
+    entry.listener(event);
+  } else {
+    entry.queue.push(event);
+  }
+}
+
+// Events from the provider before the entry exists are queued, and a close ends the entry
+function handleProviderEvent(entry: LiveSessionEntry, event: LiveEvent) {
+  if (event.type === "closed") {
+    if (!entry.closed) {
+      entry.closed = true;
+      emit(entry, event);
+      sessions.delete(entry.id);
+    }
+    return;
+  }
+  entry.lastActivity = Date.now();
+  emit(entry, event);
+}
+
+function sweepIdleSessions() {
+  const now = Date.now();
+  for (const entry of sessions.values()) {
+    if (now - entry.lastActivity > IDLE_TIMEOUT_MS) {
+      closeLiveSession(entry.id);
+    }
+  }
+}
+
+interface OpenLiveSessionOptions {
+  apiKey: string;
+  model: string;
+  systemInstruction: string;
+  owner: string;
+}
+
+// Opens a live audio session with the configured provider and resolves once it is ready
+export async function openLiveSession({ apiKey, model, systemInstruction, owner }: OpenLiveSessionOptions): Promise<string> {
+  sweepIdleSessions();
+
+  const id = crypto.randomUUID();
+  let entry: LiveSessionEntry | null = null;
+  const pending: LiveEvent[] = [];
+
+  const connection = await getProvider(apiKey).connectLive({
+    model,
+    systemInstruction,
+    onEvent: (event) => {
+      if (entry) handleProviderEvent(entry, event);
+      else pending.push(event);
+    },
+  });
+
+  entry = {
+    id,
+    owner,
+    connection,
+    queue: [],
+    listener: null,
+    lastActivity: Date.now(),
+    closed: false,
+  };
+  sessions.set(id, entry);
+  for (const event of pending) {
+    handleProviderEvent(entry, event);
+  }
+  return id;
+}
+
+export function hasLiveSession(id: string): boolean {
+  return sessions.has(id);
+}
+
+export function ownsLiveSession(id: string, owner: string): boolean {
+  return sessions.get(id)?.owner === owner;
+}
+
+// Streams PCM (16 kHz Int16, base64) or an end-of-stream marker into the session
+export function sendLiveAudio(id: string, input: { audioData?: string; audioStreamEnd?: boolean }): boolean {
+  const entry = sessions.get(id);
+  if (!entry || entry.closed) return false;
+
+  entry.lastActivity = Date.now();
+  if (input.audioData) {
+    entry.connection.sendAudio(input.audioData);
+  }
+  if (input.audioStreamEnd) {
+    entry.connection.endAudio();
+  }
+  return true;
+}
+
+// Attaches the single event listener for a session, flushing anything queued before it connected
+export function subscribeLiveSession(id: string, listener: (event: LiveEvent) => void): (() => void) | null {
+  const entry = sessions.get(id);
+  if (!entry) return null;
+
+  entry.listener = listener;
+  const queued = entry.queue.splice(0);
+  for (const event of queued) {
+    listener(event);
+  }
+
+  return () => {
+    if (entry.listener === listener) {
+      entry.listener = null;
+    }
+  };
+}
+
+export function closeLiveSession(id: string) {
+  const entry = sessions.get(id);
+  if (!entry) return;
+
+  sessions.delete(id);
+  if (!entry.closed) {
+    entry.closed = true;
+    emit(entry, { type: "closed" });
+    entry.connection.close();
+  }
+}
@@ -0,0 +1,88 @@
+import { describe, expect, test } from "bun:test";
+import { markdownToHtml, markdownToPlainText, parseInline, parseMarkdown, type BlockNode, type InlineNode } from "./markdown";
+
+const text = (value: string): InlineNode => ({ type: "text", text: value });
+const paragraph = (value: string): BlockNode => ({ type: "paragraph", children: [text(value)] });
+
+describe("parseMarkdown", () => {
+  test("nests an indented list inside the item above it", () => {
+    expect(parseMarkdown("- Verbs\n  - go\n  - went\n- Nouns")).toEqual([
+      {
+        type: "list",
+        ordered: false,
+        start: 1,
+        items: [
+          [
+            paragraph("Verbs"),
+            { type: "list", ordered: false, start: 1, items: [[paragraph("go")], [paragraph("went")]] },
+          ],
+          [paragraph("Nouns")],
+        ],
+      },
+    ]);
+  });
+
+  test("keeps the start number of an ordered list", () => {
+    const [list] = parseMarkdown("3. tiga\n4. empat");
+
+    expect(list).toMatchObject({ type: "list", ordered: true, start: 3 });
+  });
+
+  test("reads table alignment and pipes that are escaped or inside code", () => {
+    const [table] = parseMarkdown("| Word | Meaning |\n|:-----|:------:|\n| a \\| b | `x|y` |");
+
+    expect(table).toEqual({
+      type: "table",
+      align: ["left", "center"],
+      header: [[text("Word")], [text("Meaning")]],
+      rows: [[[text("a | b")], [{ type: "code", text: "x|y" }]]],
+    });
+  });
+});
+
+describe("parseInline", () => {
+  test("annotates text with its reading from braces or <ruby> tags", () => {
+    expect(parseInline("{漢字|かんじ} dan <ruby>日<rp>(</rp><rt>に</rt><rp>)</rp></ruby>")).toEqual([
+      { type: "ruby", base: "漢字", annotation: "かんじ" },
+      text(" dan "),
+      { type: "ruby", base: "日", annotation: "に" },
+    ]);
+  });
+
+  test("leaves markup inside code spans alone", () => {
+    expect(parseInline("`a *b*` and `` a`b ``")).toEqual([
+      { type: "code", text: "a *b*" },
+      text(" and "),
+      { type: "code", text: "a`b" },
+    ]);
+  });
+
+  test("renders links that could run script as their label", () => {
+    expect(parseInline("[klik](javascript:alert(1)) [gambar](data:text/html,hi)")).toEqual([
+      text("klik"),
+      text(" "),
+      text("gambar"),
+    ]);
+  });
+
+  test("keeps balanced parentheses in a link", () => {
+    expect(parseInline("[kana](https://en.wikipedia.org/wiki/Kana_(disambiguation)).")).toEqual([
+      { type: "link", href: "https://en.wikipedia.org/wiki/Kana_(disambiguation)", children: [text("kana")] },
+      text("."),
+    ]);
+  });
+});
+
+describe("markdownToPlainText", () => {
+  test("drops markup and keeps only the base of ruby text", () => {
+    expect(markdownToPlainText("## **Salam**\n\n{漢字|かんじ} is `kanji`")).toBe("Salam\n漢字 is kanji");
+  });
+});
+
+describe("markdownToHtml", () => {
+  test("escapes text and attribute values", () => {
+    expect(markdownToHtml('<script>x</script> [a](https://e.com/?q="><img>)')).toBe(
+      '<p>&lt;script&gt;x&lt;/script&gt; <a href="https://e.com/?q=&quot;&gt;&lt;img&gt;">a</a></p>'
+    );
+  });
+});
@@ -0,0 +1,540 @@
+// A small markdown subset for chat bubbles. It produces a node tree that is rendered as
+// React elements, so raw HTML in model or user text is never injected into the page.
+
+export type InlineNode =
+  | { type: "text"; text: string }
+  | { type: "strong"; children: InlineNode[] }
+  | { type: "em"; children: InlineNode[] }
+  | { type: "del"; children: InlineNode[] }
+  | { type: "code"; text: string }
+  | { type: "link"; href: string; children: InlineNode[] }
+  | { type: "ruby"; base: string; annotation: string }
+  | { type: "break" };
+
+export type TableAlign = "left" | "center" | "right" | null;
+
+export type BlockNode =
+  | { type: "paragraph"; children: InlineNode[] }
+  | { type: "heading"; level: 1 | 2 | 3 | 4 | 5 | 6; children: InlineNode[] }
+  | { type: "code"; language: string; text: string }
+  | { type: "list"; ordered: boolean; start: number; items: BlockNode[][] }
+  | { type: "blockquote"; children: BlockNode[] }
+  | { type: "table"; align: TableAlign[]; header: InlineNode[][]; rows: InlineNode[][][] }
+  | { type: "rule" };
+
+const FENCE = /^\s*(`{3,}|~{3,})\s*([\w+#-]*)\s*$/;
+const HEADING = /^\s{0,3}(#{1,6})\s+(.*?)(\s+#+)?\s*$/;
+const RULE = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+const LIST_ITEM = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const BLOCKQUOTE = /^\s{0,3}>\s?(.*)$/;
+const TABLE_DIVIDER = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+const ESCAPABLE = "\\`*_{}[]()#+-.!|~<>";
+
+// Only links that can't run script are kept; anything else is rendered as its label
+const SAFE_HREF = /^(https?:|mailto:)/i;
+
+export function parseMarkdown(source: string): BlockNode[] {
+  return parseBlocks(source.replace(/\r\n?/g, "\n").replace(/\t/g, "    ").split("\n"));
+}
+
+function isTableStart(lines: string[], i: number): boolean {
+  return (
+    i + 1 < lines.length &&
+    lines[i].includes("|") &&
+    lines[i + 1].includes("|") &&
+    TABLE_DIVIDER.test(lines[i + 1])
+  );
+}
+
+function startsBlock(lines: string[], i: number): boolean {
+  const line = lines[i];
+  return (
+    FENCE.test(line) ||
+    HEADING.test(line) ||
+    RULE.test(line) ||
+    BLOCKQUOTE.test(line) ||
+    LIST_ITEM.test(line) ||
+    isTableStart(lines, i)
+  );
+}
+
+function parseBlocks(lines: string[]): BlockNode[] {
+  const blocks: BlockNode[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      const body: string[] = [];
+      i++;
+      // An unclosed fence runs to the end, which keeps half-streamed code blocks intact
+      while (i < lines.length && !lines[i].trim().startsWith(fence[1])) {
+        body.push(lines[i]);
+        i++;
+      }
+      i++;
+      blocks.push({ type: "code", language: fence[2], text: body.join("\n").replace(/\n+$/, "") });
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      blocks.push({
+        type: "heading",
+        level: heading[1].length as 1 | 2 | 3 | 4 | 5 | 6,
+        children: parseInline(heading[2]),
+      });
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ type: "rule" });
+      i++;
+      continue;
+    }
+
+    if (BLOCKQUOTE.test(line)) {
+      const body: string[] = [];
+      while (i < lines.length && lines[i].trim()) {
+        const quoted = lines[i].match(BLOCKQUOTE);
+        body.push(quoted ? quoted[1] : lines[i]);
+        i++;
+      }
+      blocks.push({ type: "blockquote", children: parseBlocks(body) });
+      continue;
+    }
+
+    if (isTableStart(lines, i)) {
+      const [table, next] = parseTable(lines, i);
+      blocks.push(table);
+      i = next;
+      continue;
+    }
+
+    if (LIST_ITEM.test(line)) {
+      const [list, next] = parseList(lines, i);
+      blocks.push(list);
+      i = next;
+      continue;
+    }
+
+    const body = [line.trim()];
+    i++;
+    while (i < lines.length && lines[i].trim() && !startsBlock(lines, i)) {
+      body.push(lines[i].trim());
+      i++;
+    }
+    blocks.push({ type: "paragraph", children: parseInline(body.join("\n")) });
+  }
+
+  return blocks;
+}
+
+function leadingSpaces(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+function parseList(lines: string[], start: number): [BlockNode, number] {
+  const first = lines[start].match(LIST_ITEM)!;
+  const indent = first[1].length;
+  const ordered = /\d/.test(first[2]);
+  const items: string[][] = [];
+  let contentIndent = indent + first[2].length + 1;
+  let i = start;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    const item = line.match(LIST_ITEM);
+
+    if (item && item[1].length <= indent + 1) {
+      if (item[1].length < indent || /\d/.test(item[2]) !== ordered) break;
+      items.push([item[3]]);
+      contentIndent = item[1].length + item[2].length + 1;
+      i++;
+      continue;
+    }
+
+    const current = items[items.length - 1];
+    if (!line.trim()) {
+      // A blank line only continues the list if more of it follows
+      const next = lines[i + 1];
+      if (next === undefined || !next.trim()) break;
+      const nextItem = next.match(LIST_ITEM);
+      const continues = leadingSpaces(next) >= contentIndent || (nextItem && nextItem[1].length <= indent + 1);
+      if (!continues) break;
+      current.push("");
+      i++;
+      continue;
+    }
+
+    if (leadingSpaces(line) >= Math.min(contentIndent, indent + 2)) {
+      current.push(line.slice(Math.min(leadingSpaces(line), contentIndent)));
+      i++;
+      continue;
+    }
+
+    // Lazy continuation of the item's paragraph
+    if (!startsBlock(lines, i)) {
+      current.push(line.trim());
+      i++;
+      continue;
+    }
+    break;
+  }
+
+  return [
+    {
+      type: "list",
+      ordered,
+      start: ordered ? parseInt(first[2], 10) : 1,
+      items: items.map((content) => parseBlocks(content)),
+    },
+    i,
+  ];
+}
+
+// Splits a table row on unescaped pipes outside code spans
+function splitRow(line: string): string[] {
+  let row = line.trim();
+  if (row.startsWith("|")) row = row.slice(1);
+  if (row.endsWith("|") && !row.endsWith("\\|")) row = row.slice(0, -1);
+
+  const cells: string[] = [];
+  let cell = "";
+  let inCode = false;
+  for (let i = 0; i < row.length; i++) {
+    const ch = row[i];
+    if (ch === "\\" && row[i + 1] === "|") {
+      cell += "|";
+      i++;
+    } else if (ch === "`") {
+      inCode = !inCode;
+      cell += ch;
+    } else if (ch === "|" && !inCode) {
+      cells.push(cell.trim());
+      cell = "";
+    } else {
+      cell += ch;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+}
+
+function parseTable(lines: string[], start: number): [BlockNode, number] {
+  const header = splitRow(lines[start]);
+  const align: TableAlign[] = splitRow(lines[start + 1]).map((cell) => {
+    const left = cell.startsWith(":");
+    const right = cell.endsWith(":");
+    if (left && right) return "center";
+    if (right) return "right";
+    if (left) return "left";
+    return null;
+  });
+
+  const rows: InlineNode[][][] = [];
+  let i = start + 2;
+  while (i < lines.length && lines[i].trim() && lines[i].includes("|")) {
+    const cells = splitRow(lines[i]);
+    rows.push(header.map((_, col) => parseInline(cells[col] ?? "")));
+    i++;
+  }
+
+  return [
+    {
+      type: "table",
+      align: header.map((_, col) => align[col] ?? null),
+      header: header.map((cell) => parseInline(cell)),
+      rows,
+    },
+    i,
+  ];
+}
+
+function isWordChar(ch: string | undefined): boolean {
+  return !!ch && /[\p{L}\p{N}]/u.test(ch);
+}
+
+// Finds the closing delimiter for emphasis, skipping doubled markers when looking for a single one
+function findClosing(text: string, marker: string, from: number): number {
+  let j = text.indexOf(marker, from);
+  while (j !== -1) {
+    const single = marker.length === 1;
+    const doubled = single && (text[j + 1] === marker || text[j - 1] === marker);
+    const closeable = !/\s/.test(text[j - 1] ?? " ");
+    const underscoreInWord = marker[0] === "_" && isWordChar(text[j + marker.length]);
+    if (!doubled && closeable && !underscoreInWord && j > from) return j;
+    j = text.indexOf(marker, j + 1);
+  }
+  return -1;
+}
+
+function parseHtmlRuby(inner: string): InlineNode[] | null {
+  const nodes: InlineNode[] = [];
+  const stripped = inner.replace(/<rp>.*?<\/rp>/g, "");
+  const pair = /([^<]*)<rt>([^<]*)<\/rt>/g;
+  let last = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pair.exec(stripped))) {
+    nodes.push({ type: "ruby", base: match[1], annotation: match[2] });
+    last = pair.lastIndex;
+  }
+  if (!nodes.length) return null;
+  if (last < stripped.length) nodes.push({ type: "text", text: stripped.slice(last) });
+  return nodes;
+}
+
+// [label](href) starting at `start`. The href ends at the first unmatched ")", so balanced
+// parentheses such as https://en.wikipedia.org/wiki/Kana_(disambiguation) stay part of it.
+function parseLink(text: string, start: number): { label: string; href: string; end: number } | null {
+  const opening = text.slice(start).match(/^\[([^\]\n]+)\]\(/);
+  if (!opening) return null;
+  const hrefStart = start + opening[0].length;
+  let depth = 0;
+  for (let j = hrefStart; j < text.length; j++) {
+    const ch = text[j];
+    if (/\s/.test(ch)) return null;
+    if (ch === "(") {
+      depth++;
+    } else if (ch === ")") {
+      if (depth === 0) {
+        return j > hrefStart ? { label: opening[1], href: text.slice(hrefStart, j), end: j + 1 } : null;
+      }
+      depth--;
+    }
+  }
+  return null;
+}
+
+export function parseInline(text: string): InlineNode[] {
+  const nodes: InlineNode[] = [];
+  let buffer = "";
+  const flush = () => {
+    if (buffer) {
+      nodes.push({ type: "text", text: buffer });
+      buffer = "";
+    }
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const ch = text[i];
+
+    if (ch === "\\" && i + 1 < text.length && ESCAPABLE.includes(text[i + 1])) {
+      buffer += text[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (ch === "\n") {
+      flush();
+      nodes.push({ type: "break" });
+      i++;
+      continue;
+    }
+
+    if (ch === "`") {
+      let run = 1;
+      while (text[i + run] === "`") run++;
+      const fence = "`".repeat(run);
+      const close = text.indexOf(fence, i + run);
+      if (close !== -1) {
+        flush();
+        const code = text.slice(i + run, close);
+        nodes.push({ type: "code", text: /^ .* $/.test(code) ? code.slice(1, -1) : code });
+        i = close + run;
+      } else {
+        buffer += fence;
+        i += run;
+      }
+      continue;
+    }
+
+    const double = text.slice(i, i + 2);
+    if (double === "**" || double === "__" || double === "~~") {
+      const close = findClosing(text, double, i + 2);
+      if (close !== -1 && !/\s/.test(text[i + 2]) && !(double === "__" && isWordChar(text[i - 1]))) {
+        flush();
+        nodes.push({
+          type: double === "~~" ? "del" : "strong",
+          children: parseInline(text.slice(i + 2, close)),
+        });
+        i = close + 2;
+        continue;
+      }
+    }
+
+    if ((ch === "*" || ch === "_") && text[i + 1] !== ch) {
+      const close = findClosing(text, ch, i + 1);
+      if (close !== -1 && !/\s/.test(text[i + 1] ?? " ") && !(ch === "_" && isWordChar(text[i - 1]))) {
+        flush();
+        nodes.push({ type: "em", children: parseInline(text.slice(i + 1, close)) });
+        i = close + 1;
+        continue;
+      }
+    }
+
+    if (ch === "[") {
+      const link = parseLink(text, i);
+      if (link) {
+        flush();
+        const children = parseInline(link.label);
+        if (SAFE_HREF.test(link.href)) {
+          nodes.push({ type: "link", href: link.href, children });
+        } else {
+          nodes.push(...children);
+        }
+        i = link.end;
+        continue;
+      }
+    }
+
+    // {漢字|かんじ} annotates the base text with its reading (furigana, pinyin, ...)
+    if (ch === "{") {
+      const ruby = text.slice(i).match(/^\{([^{}|\n]+)\|([^{}\n]+)\}/);
+      if (ruby) {
+        flush();
+        nodes.push({ type: "ruby", base: ruby[1], annotation: ruby[2] });
+        i += ruby[0].length;
+        continue;
+      }
+    }
+
+    if (ch === "<") {
+      const lineBreak = text.slice(i).match(/^<br\s*\/?>/i);
+      if (lineBreak) {
+        flush();
+        nodes.push({ type: "break" });
+        i += lineBreak[0].length;
+        continue;
+      }
+      const ruby = text.slice(i).match(/^<ruby>(.*?)<\/ruby>/);
+      const parsed = ruby && parseHtmlRuby(ruby[1]);
+      if (ruby && parsed) {
+        flush();
+        nodes.push(...parsed);
+        i += ruby[0].length;
+        continue;
+      }
+    }
+
+    buffer += ch;
+    i++;
+  }
+
+  flush();
+  return nodes;
+}
+
+function inlineText(nodes: InlineNode[]): string {
+  return nodes
+    .map((node) => {
+      switch (node.type) {
+        case "text":
+        case "code":
+          return node.text;
+        case "ruby":
+          return node.base;
+        case "break":
+          return " ";
+        default:
+          return inlineText(node.children);
+      }
+    })
+    .join("");
+}
+
+function blockText(block: BlockNode): string {
+  switch (block.type) {
+    case "paragraph":
+    case "heading":
+      return inlineText(block.children);
+    case "code":
+      return block.text;
+    case "list":
+      return block.items.map((item) => item.map(blockText).join("\n")).join("\n");
+    case "blockquote":
+      return block.children.map(blockText).join("\n");
+    case "table":
+      return [block.header, ...block.rows].map((row) => row.map(inlineText).join(" ")).join("\n");
+    case "rule":
+      return "";
+  }
+}
+
+// The readable text of a message, with markup removed and ruby reduced to its base
+export function markdownToPlainText(source: string): string {
+  return parseMarkdown(source).map(blockText).filter(Boolean).join("\n");
+}
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function inlineHtml(nodes: InlineNode[]): string {
+  return nodes
+    .map((node) => {
+      switch (node.type) {
+        case "text":
+          return escapeHtml(node.text);
+        case "strong":
+          return `<strong>${inlineHtml(node.children)}</strong>`;
+        case "em":
+          return `<em>${inlineHtml(node.children)}</em>`;
+        case "del":
+          return `<del>${inlineHtml(node.children)}</del>`;
+        case "code":
+          return `<code>${escapeHtml(node.text)}</code>`;
+        case "link":
+          return `<a href="${escapeHtml(node.href)}">${inlineHtml(node.children)}</a>`;
+        case "ruby":
+          return `<ruby>${escapeHtml(node.base)}<rp>(</rp><rt>${escapeHtml(node.annotation)}</rt><rp>)</rp></ruby>`;
+        case "break":
+          return "<br>";
+      }
+    })
+    .join("");
+}
+
+function blockHtml(block: BlockNode): string {
+  switch (block.type) {
+    case "paragraph":
+      return `<p>${inlineHtml(block.children)}</p>`;
+    case "heading":
+      return `<h${block.level}>${inlineHtml(block.children)}</h${block.level}>`;
+    case "code":
+      return `<pre><code>${escapeHtml(block.text)}</code></pre>`;
+    case "list": {
+      const items = block.items.map((item) => `<li>${item.map(blockHtml).join("")}</li>`).join("");
+      return block.ordered ? `<ol start="${block.start}">${items}</ol>` : `<ul>${items}</ul>`;
+    }
+    case "blockquote":
+      return `<blockquote>${block.children.map(blockHtml).join("")}</blockquote>`;
+    case "table": {
+      const cell = (tag: string, nodes: InlineNode[], i: number) =>
+        `<${tag}${block.align[i] ? ` style="text-align:${block.align[i]}"` : ""}>${inlineHtml(nodes)}</${tag}>`;
+      const header = `<tr>${block.header.map((nodes, i) => cell("th", nodes, i)).join("")}</tr>`;
+      const rows = block.rows.map((row) => `<tr>${row.map((nodes, i) => cell("td", nodes, i)).join("")}</tr>`).join("");
+      return `<table><thead>${header}</thead><tbody>${rows}</tbody></table>`;
+    }
+    case "rule":
+      return "<hr>";
+  }
+}
+
+// Static HTML for exports, built from the same parse as the chat bubbles so text is always escaped
+export function markdownToHtml(source: string): string {
+  return parseMarkdown(source).map(blockHtml).join("\n");
+}
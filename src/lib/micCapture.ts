@@ -0,0 +1,165 @@
+// Microphone capture on an AudioWorklet: the audio thread resamples the mic to 16 kHz Int16
+// and posts fixed-size frames, so React re-renders on the main thread can't drop samples.
+
+export const CAPTURE_SAMPLE_RATE = 16000;
+// 200 ms per frame keeps live streaming at five requests a second
+export const CAPTURE_FRAME_SAMPLES = 3200;
+// The anti-alias filter ahead of the worklet: an 8th-order Butterworth low-pass just under
+// the 8 kHz Nyquist limit, so sibilants above it are cut instead of folding back into speech
+const ANTI_ALIAS_CUTOFF_HZ = 7000;
+const ANTI_ALIAS_ORDER = 8;
+// How long `stop` waits for the worklet to hand over the last partial frame
+const FLUSH_TIMEOUT_MS = 500;
+
+const PROCESSOR_NAME = "pcm-capture";
+
+// Runs in the AudioWorkletGlobalScope, where `sampleRate` is the context's rate. The input is
+// already low-passed, so linear interpolation only has to carry the read position across
+// 128-sample render quanta.
+const PROCESSOR_SOURCE = `
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { targetSampleRate, frameSamples } = options.processorOptions;
+    this.step = sampleRate / targetSampleRate;
+    this.frameSamples = frameSamples;
+    this.frame = new Int16Array(frameSamples);
+    this.filled = 0;
+    this.position = 0;
+    this.previous = 0;
+    this.port.onmessage = () => {
+      const rest = this.frame.slice(0, this.filled);
+      this.filled = 0;
+      this.port.postMessage({ type: "flushed", buffer: rest.buffer }, [rest.buffer]);
+    };
+  }
+
+  push(sample) {
+    const s = Math.max(-1, Math.min(1, sample));
+    this.frame[this.filled++] = s < 0 ? s * 0x8000 : s * 0x7fff;
+    if (this.filled === this.frameSamples) {
+      const buffer = this.frame.buffer;
+      this.port.postMessage({ type: "frame", buffer }, [buffer]);
+      this.frame = new Int16Array(this.frameSamples);
+      this.filled = 0;
+    }
+  }
+
+  process(inputs) {
+    const input = inputs[0] && inputs[0][0];
+    if (!input || input.length === 0) return true;
+    // position -1 is the last sample of the previous quantum
+    const last = input.length - 1;
+    while (this.position <= last) {
+      const index = Math.floor(this.position);
+      const fraction = this.position - index;
+      const a = index < 0 ? this.previous : input[index];
+      const b = fraction === 0 ? a : input[index + 1];
+      this.push(a + (b - a) * fraction);
+      this.position += this.step;
+    }
+    this.position -= input.length;
+    this.previous = input[last];
+    return true;
+  }
+}
+registerProcessor("${PROCESSOR_NAME}", PcmCaptureProcessor);
+`;
+
+// Cascaded biquads forming a Butterworth low-pass. Web Audio reads a low-pass Q in dB.
+function createAntiAliasFilter(audioContext: AudioContext): BiquadFilterNode[] {
+  const stages = Array.from({ length: ANTI_ALIAS_ORDER / 2 }, (_, k) => {
+    const filter = audioContext.createBiquadFilter();
+    filter.type = "lowpass";
+    filter.frequency.value = ANTI_ALIAS_CUTOFF_HZ;
+    const q = 1 / (2 * Math.cos(((2 * k + 1) * Math.PI) / (2 * ANTI_ALIAS_ORDER)));
+    filter.Q.value = 20 * Math.log10(q);
+    return filter;
+  });
+  stages.slice(1).forEach((stage, index) => stages[index].connect(stage));
+  return stages;
+}
+
+type ProcessorMessage = { type: "frame" | "flushed"; buffer: ArrayBuffer };
+
+export interface MicCaptureOptions {
+  // Called on the main thread with each CAPTURE_FRAME_SAMPLES-long frame, and once more
+  // with the shorter remainder when capture stops
+  onFrame: (frame: Int16Array) => void;
+}
+
+export interface MicCapture {
+  // Taps the raw mic signal for level meters and waveforms
+  analyser: AnalyserNode;
+  // Delivers the remaining samples, then releases the mic and the audio context
+  stop: () => Promise<void>;
+}
+
+// Asks for the mic and starts framing; rejects if permission is denied or AudioWorklet is unavailable
+export async function startMicCapture({ onFrame }: MicCaptureOptions): Promise<MicCapture> {
+  const stream = await navigator.mediaDevices.getUserMedia({
+    audio: {
+      channelCount: 1,
+      echoCancellation: true,
+      noiseSuppression: true,
+    },
+  });
+
+  // The context runs at the device rate; forcing 16 kHz here fails in some browsers
+  // once a mic stream at another rate is connected
+  const audioContext = new AudioContext();
+  try {
+    const moduleUrl = URL.createObjectURL(new Blob([PROCESSOR_SOURCE], { type: "text/javascript" }));
+    try {
+      await audioContext.audioWorklet.addModule(moduleUrl);
+    } finally {
+      URL.revokeObjectURL(moduleUrl);
+    }
+
+    const source = audioContext.createMediaStreamSource(stream);
+    const analyser = audioContext.createAnalyser();
+    analyser.fftSize = 64;
+    source.connect(analyser);
+
+    const worklet = new AudioWorkletNode(audioContext, PROCESSOR_NAME, {
+      numberOfInputs: 1,
+      numberOfOutputs: 0,
+      channelCount: 1,
+      channelCountMode: "explicit",
+      processorOptions: { targetSampleRate: CAPTURE_SAMPLE_RATE, frameSamples: CAPTURE_FRAME_SAMPLES },
+    });
+    let resolveFlush: (() => void) | null = null;
+    worklet.port.onmessage = (event: MessageEvent<ProcessorMessage>) => {
+      const frame = new Int16Array(event.data.buffer);
+      if (frame.length) onFrame(frame);
+      if (event.data.type === "flushed") resolveFlush?.();
+    };
+    const antiAlias = createAntiAliasFilter(audioContext);
+    source.connect(antiAlias[0]);
+    antiAlias[antiAlias.length - 1].connect(worklet);
+
+    let stopped = false;
+    const stop = async () => {
+      if (stopped) return;
+      stopped = true;
+      await new Promise<void>(resolve => {
+        resolveFlush = resolve;
+        worklet.port.postMessage("flush");
+        setTimeout(resolve, FLUSH_TIMEOUT_MS);
+      });
+      worklet.port.onmessage = null;
+      source.disconnect();
+      antiAlias.forEach(stage => stage.disconnect());
+      worklet.disconnect();
+      analyser.disconnect();
+      stream.getTracks().forEach(track => track.stop());
+      await audioContext.close();
+    };
+
+    return { analyser, stop };
+  } catch (error) {
+    stream.getTracks().forEach(track => track.stop());
+    await audioContext.close();
+    throw error;
+  }
+}
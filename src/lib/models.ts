@@ -0,0 +1,40 @@
+// Gemini models the server may call, per job. The first entry of each list is the default;
+// a deployment overrides it through the env var and a request may pick any listed model.
+export type ModelRole = "text" | "live" | "tts";
+
+export interface ModelInfo {
+  id: string;
+  label: string;
+}
+
+export const MODEL_REGISTRY: Record<ModelRole, ModelInfo[]> = {
+  text: [
+    { id: "gemini-3-flash-preview", label: "Gemini 3 Flash" },
+    { id: "gemini-2.5-flash", label: "Gemini 2.5 Flash" },
+    { id: "gemini-2.5-pro", label: "Gemini 2.5 Pro" },
+  ],
+  live: [
+    { id: "gemini-2.5-flash-native-audio-preview-12-2025", label: "Gemini 2.5 Flash Native Audio" },
+  ],
+  tts: [
+    { id: "gemini-2.5-flash-preview-tts", label: "Gemini 2.5 Flash TTS" },
+    { id: "gemini-2.5-pro-preview-tts", label: "Gemini 2.5 Pro TTS" },
+  ],
+};
+
+const MODEL_ENV: Record<ModelRole, string> = {
+  text: "GEMINI_TEXT_MODEL",
+  live: "GEMINI_LIVE_MODEL",
+  tts: "GEMINI_TTS_MODEL",
+};
+
+export function isSupportedModel(role: ModelRole, id: unknown): id is string {
+  return typeof id === "string" && MODEL_REGISTRY[role].some(model => model.id === id);
+}
+
+// A requested model must be in the registry; the env var is trusted as-is so a deployment
+// can try a model before it is listed here
+export function resolveModel(role: ModelRole, requested?: string): string {
+  if (requested && isSupportedModel(role, requested)) return requested;
+  return process.env[MODEL_ENV[role]] || MODEL_REGISTRY[role][0].id;
+}
@@ -0,0 +1,57 @@
+import { describe, expect, test } from "bun:test";
+import { arrayBufferToBase64, base64ToFloat32, concatInt16, float32ToInt16, float32ToWav } from "./pcm";
+
+describe("float32ToInt16", () => {
+  test("scales to the full Int16 range", () => {
+    expect(Array.from(float32ToInt16(new Float32Array([0, 1, -1, 0.5, -0.5])))).toEqual([0, 32767, -32768, 16383, -16384]);
+  });
+
+  test("clips samples outside [-1, 1]", () => {
+    expect(Array.from(float32ToInt16(new Float32Array([2, -3])))).toEqual([32767, -32768]);
+  });
+});
+
+describe("arrayBufferToBase64", () => {
+  test("matches Buffer's encoding", () => {
+    const bytes = new Uint8Array([0, 1, 127, 128, 255]);
+    expect(arrayBufferToBase64(bytes.buffer)).toBe(Buffer.from(bytes).toString("base64"));
+  });
+
+  test("encodes an empty buffer as an empty string", () => {
+    expect(arrayBufferToBase64(new ArrayBuffer(0))).toBe("");
+  });
+});
+
+describe("base64ToFloat32", () => {
+  test("decodes little-endian Int16 PCM", () => {
+    const pcm = Buffer.from(new Int16Array([0, 16384, -32768]).buffer).toString("base64");
+    expect(Array.from(base64ToFloat32(pcm))).toEqual([0, 0.5, -1]);
+  });
+
+  // Encoding scales positives by 0x7fff and truncates, decoding divides by 0x8000
+  test("round-trips through float32ToInt16 within two quantization steps", () => {
+    const samples = new Float32Array([0.25, -0.75, 0.999, -0.001]);
+    const decoded = base64ToFloat32(arrayBufferToBase64(float32ToInt16(samples).buffer as ArrayBuffer));
+    decoded.forEach((value, i) => expect(Math.abs(value - samples[i])).toBeLessThan(2 / 32768));
+  });
+});
+
+describe("concatInt16", () => {
+  test("joins frames in order", () => {
+    const joined = concatInt16([new Int16Array([1, 2]), new Int16Array([]), new Int16Array([3])]);
+    expect(Array.from(joined)).toEqual([1, 2, 3]);
+  });
+});
+
+describe("float32ToWav", () => {
+  test("writes a mono 16-bit WAV header in front of the samples", () => {
+    const samples = new Float32Array([0, 0.5, -0.5, 1]);
+    const wav = float32ToWav(samples, 24000);
+    const view = new DataView(wav);
+
+    expect(new TextDecoder().decode(wav.slice(0, 4))).toBe("RIFF");
+    expect(view.getUint32(24, true)).toBe(24000);
+    expect(view.getUint32(40, true)).toBe(samples.length * 2);
+    expect(Array.from(new Int16Array(wav, 44))).toEqual(Array.from(float32ToInt16(samples)));
+  });
+});
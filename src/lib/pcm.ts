@@ -0,0 +1,56 @@
+import { pcm16ToWav } from "./wav";
+
+// Browser-side PCM conversions for the mic capture and playback paths
+
+// Convert Float32Array PCM to Int16Array PCM
+export function float32ToInt16(float32Array: Float32Array): Int16Array {
+  const int16Array = new Int16Array(float32Array.length);
+  for (let i = 0; i < float32Array.length; i++) {
+    const s = Math.max(-1, Math.min(1, float32Array[i]));
+    int16Array[i] = s < 0 ? s * 0x8000 : s * 0x7fff;
+  }
+  return int16Array;
+}
+
+// Join capture frames into one continuous Int16 buffer
+export function concatInt16(frames: Int16Array[]): Int16Array<ArrayBuffer> {
+  const combined = new Int16Array(frames.reduce((sum, frame) => sum + frame.length, 0));
+  let offset = 0;
+  for (const frame of frames) {
+    combined.set(frame, offset);
+    offset += frame.length;
+  }
+  return combined;
+}
+
+// Convert ArrayBuffer to base64
+export function arrayBufferToBase64(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer);
+  let binary = "";
+  for (let i = 0; i < bytes.byteLength; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+// Convert base64 to Float32Array PCM (from Int16 PCM)
+export function base64ToFloat32(base64: string): Float32Array<ArrayBuffer> {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  const int16 = new Int16Array(bytes.buffer);
+  const float32 = new Float32Array(int16.length);
+  for (let i = 0; i < int16.length; i++) {
+    float32[i] = int16[i] / 32768.0;
+  }
+  return float32;
+}
+
+// Wrap Float32Array PCM in a mono 16-bit WAV file, for playback through an <audio> element.
+// Typed arrays are little-endian on every platform browsers run on, as WAV expects.
+export function float32ToWav(samples: Float32Array, sampleRate: number): ArrayBuffer {
+  const pcm = float32ToInt16(samples);
+  return pcm16ToWav(new Uint8Array(pcm.buffer, pcm.byteOffset, pcm.byteLength), sampleRate).buffer;
+}
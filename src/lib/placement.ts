@@ -0,0 +1,25 @@
+import { Type, type Schema } from "@google/genai";
+import { CEFR_LEVELS, isCefrLevel } from "./proficiency";
+import type { PlacementResult } from "./types";
+
+export const PLACEMENT_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    level: { type: Type.STRING, enum: [...CEFR_LEVELS], description: "Estimated CEFR level." },
+    rationale: {
+      type: Type.STRING,
+      description: "Two sentences explaining the estimate, in the learner's native language.",
+    },
+  },
+  required: ["level", "rationale"],
+  propertyOrdering: ["level", "rationale"],
+};
+
+// An unreadable estimate falls back to the lowest level rather than failing the test
+export function parsePlacementResult(raw: string): PlacementResult {
+  const parsed = JSON.parse(raw);
+  return {
+    level: isCefrLevel(parsed.level) ? parsed.level : "A1",
+    rationale: typeof parsed.rationale === "string" ? parsed.rationale : "",
+  };
+}
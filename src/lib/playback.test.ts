@@ -0,0 +1,167 @@
+import { afterEach, beforeEach, describe, expect, mock, spyOn, test } from "bun:test";
+import { createPlaybackManager, type PlaybackState } from "./playback";
+import { arrayBufferToBase64 } from "./pcm";
+
+interface FakeSource {
+  start: ReturnType<typeof mock>;
+  stop: ReturnType<typeof mock>;
+  connect: () => void;
+  onended: (() => void) | null;
+}
+
+let sources: FakeSource[] = [];
+let contexts: FakeAudioContext[] = [];
+
+// Just enough of Web Audio for scheduling; happy-dom has none
+class FakeAudioContext {
+  state: AudioContextState = "running";
+  currentTime = 0;
+  destination = {};
+  constructor() {
+    contexts.push(this);
+  }
+  createBuffer(_channels: number, length: number, sampleRate: number) {
+    return { duration: length / sampleRate, copyToChannel() {} };
+  }
+  createBufferSource() {
+    const source: FakeSource = { start: mock(), stop: mock(), connect() {}, onended: null };
+    sources.push(source);
+    return source as unknown as AudioBufferSourceNode;
+  }
+  async resume() {
+    this.state = "running";
+  }
+  async suspend() {
+    this.state = "suspended";
+  }
+  async close() {
+    this.state = "closed";
+  }
+}
+
+function chunk(values: number[]): string {
+  return arrayBufferToBase64(new Int16Array(values).buffer as ArrayBuffer);
+}
+
+let elements: HTMLAudioElement[] = [];
+
+beforeEach(() => {
+  sources = [];
+  contexts = [];
+  elements = [];
+  globalThis.AudioContext = FakeAudioContext as unknown as typeof AudioContext;
+  spyOn(HTMLMediaElement.prototype, "play").mockImplementation(function (this: HTMLAudioElement) {
+    elements.push(this);
+    return Promise.resolve();
+  });
+});
+
+afterEach(() => {
+  mock.restore();
+  Reflect.deleteProperty(globalThis, "AudioContext");
+});
+
+describe("live replies", () => {
+  test("schedules chunks back to back and keeps them for the message", () => {
+    const player = createPlaybackManager();
+    const states: PlaybackState[] = [];
+    player.subscribe(state => states.push(state));
+
+    player.appendStream("m1", chunk([16384, 16384]), 2);
+    player.appendStream("m1", chunk([-16384]), 2);
+
+    expect(sources.map(source => source.start.mock.calls[0][0])).toEqual([0, 1]);
+    expect(player.getState()).toMatchObject({ status: "playing", messageId: "m1", live: true });
+    expect(states).toHaveLength(1);
+
+    const finished = player.finishStream();
+    expect(finished?.messageId).toBe("m1");
+    expect(finished?.audio.sampleRate).toBe(2);
+    expect(Array.from(finished!.audio.samples)).toEqual([0.5, 0.5, -0.5]);
+    expect(player.finishStream()).toBeNull();
+
+    sources.forEach(source => source.onended?.());
+    expect(player.getState().status).toBe("idle");
+  });
+
+  test("stop silences the rest of the reply but still keeps it", () => {
+    const player = createPlaybackManager();
+    player.appendStream("m1", chunk([100]), 24000);
+    player.stop();
+    player.appendStream("m1", chunk([200]), 24000);
+
+    expect(sources).toHaveLength(1);
+    expect(sources[0].stop).toHaveBeenCalled();
+    expect(player.getState().status).toBe("idle");
+    expect(player.finishStream()?.audio.samples).toHaveLength(2);
+  });
+
+  test("pause suspends the audio context until resumed", () => {
+    const player = createPlaybackManager();
+    player.appendStream("m1", chunk([100]), 24000);
+
+    player.pause();
+    expect(contexts[0].state).toBe("suspended");
+    expect(player.getState().status).toBe("paused");
+
+    player.resume();
+    expect(contexts[0].state).toBe("running");
+    expect(player.getState().status).toBe("playing");
+  });
+});
+
+describe("replays", () => {
+  const audio = { sampleRate: 24000, samples: new Float32Array([0, 0.25, -0.25]) };
+
+  test("play at the chosen speed with the pitch preserved", () => {
+    const player = createPlaybackManager();
+    player.setRate(0.75);
+    player.play(audio, "m1");
+
+    expect(elements).toHaveLength(1);
+    expect(elements[0].playbackRate).toBe(0.75);
+    expect(elements[0].preservesPitch).toBe(true);
+    expect(player.getState()).toMatchObject({ status: "playing", messageId: "m1", live: false, rate: 0.75 });
+
+    player.setRate(0.5);
+    expect(elements[0].playbackRate).toBe(0.5);
+  });
+
+  test("pause, resume and end", () => {
+    const player = createPlaybackManager();
+    const pause = spyOn(HTMLMediaElement.prototype, "pause");
+    player.play(audio, "m1");
+
+    player.pause();
+    expect(pause).toHaveBeenCalledTimes(1);
+    expect(player.getState().status).toBe("paused");
+
+    player.resume();
+    expect(elements).toHaveLength(2);
+    expect(player.getState().status).toBe("playing");
+
+    elements[0].onended?.(new Event("ended"));
+    expect(player.getState()).toMatchObject({ status: "idle", messageId: null });
+  });
+
+  test("replacing a live reply silences the rest of it", () => {
+    const player = createPlaybackManager();
+    player.appendStream("live", chunk([100]), 24000);
+    player.play(audio, "m1");
+    player.appendStream("live", chunk([200]), 24000);
+
+    expect(sources).toHaveLength(1);
+    expect(player.getState().messageId).toBe("m1");
+    expect(player.finishStream()?.audio.samples).toHaveLength(2);
+  });
+
+  test("live audio takes over from a replay", () => {
+    const player = createPlaybackManager();
+    player.play(audio, "m1");
+    player.finishStream();
+    player.appendStream("live", chunk([100]), 24000);
+
+    expect(sources).toHaveLength(1);
+    expect(player.getState()).toMatchObject({ status: "playing", messageId: "live", live: true });
+  });
+});
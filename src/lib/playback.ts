@@ -0,0 +1,211 @@
+import { base64ToFloat32, float32ToWav } from "./pcm";
+import type { MessageAudio } from "./types";
+
+// One place that owns every sound the tutor makes. Live replies are scheduled chunk by chunk on
+// Web Audio for low latency and collected per message; replays go through an <audio> element,
+// which can pause, seek and slow down with the pitch preserved.
+
+export const PLAYBACK_RATES = [1, 0.75, 0.5] as const;
+export type PlaybackRate = (typeof PLAYBACK_RATES)[number];
+
+export interface PlaybackState {
+  status: "idle" | "playing" | "paused";
+  // Message whose audio is playing; null for clips such as drill references
+  messageId: string | null;
+  // Audio streaming in from the live session, as opposed to a replay
+  live: boolean;
+  // Applies to replays; live audio always plays at normal speed
+  rate: PlaybackRate;
+}
+
+export interface PlaybackManager {
+  getState: () => PlaybackState;
+  subscribe: (listener: (state: PlaybackState) => void) => () => void;
+  // Creates or resumes the audio context; call from a user gesture so browsers allow sound later
+  unlock: () => Promise<void>;
+  // Plays one base64 Int16 chunk of a live reply right after the previous one and keeps it
+  appendStream: (messageId: string, base64: string, sampleRate: number) => void;
+  // Ends the live reply and returns its audio for attaching to the message
+  finishStream: () => { messageId: string; audio: MessageAudio } | null;
+  play: (audio: MessageAudio, messageId?: string | null) => void;
+  pause: () => void;
+  resume: () => void;
+  // Stops everything; the rest of a live reply still arrives and is kept, but stays silent
+  stop: () => void;
+  setRate: (rate: PlaybackRate) => void;
+  close: () => void;
+}
+
+interface LiveStream {
+  messageId: string;
+  sampleRate: number;
+  chunks: Float32Array<ArrayBuffer>[];
+  // Set once the learner stopped or replaced this reply's playback
+  silenced: boolean;
+}
+
+function concatChunks(chunks: Float32Array<ArrayBuffer>[]): Float32Array<ArrayBuffer> {
+  const samples = new Float32Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    samples.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return samples;
+}
+
+export function createPlaybackManager(): PlaybackManager {
+  let state: PlaybackState = { status: "idle", messageId: null, live: false, rate: 1 };
+  const listeners = new Set<(state: PlaybackState) => void>();
+  let context: AudioContext | null = null;
+  let sources: AudioBufferSourceNode[] = [];
+  let nextStartTime = 0;
+  let stream: LiveStream | null = null;
+  let element: HTMLAudioElement | null = null;
+  let elementUrl: string | null = null;
+
+  const update = (patch: Partial<PlaybackState>) => {
+    state = { ...state, ...patch };
+    listeners.forEach(listener => listener(state));
+  };
+
+  // One context for the whole session; buffers at other rates are resampled by the browser
+  const ensureContext = () => {
+    if (!context || context.state === "closed") {
+      context = new AudioContext();
+      nextStartTime = 0;
+    }
+    return context;
+  };
+
+  const stopSources = () => {
+    for (const source of sources) {
+      source.onended = null;
+      source.stop();
+    }
+    sources = [];
+    nextStartTime = 0;
+    // A paused context would swallow the next live reply
+    if (context?.state === "suspended") void context.resume();
+  };
+
+  const stopElement = () => {
+    if (!element) return;
+    element.onended = null;
+    element.pause();
+    element = null;
+    if (elementUrl) URL.revokeObjectURL(elementUrl);
+    elementUrl = null;
+  };
+
+  const toIdle = () => update({ status: "idle", messageId: null, live: false });
+
+  return {
+    getState: () => state,
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+
+    async unlock() {
+      await ensureContext().resume();
+    },
+
+    appendStream(messageId, base64, sampleRate) {
+      if (stream?.messageId !== messageId) {
+        stream = { messageId, sampleRate, chunks: [], silenced: false };
+      }
+      const samples = base64ToFloat32(base64);
+      stream.chunks.push(samples);
+      if (stream.silenced || !samples.length) return;
+
+      // The tutor speaking now takes over from a replay
+      if (element) stopElement();
+      const ctx = ensureContext();
+      const buffer = ctx.createBuffer(1, samples.length, sampleRate);
+      buffer.copyToChannel(samples, 0);
+      const source = ctx.createBufferSource();
+      source.buffer = buffer;
+      source.connect(ctx.destination);
+
+      const startAt = Math.max(ctx.currentTime, nextStartTime);
+      source.start(startAt);
+      nextStartTime = startAt + buffer.duration;
+      sources.push(source);
+      source.onended = () => {
+        sources = sources.filter(s => s !== source);
+        if (!sources.length && state.live) toIdle();
+      };
+
+      if (!state.live || state.messageId !== messageId) {
+        update({ status: "playing", messageId, live: true });
+      }
+    },
+
+    finishStream() {
+      if (!stream) return null;
+      const { messageId, sampleRate, chunks } = stream;
+      stream = null;
+      const samples = concatChunks(chunks);
+      return samples.length ? { messageId, audio: { sampleRate, samples } } : null;
+    },
+
+    play(audio, messageId = null) {
+      stopSources();
+      stopElement();
+      if (stream) stream.silenced = true;
+
+      elementUrl = URL.createObjectURL(new Blob([float32ToWav(audio.samples, audio.sampleRate)], { type: "audio/wav" }));
+      const audioElement = new Audio(elementUrl);
+      audioElement.preservesPitch = true;
+      audioElement.playbackRate = state.rate;
+      audioElement.onended = () => {
+        stopElement();
+        toIdle();
+      };
+      element = audioElement;
+      update({ status: "playing", messageId, live: false });
+      audioElement.play().catch(() => {
+        if (element !== audioElement) return;
+        stopElement();
+        toIdle();
+      });
+    },
+
+    pause() {
+      if (state.status !== "playing") return;
+      if (element) element.pause();
+      else void context?.suspend();
+      update({ status: "paused" });
+    },
+
+    resume() {
+      if (state.status !== "paused") return;
+      if (element) void element.play();
+      else void context?.resume();
+      update({ status: "playing" });
+    },
+
+    stop() {
+      stopSources();
+      stopElement();
+      if (stream) stream.silenced = true;
+      if (state.status !== "idle") toIdle();
+    },
+
+    setRate(rate) {
+      if (element) element.playbackRate = rate;
+      update({ rate });
+    },
+
+    close() {
+      stopSources();
+      stopElement();
+      stream = null;
+      void context?.close();
+      context = null;
+      toIdle();
+    },
+  };
+}
@@ -0,0 +1,35 @@
+import { STORES, withStore } from "./db";
+
+// Append-only record of what the learner practised, behind the progress dashboard
+export type PracticeEvent = {
+  id: string;
+  targetLanguage: string;
+  at: number;
+} & (
+  // One learner message; `corrected` is null when nobody checked it (live voice turns)
+  | { kind: "message"; corrected: boolean | null }
+  // Seconds of the learner's recorded voice in one recording
+  | { kind: "speech"; seconds: number }
+);
+
+function createEventId(): string {
+  return `evt-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+async function record(event: PracticeEvent): Promise<void> {
+  await withStore(STORES.practiceEvents, "readwrite", store => store.put(event));
+}
+
+export function recordMessage(targetLanguage: string, corrected: boolean | null): Promise<void> {
+  return record({ id: createEventId(), targetLanguage, at: Date.now(), kind: "message", corrected });
+}
+
+export function recordSpeech(targetLanguage: string, seconds: number): Promise<void> {
+  return record({ id: createEventId(), targetLanguage, at: Date.now(), kind: "speech", seconds });
+}
+
+// Every language, oldest first
+export async function listPracticeEvents(): Promise<PracticeEvent[]> {
+  const events = await withStore<PracticeEvent[]>(STORES.practiceEvents, "readonly", store => store.getAll());
+  return events.sort((a, b) => a.at - b.at);
+}
@@ -0,0 +1,60 @@
+export const CEFR_LEVELS = ["A1", "A2", "B1", "B2", "C1", "C2"] as const;
+
+export type CefrLevel = (typeof CEFR_LEVELS)[number];
+
+export function isCefrLevel(value: unknown): value is CefrLevel {
+  return typeof value === "string" && (CEFR_LEVELS as readonly string[]).includes(value);
+}
+
+export interface LevelSetting {
+  level: CefrLevel;
+  // Who set the current level
+  source: "manual" | "placement" | "auto";
+  // Corrections per learner message since the level was last set, newest last
+  recentCorrections: number[];
+  updatedAt: number;
+}
+
+export const LEVELS_STORAGE_KEY = "proficiency_levels";
+
+export function getStoredLevels(): Record<string, LevelSetting> {
+  if (typeof window === "undefined") return {};
+  try {
+    const parsed = JSON.parse(localStorage.getItem(LEVELS_STORAGE_KEY) || "{}");
+    return Object.fromEntries(
+      Object.entries(parsed).filter(([, setting]) => isCefrLevel((setting as LevelSetting)?.level))
+    ) as Record<string, LevelSetting>;
+  } catch {
+    return {};
+  }
+}
+
+export function storeLevels(levels: Record<string, LevelSetting>) {
+  localStorage.setItem(LEVELS_STORAGE_KEY, JSON.stringify(levels));
+}
+
+export function createLevelSetting(level: CefrLevel, source: LevelSetting["source"]): LevelSetting {
+  return { level, source, recentCorrections: [], updatedAt: Date.now() };
+}
+
+// Auto-adjustment looks at this many recent messages, and waits for at least MIN of them
+const ADJUST_WINDOW = 20;
+const ADJUST_MIN_MESSAGES = 10;
+// Share of messages needing a correction below which the learner moves up, above which down
+const LEVEL_UP_ERROR_RATE = 0.15;
+const LEVEL_DOWN_ERROR_RATE = 0.6;
+
+// Records how many corrections one learner message needed and moves the level one step when
+// the recent error rate is clearly too low or too high. The window restarts after every change.
+export function recordCorrections(setting: LevelSetting, corrections: number): LevelSetting {
+  const recentCorrections = [...setting.recentCorrections, corrections].slice(-ADJUST_WINDOW);
+  const updated = { ...setting, recentCorrections };
+  if (recentCorrections.length < ADJUST_MIN_MESSAGES) return updated;
+
+  const errorRate = recentCorrections.filter(count => count > 0).length / recentCorrections.length;
+  const index = CEFR_LEVELS.indexOf(setting.level);
+  const step = errorRate < LEVEL_UP_ERROR_RATE ? 1 : errorRate > LEVEL_DOWN_ERROR_RATE ? -1 : 0;
+  const next = CEFR_LEVELS[index + step];
+  if (!step || !next) return updated;
+  return createLevelSetting(next, "auto");
+}
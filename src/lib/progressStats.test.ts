@@ -0,0 +1,84 @@
+import { describe, expect, test } from "bun:test";
+import type { PracticeEvent } from "./practiceLog";
+import { correctionTrend, dayKey, messagesByLanguage, practiceStreak, recentDays, spokenMinutes, vocabularyGrowth } from "./progressStats";
+
+// Noon on 10 March 2025, local time
+const NOW = new Date(2025, 2, 10, 12).getTime();
+
+function daysAgo(days: number, hour = 9): number {
+  return new Date(2025, 2, 10 - days, hour).getTime();
+}
+
+function message(at: number, corrected: boolean | null = false, targetLanguage = "English"): PracticeEvent {
+  return { id: `m${at}`, targetLanguage, at, kind: "message", corrected };
+}
+
+function speech(at: number, seconds: number): PracticeEvent {
+  return { id: `s${at}`, targetLanguage: "English", at, kind: "speech", seconds };
+}
+
+describe("recentDays", () => {
+  test("lists local days up to today, oldest first", () => {
+    expect(recentDays(NOW, 3)).toEqual(["2025-03-08", "2025-03-09", "2025-03-10"]);
+    expect(dayKey(daysAgo(10))).toBe("2025-02-28");
+  });
+});
+
+describe("practiceStreak", () => {
+  test("counts consecutive days ending today", () => {
+    const events = [message(daysAgo(0)), message(daysAgo(1)), message(daysAgo(1, 20)), message(daysAgo(2)), message(daysAgo(5))];
+    expect(practiceStreak(events, NOW)).toEqual({ current: 3, longest: 3 });
+  });
+
+  test("keeps yesterday's streak alive until today is over", () => {
+    expect(practiceStreak([message(daysAgo(1)), message(daysAgo(2))], NOW).current).toBe(2);
+  });
+
+  test("breaks after a missed day but remembers the longest run", () => {
+    const events = [message(daysAgo(2)), ...[6, 7, 8, 9].map(days => message(daysAgo(days)))];
+    expect(practiceStreak(events, NOW)).toEqual({ current: 0, longest: 4 });
+  });
+
+  test("is zero without practice", () => {
+    expect(practiceStreak([], NOW)).toEqual({ current: 0, longest: 0 });
+  });
+});
+
+describe("spokenMinutes", () => {
+  test("sums recorded seconds, optionally since a time", () => {
+    const events = [speech(daysAgo(8), 120), speech(daysAgo(1), 45), speech(daysAgo(0), 15), message(daysAgo(0))];
+    expect(spokenMinutes(events)).toBe(3);
+    expect(spokenMinutes(events, daysAgo(7))).toBe(1);
+  });
+});
+
+describe("messagesByLanguage", () => {
+  test("counts learner messages per language, most first", () => {
+    const events = [message(1, false, "French"), message(2, false, "English"), message(3, null, "French"), speech(4, 10)];
+    expect(messagesByLanguage(events)).toEqual([
+      { language: "French", count: 2 },
+      { language: "English", count: 1 },
+    ]);
+  });
+});
+
+describe("correctionTrend", () => {
+  test("tallies checked and corrected messages per day, skipping unchecked ones", () => {
+    const events = [message(daysAgo(2), true), message(daysAgo(0), true), message(daysAgo(0), false), message(daysAgo(0), null), message(daysAgo(9), true)];
+    expect(correctionTrend(events, NOW, 3)).toEqual([
+      { day: "2025-03-08", checked: 1, corrected: 1 },
+      { day: "2025-03-09", checked: 0, corrected: 0 },
+      { day: "2025-03-10", checked: 2, corrected: 1 },
+    ]);
+  });
+});
+
+describe("vocabularyGrowth", () => {
+  test("reports the deck size at the end of each day, including older cards", () => {
+    expect(vocabularyGrowth([daysAgo(10), daysAgo(1), daysAgo(1, 23), daysAgo(0)], NOW, 3)).toEqual([
+      { day: "2025-03-08", total: 1 },
+      { day: "2025-03-09", total: 3 },
+      { day: "2025-03-10", total: 4 },
+    ]);
+  });
+});
@@ -0,0 +1,88 @@
+import type { PracticeEvent } from "./practiceLog";
+
+// Dashboard numbers derived from the practice log. Days are the learner's local calendar days,
+// so a streak follows their own midnight.
+
+export interface DayCorrections {
+  day: string;
+  // Learner messages the tutor checked that day, and how many needed a correction
+  checked: number;
+  corrected: number;
+}
+
+export function dayKey(time: number): string {
+  const date = new Date(time);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+}
+
+// Shifting the calendar date (not adding 24 h) keeps days right across DST changes
+function shiftDay(time: number, days: number): number {
+  const date = new Date(time);
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days).getTime();
+}
+
+// The last `count` days up to today, oldest first
+export function recentDays(now: number, count: number): string[] {
+  return Array.from({ length: count }, (_, i) => dayKey(shiftDay(now, i - count + 1)));
+}
+
+// A day without practice yet doesn't break the streak until it is over
+export function practiceStreak(events: PracticeEvent[], now: number): { current: number; longest: number } {
+  const days = new Set(events.map(event => dayKey(event.at)));
+
+  let current = 0;
+  let offset = days.has(dayKey(now)) ? 0 : -1;
+  while (days.has(dayKey(shiftDay(now, offset)))) {
+    current++;
+    offset--;
+  }
+
+  let longest = 0;
+  let run = 0;
+  let previous: number | null = null;
+  for (const time of [...new Set(events.map(event => shiftDay(event.at, 0)))].sort((a, b) => a - b)) {
+    run = previous !== null && dayKey(shiftDay(previous, 1)) === dayKey(time) ? run + 1 : 1;
+    longest = Math.max(longest, run);
+    previous = time;
+  }
+
+  return { current, longest };
+}
+
+export function spokenMinutes(events: PracticeEvent[], since = 0): number {
+  const seconds = events.reduce((total, event) => (event.kind === "speech" && event.at >= since ? total + event.seconds : total), 0);
+  return seconds / 60;
+}
+
+// Most practised language first
+export function messagesByLanguage(events: PracticeEvent[]): { language: string; count: number }[] {
+  const counts = new Map<string, number>();
+  for (const event of events) {
+    if (event.kind === "message") counts.set(event.targetLanguage, (counts.get(event.targetLanguage) ?? 0) + 1);
+  }
+  return [...counts].map(([language, count]) => ({ language, count })).sort((a, b) => b.count - a.count);
+}
+
+export function correctionTrend(events: PracticeEvent[], now: number, days: number): DayCorrections[] {
+  const trend = recentDays(now, days).map(day => ({ day, checked: 0, corrected: 0 }));
+  const byDay = new Map(trend.map(entry => [entry.day, entry]));
+  for (const event of events) {
+    if (event.kind !== "message" || event.corrected === null) continue;
+    const entry = byDay.get(dayKey(event.at));
+    if (!entry) continue;
+    entry.checked++;
+    if (event.corrected) entry.corrected++;
+  }
+  return trend;
+}
+
+// Size of the vocabulary deck at the end of each of the last `days` days
+export function vocabularyGrowth(createdAt: number[], now: number, days: number): { day: string; total: number }[] {
+  const sorted = [...createdAt].sort((a, b) => a - b);
+  let index = 0;
+  return recentDays(now, days).map((day, i) => {
+    const endOfDay = shiftDay(now, i - days + 2);
+    while (index < sorted.length && sorted[index] < endOfDay) index++;
+    return { day, total: index };
+  });
+}
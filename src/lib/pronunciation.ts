@@ -0,0 +1,86 @@
+import { Type, type Schema } from "@google/genai";
+import type { PronunciationWord } from "./types";
+
+export interface PronunciationAssessment {
+  overallScore: number;
+  feedback: string;
+  words: Omit<PronunciationWord, "referenceAudio">[];
+}
+
+// Words scoring below this get a model-voiced reference of their own
+export const WEAK_WORD_SCORE = 80;
+
+export const PRONUNCIATION_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    overallScore: { type: Type.INTEGER, description: "Overall pronunciation score, 0-100." },
+    feedback: {
+      type: Type.STRING,
+      description: "Two or three sentences of encouraging feedback, in the learner's native language.",
+    },
+    words: {
+      type: Type.ARRAY,
+      description: "Every word of the target sentence, in order.",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          word: { type: Type.STRING, description: "The word exactly as written in the target sentence." },
+          score: { type: Type.INTEGER, description: "How accurately it was pronounced, 0-100. 0 if it was skipped." },
+          heard: { type: Type.STRING, description: "What the learner actually said, if different; otherwise empty." },
+          phonemes: {
+            type: Type.ARRAY,
+            description: "Mispronounced sounds only, in IPA.",
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                expected: { type: Type.STRING },
+                heard: { type: Type.STRING },
+              },
+              required: ["expected", "heard"],
+              propertyOrdering: ["expected", "heard"],
+            },
+          },
+          tip: {
+            type: Type.STRING,
+            description: "A short articulation tip in the learner's native language; empty if the word was fine.",
+          },
+        },
+        required: ["word", "score", "heard", "phonemes", "tip"],
+        propertyOrdering: ["word", "score", "heard", "phonemes", "tip"],
+      },
+    },
+  },
+  required: ["overallScore", "feedback", "words"],
+  propertyOrdering: ["overallScore", "feedback", "words"],
+};
+
+function clampScore(value: unknown): number {
+  const score = typeof value === "number" ? value : Number(value);
+  return Number.isFinite(score) ? Math.max(0, Math.min(100, Math.round(score))) : 0;
+}
+
+function asString(value: unknown): string {
+  return typeof value === "string" ? value : "";
+}
+
+export function parsePronunciationAssessment(raw: string): PronunciationAssessment {
+  const parsed = JSON.parse(raw);
+  const words = Array.isArray(parsed.words) ? parsed.words : [];
+  return {
+    overallScore: clampScore(parsed.overallScore),
+    feedback: asString(parsed.feedback),
+    words: words
+      .filter((w: { word?: unknown }) => typeof w?.word === "string" && w.word)
+      .map((w: Record<string, unknown>) => ({
+        word: w.word as string,
+        score: clampScore(w.score),
+        heard: asString(w.heard),
+        phonemes: Array.isArray(w.phonemes)
+          ? w.phonemes
+              .filter((p: { expected?: unknown }) => typeof p?.expected === "string")
+              .map((p: { expected: string; heard?: unknown }) => ({ expected: p.expected, heard: asString(p.heard) }))
+          : [],
+        tip: asString(w.tip),
+      })),
+  };
+}
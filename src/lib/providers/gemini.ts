@@ -0,0 +1,158 @@
+import { ApiError, FinishReason, GoogleGenAI, Modality, type GenerateContentResponse, type LiveServerMessage } from "@google/genai";
+import { ProviderHttpError, SafetyBlockedError, type GenerateOptions, type LiveEvent, type LlmProvider } from "./types";
+
+// Finish reasons that mean a filter cut the reply off rather than the model finishing it
+const BLOCKED_FINISH_REASONS = new Set<string>([
+  FinishReason.SAFETY,
+  FinishReason.BLOCKLIST,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.SPII,
+]);
+
+function generateConfig({ systemInstruction, responseSchema, signal }: GenerateOptions) {
+  return {
+    systemInstruction,
+    ...(responseSchema ? { responseMimeType: "application/json", responseSchema } : {}),
+    abortSignal: signal,
+  };
+}
+
+function assertNotBlocked(response: GenerateContentResponse) {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) throw new SafetyBlockedError(blockReason);
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (finishReason && BLOCKED_FINISH_REASONS.has(finishReason)) throw new SafetyBlockedError(finishReason);
+}
+
+// The SDK's ApiError carries the HTTP status; on 429 the body holds RetryInfo such as "retryDelay": "37s"
+function toProviderError(error: unknown): unknown {
+  if (!(error instanceof ApiError)) return error;
+  const delay = error.message.match(/"retryDelay":\s*"(\d+(?:\.\d+)?)s"/);
+  return new ProviderHttpError(error.message, error.status, delay ? Math.ceil(Number(delay[1])) : undefined);
+}
+
+async function call<T>(request: () => Promise<T>): Promise<T> {
+  try {
+    return await request();
+  } catch (error) {
+    throw toProviderError(error);
+  }
+}
+
+function toLiveEvents(message: LiveServerMessage): LiveEvent[] {
+  const content = message.serverContent;
+  if (!content) return [];
+
+  const events: LiveEvent[] = [];
+  if (content.interrupted) {
+    events.push({ type: "interrupted" });
+  }
+  if (content.modelTurn?.parts) {
+    for (const part of content.modelTurn.parts) {
+      if (part.inlineData?.data) {
+        events.push({ type: "audio", data: part.inlineData.data });
+      }
+    }
+  }
+  // Transcripts arrive as incremental fragments, independent of audio ordering
+  if (content.inputTranscription?.text) {
+    events.push({ type: "inputTranscript", text: content.inputTranscription.text });
+  }
+  if (content.outputTranscription?.text) {
+    events.push({ type: "outputTranscript", text: content.outputTranscription.text });
+  }
+  if (content.turnComplete) {
+    events.push({ type: "turnComplete" });
+  }
+  return events;
+}
+
+export function createGeminiProvider(apiKey: string): LlmProvider {
+  const ai = new GoogleGenAI({ apiKey });
+
+  return {
+    name: "gemini",
+
+    async generate(options) {
+      const response = await call(() =>
+        ai.models.generateContent({
+          model: options.model,
+          contents: options.contents,
+          config: generateConfig(options),
+        })
+      );
+      assertNotBlocked(response);
+      return response.text || "";
+    },
+
+    async generateStream(options) {
+      const chunks = await call(() =>
+        ai.models.generateContentStream({
+          model: options.model,
+          contents: options.contents,
+          config: generateConfig(options),
+        })
+      );
+      return (async function* () {
+        try {
+          for await (const chunk of chunks) {
+            assertNotBlocked(chunk);
+            if (chunk.text) yield chunk.text;
+          }
+        } catch (error) {
+          throw toProviderError(error);
+        }
+      })();
+    },
+
+    async synthesizeSpeech({ model, prompt, voiceName }) {
+      const response = await call(() =>
+        ai.models.generateContent({
+          model,
+          contents: [{ role: "user", parts: [{ text: prompt }] }],
+          config: {
+            responseModalities: [Modality.AUDIO],
+            speechConfig: {
+              voiceConfig: { prebuiltVoiceConfig: { voiceName } },
+            },
+          },
+        })
+      );
+      assertNotBlocked(response);
+
+      const data = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData?.data)?.inlineData?.data;
+      if (!data) {
+        throw new Error("TTS returned no audio");
+      }
+      return data;
+    },
+
+    async connectLive({ model, systemInstruction, onEvent }) {
+      const session = await ai.live.connect({
+        model,
+        config: {
+          responseModalities: [Modality.AUDIO],
+          systemInstruction,
+          inputAudioTranscription: {},
+          outputAudioTranscription: {},
+        },
+        callbacks: {
+          onmessage: (message) => toLiveEvents(message).forEach(onEvent),
+          onerror: (e) => onEvent({ type: "error", message: e.message }),
+          onclose: () => onEvent({ type: "closed" }),
+        },
+      });
+
+      return {
+        sendAudio: (data) => session.sendRealtimeInput({ audio: { data, mimeType: "audio/pcm;rate=16000" } }),
+        endAudio: () => session.sendRealtimeInput({ audioStreamEnd: true }),
+        close: () => session.close(),
+      };
+    },
+
+    async verifyKey(model) {
+      // Looking up a model checks the key without spending any tokens
+      await call(() => ai.models.get({ model }));
+    },
+  };
+}
@@ -0,0 +1,43 @@
+import { createGeminiProvider } from "./gemini";
+import { createMockProvider } from "./mock";
+import { createOpenAiProvider } from "./openai";
+import { withRetries } from "./retrying";
+import type { LlmProvider, ProviderName } from "./types";
+
+export type { ContentMessage, ContentPart, LiveConnection, LiveEvent, LlmProvider, ProviderName } from "./types";
+export { ProviderHttpError, ProviderUnsupportedError, SafetyBlockedError } from "./types";
+
+// LLM_PROVIDER picks the backend for every route; unknown values fall back to Gemini
+export function selectedProvider(): ProviderName {
+  const name = process.env.LLM_PROVIDER?.trim().toLowerCase();
+  return name === "mock" || name === "openai" ? name : "gemini";
+}
+
+function createProvider(apiKey: string): LlmProvider {
+  switch (selectedProvider()) {
+    case "mock":
+      return createMockProvider();
+    case "openai":
+      return createOpenAiProvider(apiKey);
+    default:
+      return createGeminiProvider(apiKey);
+  }
+}
+
+// Transient failures are retried with backoff before a route sees them
+export function getProvider(apiKey: string): LlmProvider {
+  return withRetries(createProvider(apiKey));
+}
+
+// Key used when the learner hasn't saved their own, or null if the server has none
+export function serverApiKey(): string | null {
+  switch (selectedProvider()) {
+    case "mock":
+      return "mock";
+    case "openai":
+      // Local OpenAI-compatible servers such as Ollama take no key at all
+      return process.env.OPENAI_API_KEY ?? "";
+    default:
+      return process.env.GEMINI_API_KEY || null;
+  }
+}
@@ -0,0 +1,102 @@
+import { Type, type Schema } from "@google/genai";
+import type { ContentMessage, GenerateOptions, LiveEvent, LlmProvider } from "./types";
+
+// Offline stand-in for development and end-to-end tests. Every answer is derived from the
+// request alone, so the same input always produces the same output.
+
+const MOCK_PREFIX = "[mock]";
+const STREAM_CHUNK_LENGTH = 12;
+// Matches TTS_SAMPLE_RATE and LIVE_OUTPUT_SAMPLE_RATE
+const OUTPUT_SAMPLE_RATE = 24000;
+
+function lastUserInput(contents: ContentMessage[]): string {
+  const last = [...contents].reverse().find(message => message.role === "user");
+  if (!last) return "";
+  if (last.parts.some(part => "inlineData" in part)) return "audio";
+  return last.parts.map(part => ("text" in part ? part.text : "")).join(" ").trim().slice(0, 80);
+}
+
+// Fills a response schema: strings echo the input, enums take their first value, arrays stay empty
+function sampleFromSchema(schema: Schema, text: string): unknown {
+  switch (schema.type) {
+    case Type.OBJECT:
+      return Object.fromEntries(
+        Object.entries(schema.properties ?? {}).map(([key, property]) => [key, sampleFromSchema(property, text)])
+      );
+    case Type.ARRAY:
+      return [];
+    case Type.INTEGER:
+    case Type.NUMBER:
+      return 75;
+    case Type.BOOLEAN:
+      return true;
+    default:
+      return schema.enum?.[0] ?? text;
+  }
+}
+
+function mockReply(options: GenerateOptions): string {
+  const text = `${MOCK_PREFIX} ${lastUserInput(options.contents)}`;
+  return options.responseSchema ? JSON.stringify(sampleFromSchema(options.responseSchema, text)) : text;
+}
+
+// A quiet 440 Hz tone, as base64 16-bit PCM
+function toneBase64(seconds: number): string {
+  const samples = new Int16Array(Math.round(seconds * OUTPUT_SAMPLE_RATE));
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = Math.round(Math.sin((2 * Math.PI * 440 * i) / OUTPUT_SAMPLE_RATE) * 3000);
+  }
+  return Buffer.from(samples.buffer).toString("base64");
+}
+
+export function createMockProvider(): LlmProvider {
+  return {
+    name: "mock",
+
+    async generate(options) {
+      return mockReply(options);
+    },
+
+    async generateStream(options) {
+      const reply = mockReply(options);
+      return (async function* () {
+        for (let i = 0; i < reply.length; i += STREAM_CHUNK_LENGTH) {
+          if (options.signal?.aborted) return;
+          yield reply.slice(i, i + STREAM_CHUNK_LENGTH);
+        }
+      })();
+    },
+
+    async synthesizeSpeech({ prompt }) {
+      return toneBase64(Math.min(3, 0.3 + prompt.length * 0.02));
+    },
+
+    // Each utterance (audio frames followed by endAudio) gets one scripted tutor turn
+    async connectLive({ onEvent }) {
+      let frames = 0;
+      let closed = false;
+      const emit = (event: LiveEvent) => setTimeout(() => !closed && onEvent(event), 0);
+
+      return {
+        sendAudio: () => {
+          frames++;
+        },
+        endAudio: () => {
+          if (!frames) return;
+          emit({ type: "inputTranscript", text: `${MOCK_PREFIX} ${frames} audio frames` });
+          emit({ type: "outputTranscript", text: `${MOCK_PREFIX} reply` });
+          emit({ type: "audio", data: toneBase64(0.5) });
+          emit({ type: "turnComplete" });
+          frames = 0;
+        },
+        close: () => {
+          if (closed) return;
+          onEvent({ type: "closed" });
+          closed = true;
+        },
+      };
+    },
+
+    async verifyKey() {},
+  };
+}
@@ -0,0 +1,23 @@
+import { afterEach, describe, expect, mock, spyOn, test } from "bun:test";
+import { createOpenAiProvider } from "./openai";
+import { ProviderHttpError } from "./types";
+
+afterEach(() => {
+  mock.restore();
+});
+
+describe("createOpenAiProvider", () => {
+  test("reads a Retry-After header given as an HTTP date", async () => {
+    const retryAt = new Date(Date.now() + 30_000).toUTCString();
+    spyOn(globalThis, "fetch").mockResolvedValue(new Response("slow down", { status: 429, headers: { "Retry-After": retryAt } }));
+
+    const error = await createOpenAiProvider("sk-test")
+      .generate({ model: "gemini-2.5-flash", contents: [{ role: "user", parts: [{ text: "halo" }] }] })
+      .catch(caught => caught);
+
+    expect(error).toBeInstanceOf(ProviderHttpError);
+    expect(error.status).toBe(429);
+    expect(error.retryAfter).toBeGreaterThan(25);
+    expect(error.retryAfter).toBeLessThanOrEqual(30);
+  });
+});
@@ -0,0 +1,140 @@
+import type { Schema } from "@google/genai";
+import { parseRetryAfter } from "../retry";
+import { ProviderHttpError, ProviderUnsupportedError, type ContentMessage, type GenerateOptions, type LlmProvider } from "./types";
+
+// Chat completions against any OpenAI-compatible endpoint (OpenAI, Ollama, vLLM, ...).
+// Text only: live audio and TTS need the Gemini provider.
+
+const DEFAULT_BASE_URL = "https://api.openai.com/v1";
+const DEFAULT_MODEL = "gpt-4o-mini";
+
+interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string | ({ type: "text"; text: string } | { type: "input_audio"; input_audio: { data: string; format: string } })[];
+}
+
+function baseUrl(): string {
+  return (process.env.OPENAI_BASE_URL || DEFAULT_BASE_URL).replace(/\/+$/, "");
+}
+
+function toChatMessages({ systemInstruction, contents }: { systemInstruction?: string; contents: ContentMessage[] }): ChatMessage[] {
+  const messages: ChatMessage[] = systemInstruction ? [{ role: "system", content: systemInstruction }] : [];
+  for (const message of contents) {
+    messages.push({
+      role: message.role === "model" ? "assistant" : "user",
+      content: message.parts.map(part =>
+        "text" in part
+          ? { type: "text" as const, text: part.text }
+          : { type: "input_audio" as const, input_audio: { data: part.inlineData.data, format: part.inlineData.mimeType.split("/")[1] } }
+      ),
+    });
+  }
+  return messages;
+}
+
+// Gemini schemas use upper-case type names and `propertyOrdering`; JSON Schema wants neither
+function toJsonSchema(schema: Schema): Record<string, unknown> {
+  const { type, properties, items, required, enum: values, description } = schema;
+  return {
+    ...(type ? { type: type.toLowerCase() } : {}),
+    ...(description ? { description } : {}),
+    ...(values ? { enum: values } : {}),
+    ...(properties
+      ? {
+          properties: Object.fromEntries(Object.entries(properties).map(([key, value]) => [key, toJsonSchema(value)])),
+          additionalProperties: false,
+        }
+      : {}),
+    ...(required ? { required } : {}),
+    ...(items ? { items: toJsonSchema(items) } : {}),
+  };
+}
+
+export function createOpenAiProvider(apiKey: string): LlmProvider {
+  // The Gemini model ids from the registry mean nothing here; the deployment names its model
+  const model = process.env.OPENAI_MODEL || DEFAULT_MODEL;
+
+  const request = async (path: string, init: RequestInit = {}) => {
+    const response = await fetch(`${baseUrl()}${path}`, {
+      ...init,
+      headers: {
+        "Content-Type": "application/json",
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+    });
+    if (response.status === 401) {
+      throw new ProviderHttpError("API key rejected by the OpenAI-compatible endpoint", 401);
+    }
+    if (!response.ok) {
+      const retryAfter = parseRetryAfter(response.headers.get("retry-after"));
+      throw new ProviderHttpError(
+        `OpenAI-compatible endpoint returned ${response.status}: ${(await response.text()).slice(0, 200)}`,
+        response.status,
+        retryAfter ?? undefined
+      );
+    }
+    return response;
+  };
+
+  const completion = (options: GenerateOptions, stream: boolean) =>
+    request("/chat/completions", {
+      method: "POST",
+      body: JSON.stringify({
+        model,
+        messages: toChatMessages(options),
+        stream,
+        ...(options.responseSchema
+          ? { response_format: { type: "json_schema", json_schema: { name: "response", strict: true, schema: toJsonSchema(options.responseSchema) } } }
+          : {}),
+      }),
+      signal: options.signal,
+    });
+
+  return {
+    name: "openai",
+
+    async generate(options) {
+      const data = await (await completion(options, false)).json();
+      return data.choices?.[0]?.message?.content ?? "";
+    },
+
+    async generateStream(options) {
+      const response = await completion(options, true);
+      return (async function* () {
+        if (!response.body) return;
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = "";
+        try {
+          while (true) {
+            const { value, done } = await reader.read();
+            if (done) return;
+            buffer += decoder.decode(value, { stream: true });
+            const lines = buffer.split("\n");
+            buffer = lines.pop() ?? "";
+            for (const line of lines) {
+              const data = line.startsWith("data:") ? line.slice(5).trim() : "";
+              if (!data || data === "[DONE]") continue;
+              const delta = JSON.parse(data).choices?.[0]?.delta?.content;
+              if (delta) yield delta as string;
+            }
+          }
+        } finally {
+          reader.releaseLock();
+        }
+      })();
+    },
+
+    async synthesizeSpeech() {
+      throw new ProviderUnsupportedError("openai", "Speech synthesis");
+    },
+
+    async connectLive() {
+      throw new ProviderUnsupportedError("openai", "Live audio");
+    },
+
+    async verifyKey() {
+      await request("/models");
+    },
+  };
+}
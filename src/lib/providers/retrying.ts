@@ -0,0 +1,54 @@
+import { geminiErrorPayload, isTransientError } from "../apiErrors";
+import { backoffDelay, sleep } from "../retry";
+import type { LlmProvider } from "./types";
+
+// Repeats provider calls that failed for a passing reason (overload, timeouts, dropped
+// connections, short rate limits) before the route reports the error.
+
+const MAX_ATTEMPTS = 3;
+const BASE_DELAY_MS = 500;
+const MAX_DELAY_MS = 4000;
+// A 429 asking for a longer wait is passed on to the client as Retry-After instead
+const MAX_RETRY_AFTER_SECONDS = 4;
+
+export interface RetryOptions {
+  baseDelayMs?: number;
+}
+
+// Milliseconds to wait before the next attempt, or null if this failure shouldn't be retried
+function retryDelay(error: unknown, attempt: number, baseDelayMs: number): number | null {
+  const { payload } = geminiErrorPayload(error);
+  if (!isTransientError(payload.code)) return null;
+  if (payload.retryAfter !== undefined) {
+    return payload.retryAfter <= MAX_RETRY_AFTER_SECONDS ? payload.retryAfter * 1000 : null;
+  }
+  return backoffDelay(attempt, baseDelayMs, MAX_DELAY_MS);
+}
+
+export async function withRetry<T>(
+  request: () => Promise<T>,
+  signal?: AbortSignal,
+  { baseDelayMs = BASE_DELAY_MS }: RetryOptions = {}
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await request();
+    } catch (error) {
+      const delay = attempt < MAX_ATTEMPTS && !signal?.aborted ? retryDelay(error, attempt, baseDelayMs) : null;
+      if (delay === null) throw error;
+      await sleep(delay, signal);
+    }
+  }
+}
+
+// Streams are only retried until they are accepted; a reply that breaks midway has already
+// been partly sent to the learner. Live sessions and key checks pass through unchanged.
+export function withRetries(provider: LlmProvider, options?: RetryOptions): LlmProvider {
+  return {
+    ...provider,
+    generate: (generateOptions) => withRetry(() => provider.generate(generateOptions), generateOptions.signal, options),
+    generateStream: (generateOptions) =>
+      withRetry(() => provider.generateStream(generateOptions), generateOptions.signal, options),
+    synthesizeSpeech: (speechOptions) => withRetry(() => provider.synthesizeSpeech(speechOptions), undefined, options),
+  };
+}
@@ -0,0 +1,95 @@
+import type { Schema } from "@google/genai";
+
+export type ProviderName = "gemini" | "mock" | "openai";
+
+export type ContentPart =
+  | { text: string }
+  | { inlineData: { mimeType: string; data: string } };
+
+export interface ContentMessage {
+  role: "user" | "model";
+  parts: ContentPart[];
+}
+
+export interface GenerateOptions {
+  model: string;
+  contents: ContentMessage[];
+  systemInstruction?: string;
+  // Constrains the reply to JSON matching this schema
+  responseSchema?: Schema;
+  signal?: AbortSignal;
+}
+
+export interface SpeechOptions {
+  model: string;
+  // Full TTS prompt, including any delivery instructions
+  prompt: string;
+  voiceName: string;
+}
+
+// Normalized events of a live audio session, forwarded to the browser as-is
+export type LiveEvent =
+  | { type: "audio"; data: string }
+  | { type: "inputTranscript"; text: string }
+  | { type: "outputTranscript"; text: string }
+  | { type: "interrupted" }
+  | { type: "turnComplete" }
+  | { type: "error"; message: string }
+  | { type: "closed" };
+
+export interface LiveConnectOptions {
+  model: string;
+  systemInstruction: string;
+  // Called for every event, including the final "closed"
+  onEvent: (event: LiveEvent) => void;
+}
+
+export interface LiveConnection {
+  // 16 kHz Int16 PCM, base64
+  sendAudio: (data: string) => void;
+  endAudio: () => void;
+  close: () => void;
+}
+
+// Everything the API routes need from a model backend
+export interface LlmProvider {
+  name: ProviderName;
+  generate: (options: GenerateOptions) => Promise<string>;
+  // Resolves once the request is accepted, so auth errors surface before streaming starts
+  generateStream: (options: GenerateOptions) => Promise<AsyncIterable<string>>;
+  // Resolves to base64 16-bit PCM at TTS_SAMPLE_RATE
+  synthesizeSpeech: (options: SpeechOptions) => Promise<string>;
+  // Resolves once the session is ready; audio comes back at LIVE_OUTPUT_SAMPLE_RATE
+  connectLive: (options: LiveConnectOptions) => Promise<LiveConnection>;
+  // Throws if the key is rejected
+  verifyKey: (model: string) => Promise<void>;
+}
+
+// Thrown for features a backend doesn't offer (e.g. live audio over an OpenAI-compatible API)
+export class ProviderUnsupportedError extends Error {
+  constructor(provider: ProviderName, feature: string) {
+    super(`${feature} is not supported by the ${provider} provider`);
+    this.name = "ProviderUnsupportedError";
+  }
+}
+
+// Thrown when the backend answers with an HTTP error status
+export class ProviderHttpError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    // Seconds the backend asked us to wait, from Retry-After or Gemini's RetryInfo
+    readonly retryAfter?: number
+  ) {
+    super(message);
+    this.name = "ProviderHttpError";
+  }
+}
+
+// Thrown when the model refuses to answer because of its safety filters
+export class SafetyBlockedError extends Error {
+  constructor(reason: string) {
+    super(`Response blocked by safety filters: ${reason}`);
+    this.name = "SafetyBlockedError";
+  }
+}
@@ -0,0 +1,79 @@
+// Daily usage limits for callers running on the server's own Gemini key.
+// Counters are kept in memory, like live sessions, and reset at midnight UTC.
+
+export interface QuotaUsage {
+  requests: number;
+  audioSeconds: number;
+}
+
+export type QuotaExceededCode = "QUOTA_REQUESTS_EXCEEDED" | "QUOTA_AUDIO_EXCEEDED";
+
+interface QuotaEntry extends QuotaUsage {
+  day: string;
+}
+
+const DEFAULT_DAILY_REQUESTS = 200;
+const DEFAULT_DAILY_AUDIO_SECONDS = 30 * 60;
+
+const globalStore = globalThis as typeof globalThis & {
+  __quotaUsage?: Map<string, QuotaEntry>;
+};
+const usage = globalStore.__quotaUsage ?? new Map<string, QuotaEntry>();
+globalStore.__quotaUsage = usage;
+
+function envLimit(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+export function quotaLimits(): QuotaUsage {
+  return {
+    requests: envLimit("QUOTA_DAILY_REQUESTS", DEFAULT_DAILY_REQUESTS),
+    audioSeconds: envLimit("QUOTA_DAILY_AUDIO_SECONDS", DEFAULT_DAILY_AUDIO_SECONDS),
+  };
+}
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+function entryFor(subject: string): QuotaEntry {
+  const day = today();
+  let entry = usage.get(subject);
+  if (!entry || entry.day !== day) {
+    entry = { day, requests: 0, audioSeconds: 0 };
+    usage.set(subject, entry);
+  }
+  return entry;
+}
+
+export function getQuotaUsage(subject: string): QuotaUsage {
+  const { requests, audioSeconds } = entryFor(subject);
+  return { requests, audioSeconds };
+}
+
+// Charges `amount` to the subject unless it would go over a limit, in which case nothing is charged
+export function consumeQuota(subject: string, amount: Partial<QuotaUsage>): QuotaExceededCode | null {
+  const entry = entryFor(subject);
+  const limits = quotaLimits();
+  const requests = amount.requests ?? 0;
+  const audioSeconds = amount.audioSeconds ?? 0;
+
+  if (requests && entry.requests + requests > limits.requests) {
+    return "QUOTA_REQUESTS_EXCEEDED";
+  }
+  if (audioSeconds && entry.audioSeconds + audioSeconds > limits.audioSeconds) {
+    return "QUOTA_AUDIO_EXCEEDED";
+  }
+
+  entry.requests += requests;
+  entry.audioSeconds += audioSeconds;
+  return null;
+}
+
+// Duration of base64-encoded 16-bit mono PCM
+export function pcmSeconds(base64: string, sampleRate = 16000): number {
+  const padding = base64.endsWith("==") ? 2 : base64.endsWith("=") ? 1 : 0;
+  const bytes = (base64.length * 3) / 4 - padding;
+  return bytes / 2 / sampleRate;
+}
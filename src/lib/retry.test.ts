@@ -0,0 +1,50 @@
+import { afterEach, describe, expect, mock, spyOn, test } from "bun:test";
+import { backoffDelay, fetchWithRetry, parseRetryAfter } from "./retry";
+
+afterEach(() => {
+  mock.restore();
+});
+
+describe("backoffDelay", () => {
+  test("doubles the ceiling each attempt up to the maximum", () => {
+    const top = () => 1;
+    expect([1, 2, 3, 4, 5].map(attempt => backoffDelay(attempt, 500, 4000, top))).toEqual([500, 1000, 2000, 4000, 4000]);
+    expect(backoffDelay(3, 500, 4000, () => 0.25)).toBe(500);
+  });
+});
+
+describe("parseRetryAfter", () => {
+  test("reads seconds or an HTTP date", () => {
+    const now = Date.parse("2025-03-10T09:00:00Z");
+    expect(parseRetryAfter("12")).toBe(12);
+    expect(parseRetryAfter("Mon, 10 Mar 2025 09:00:30 GMT", now)).toBe(30);
+    expect(parseRetryAfter("Mon, 10 Mar 2025 08:00:00 GMT", now)).toBe(0);
+    expect(parseRetryAfter(null)).toBeNull();
+    expect(parseRetryAfter("soon")).toBeNull();
+  });
+});
+
+describe("fetchWithRetry", () => {
+  test("waits out a short Retry-After and repeats the request", async () => {
+    const fetchMock = spyOn(globalThis, "fetch")
+      .mockResolvedValueOnce(Response.json({ code: "UPSTREAM_RATE_LIMITED" }, { status: 429, headers: { "Retry-After": "0" } }))
+      .mockResolvedValueOnce(Response.json({ ok: true }));
+    const onRetry = mock(() => {});
+
+    const response = await fetchWithRetry("/api/gemini/tts", { method: "POST" }, { onRetry });
+
+    expect(response.status).toBe(200);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(onRetry).toHaveBeenCalledWith(0, 1);
+  });
+
+  test("returns failures without a usable Retry-After straight away", async () => {
+    const fetchMock = spyOn(globalThis, "fetch")
+      .mockResolvedValueOnce(Response.json({ code: "QUOTA_REQUESTS_EXCEEDED" }, { status: 429 }))
+      .mockResolvedValueOnce(Response.json({ code: "UPSTREAM_RATE_LIMITED" }, { status: 429, headers: { "Retry-After": "60" } }));
+
+    expect((await fetchWithRetry("/api/gemini")).status).toBe(429);
+    expect((await fetchWithRetry("/api/gemini")).status).toBe(429);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,61 @@
+// Waiting between attempts, shared by the server's provider retries and the browser's fetches
+
+// Exponential backoff with full jitter: a random wait up to base·2^(attempt-1), capped at max
+export function backoffDelay(attempt: number, baseMs: number, maxMs: number, random = Math.random): number {
+  return Math.round(random() * Math.min(maxMs, baseMs * 2 ** (attempt - 1)));
+}
+
+// Seconds from a Retry-After header, which holds either a number of seconds or an HTTP date
+export function parseRetryAfter(header: string | null, now = Date.now()): number | null {
+  if (!header?.trim()) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return seconds >= 0 ? seconds : null;
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, Math.ceil((date - now) / 1000));
+}
+
+// Resolves after `ms`, or rejects with the signal's reason as soon as it aborts
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+export interface FetchRetryOptions {
+  maxAttempts?: number;
+  // A longer Retry-After is handed back to the caller instead of waited out
+  maxWaitSeconds?: number;
+  onRetry?: (waitSeconds: number, attempt: number) => void;
+}
+
+// Repeats a request the server answered with a short Retry-After (rate limits, overload).
+// Failures without the header, such as the daily quota, come back unchanged.
+export async function fetchWithRetry(
+  input: RequestInfo | URL,
+  init: RequestInit = {},
+  { maxAttempts = 3, maxWaitSeconds = 20, onRetry }: FetchRetryOptions = {}
+): Promise<Response> {
+  for (let attempt = 1; ; attempt++) {
+    const response = await fetch(input, init);
+    if (response.ok || attempt >= maxAttempts) return response;
+
+    const wait = parseRetryAfter(response.headers.get("Retry-After"));
+    if (wait === null || wait > maxWaitSeconds) return response;
+
+    await response.body?.cancel();
+    onRetry?.(wait, attempt);
+    await sleep(wait * 1000, init.signal ?? undefined);
+  }
+}
@@ -0,0 +1,55 @@
+import { Type, type Schema } from "@google/genai";
+import type { Scenario } from "./scenarios";
+import type { ScenarioReport } from "./types";
+
+export const SCENARIO_REPORT_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    goals: {
+      type: Type.ARRAY,
+      description: "One entry per scenario goal, in the order given.",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          goalId: { type: Type.STRING, description: "The goal's id exactly as given." },
+          met: { type: Type.BOOLEAN, description: "Whether the learner clearly achieved this goal." },
+          evidence: {
+            type: Type.STRING,
+            description: "Quote the learner's line that achieved it, or briefly say what was missing, in the learner's native language.",
+          },
+        },
+        required: ["goalId", "met", "evidence"],
+        propertyOrdering: ["goalId", "met", "evidence"],
+      },
+    },
+    summary: {
+      type: Type.STRING,
+      description: "Two or three sentences on how the role-play went, in the learner's native language.",
+    },
+    nextSteps: {
+      type: Type.STRING,
+      description: "One concrete thing to practise next, in the learner's native language.",
+    },
+  },
+  required: ["goals", "summary", "nextSteps"],
+  propertyOrdering: ["goals", "summary", "nextSteps"],
+};
+
+// Every scenario goal gets exactly one entry; goals the model skipped count as not met
+export function parseScenarioReport(raw: string, scenario: Scenario): ScenarioReport {
+  const parsed = JSON.parse(raw);
+  const entries: { goalId?: unknown; met?: unknown; evidence?: unknown }[] = Array.isArray(parsed.goals) ? parsed.goals : [];
+  return {
+    scenarioId: scenario.id,
+    goals: scenario.goals.map(goal => {
+      const entry = entries.find(e => e?.goalId === goal.id);
+      return {
+        goalId: goal.id,
+        met: entry?.met === true,
+        evidence: typeof entry?.evidence === "string" ? entry.evidence : "",
+      };
+    }),
+    summary: typeof parsed.summary === "string" ? parsed.summary : "",
+    nextSteps: typeof parsed.nextSteps === "string" ? parsed.nextSteps : "",
+  };
+}
@@ -0,0 +1,125 @@
+import type { Locale } from "./i18n";
+import type { CefrLevel } from "./proficiency";
+
+type LocalizedText = Record<Locale, string>;
+
+export interface ScenarioGoal {
+  id: string;
+  text: LocalizedText;
+}
+
+// A role-play lesson. `persona`, `setting` and `successCriteria` go into the tutor's
+// system instruction; title, description and goals are shown to the learner.
+export interface Scenario {
+  id: string;
+  icon: string;
+  level: CefrLevel;
+  title: LocalizedText;
+  description: LocalizedText;
+  setting: string;
+  persona: string;
+  goals: ScenarioGoal[];
+  successCriteria: string;
+}
+
+export const SCENARIOS: Scenario[] = [
+  {
+    id: "restaurant",
+    icon: "🍜",
+    level: "A1",
+    title: { id: "Memesan makanan", en: "Ordering food" },
+    description: {
+      id: "Kamu makan malam di restoran kecil. Pesan makanan dan minuman, lalu minta bonnya.",
+      en: "You're having dinner at a small restaurant. Order food and a drink, then ask for the bill.",
+    },
+    setting: "Sebuah restoran kecil yang ramai pada malam hari.",
+    persona: "Pelayan restoran yang ramah tetapi sibuk. Kamu menyambut tamu, menawarkan menu, menjawab pertanyaan tentang hidangan, dan membawakan bon.",
+    goals: [
+      { id: "greet", text: { id: "Menyapa pelayan dan meminta meja", en: "Greet the waiter and ask for a table" } },
+      { id: "order", text: { id: "Memesan satu hidangan dan satu minuman", en: "Order a dish and a drink" } },
+      { id: "ask", text: { id: "Bertanya tentang salah satu hidangan", en: "Ask a question about a dish" } },
+      { id: "bill", text: { id: "Meminta bon dan membayar", en: "Ask for the bill and pay" } },
+    ],
+    successCriteria: "Pembelajar berhasil memesan dan membayar dengan kalimat yang dapat dimengerti oleh pelayan sungguhan.",
+  },
+  {
+    id: "directions",
+    icon: "🗺️",
+    level: "A1",
+    title: { id: "Menanyakan arah", en: "Asking for directions" },
+    description: {
+      id: "Kamu tersesat di kota baru. Tanyakan jalan ke stasiun kepada orang yang lewat.",
+      en: "You're lost in a new city. Ask a passer-by how to get to the station.",
+    },
+    setting: "Sebuah jalan di pusat kota, siang hari.",
+    persona: "Warga setempat yang sabar. Kamu memberi petunjuk arah langkah demi langkah dengan patokan yang jelas.",
+    goals: [
+      { id: "polite", text: { id: "Membuka percakapan dengan sopan", en: "Open the conversation politely" } },
+      { id: "ask", text: { id: "Menanyakan arah ke stasiun", en: "Ask the way to the station" } },
+      { id: "confirm", text: { id: "Mengulang atau mengonfirmasi petunjuk", en: "Repeat or confirm the directions" } },
+      { id: "thank", text: { id: "Berterima kasih dan berpamitan", en: "Say thank you and goodbye" } },
+    ],
+    successCriteria: "Pembelajar memahami petunjuk arah dan dapat mengulanginya dengan kata-katanya sendiri.",
+  },
+  {
+    id: "hotel",
+    icon: "🏨",
+    level: "A2",
+    title: { id: "Check-in hotel", en: "Checking into a hotel" },
+    description: {
+      id: "Kamu tiba di hotel setelah perjalanan panjang. Lakukan check-in dan selesaikan masalah kecil dengan kamarmu.",
+      en: "You arrive at a hotel after a long trip. Check in and sort out a small problem with your room.",
+    },
+    setting: "Meja resepsionis sebuah hotel kota pada sore hari.",
+    persona: "Resepsionis hotel yang profesional. Kamu meminta nama dan paspor, menjelaskan fasilitas, dan di tengah percakapan memberi tahu bahwa kamar yang dipesan belum siap.",
+    goals: [
+      { id: "reservation", text: { id: "Menyebutkan reservasi atas namamu", en: "Give the name on your reservation" } },
+      { id: "details", text: { id: "Menanyakan jam sarapan atau Wi-Fi", en: "Ask about breakfast times or Wi-Fi" } },
+      { id: "problem", text: { id: "Menyelesaikan masalah kamar yang belum siap", en: "Deal with the room not being ready" } },
+      { id: "checkout", text: { id: "Memastikan waktu check-out", en: "Confirm the check-out time" } },
+    ],
+    successCriteria: "Pembelajar menyelesaikan check-in dan menegosiasikan solusi untuk kamar yang belum siap.",
+  },
+  {
+    id: "doctor",
+    icon: "🩺",
+    level: "B1",
+    title: { id: "Ke dokter", en: "Visiting the doctor" },
+    description: {
+      id: "Kamu merasa tidak enak badan selama beberapa hari. Jelaskan gejalamu kepada dokter dan pahami sarannya.",
+      en: "You've felt unwell for a few days. Describe your symptoms to the doctor and understand the advice.",
+    },
+    setting: "Ruang praktik dokter umum.",
+    persona: "Dokter umum yang teliti. Kamu menanyakan gejala, sejak kapan, dan riwayat alergi, lalu memberi diagnosis sederhana dan instruksi minum obat.",
+    goals: [
+      { id: "symptoms", text: { id: "Menjelaskan setidaknya dua gejala", en: "Describe at least two symptoms" } },
+      { id: "duration", text: { id: "Menyebutkan sejak kapan gejalanya muncul", en: "Say how long you've had them" } },
+      { id: "allergies", text: { id: "Menjawab pertanyaan tentang alergi atau obat", en: "Answer questions about allergies or medication" } },
+      { id: "instructions", text: { id: "Mengonfirmasi cara minum obat", en: "Confirm how to take the medicine" } },
+    ],
+    successCriteria: "Pembelajar menyampaikan gejalanya dengan jelas dan dapat mengulang instruksi dokter dengan benar.",
+  },
+  {
+    id: "interview",
+    icon: "💼",
+    level: "B2",
+    title: { id: "Wawancara kerja", en: "Job interview" },
+    description: {
+      id: "Kamu melamar pekerjaan di perusahaan internasional. Perkenalkan dirimu dan yakinkan pewawancara.",
+      en: "You're applying for a job at an international company. Introduce yourself and convince the interviewer.",
+    },
+    setting: "Wawancara kerja formal di kantor sebuah perusahaan internasional.",
+    persona: "Manajer HR yang sopan tetapi kritis. Kamu menanyakan pengalaman, kekuatan dan kelemahan, serta satu pertanyaan situasional, lalu mempersilakan kandidat bertanya.",
+    goals: [
+      { id: "introduce", text: { id: "Memperkenalkan diri dan latar belakangmu", en: "Introduce yourself and your background" } },
+      { id: "strengths", text: { id: "Menjelaskan kekuatan dengan contoh", en: "Describe a strength with an example" } },
+      { id: "situation", text: { id: "Menjawab pertanyaan situasional", en: "Answer a situational question" } },
+      { id: "question", text: { id: "Mengajukan pertanyaan kepada pewawancara", en: "Ask the interviewer a question" } },
+    ],
+    successCriteria: "Pembelajar menjawab dengan register formal, memberi contoh konkret, dan mengajukan pertanyaan yang relevan.",
+  },
+];
+
+export function getScenario(id: string | null | undefined): Scenario | undefined {
+  return id ? SCENARIOS.find(scenario => scenario.id === id) : undefined;
+}
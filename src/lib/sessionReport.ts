@@ -0,0 +1,88 @@
+import { Type, type Schema } from "@google/genai";
+import type { SessionMistake, SessionReportContent, VocabularyItem } from "./types";
+
+const MAX_VOCABULARY = 10;
+const MAX_MISTAKES = 5;
+const MAX_POINTS = 5;
+
+export const SESSION_REPORT_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    summary: {
+      type: Type.STRING,
+      description: "Two or three sentences on what the session covered and how the learner did, in the learner's native language.",
+    },
+    vocabulary: {
+      type: Type.ARRAY,
+      description: `Up to ${MAX_VOCABULARY} words or phrases in the target language that were new to the learner in this session.`,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          term: { type: Type.STRING, description: "Dictionary form in the target language." },
+          translation: { type: Type.STRING, description: "Meaning in the learner's native language." },
+          example: { type: Type.STRING, description: "The sentence from the session that used it." },
+        },
+        required: ["term", "translation", "example"],
+        propertyOrdering: ["term", "translation", "example"],
+      },
+    },
+    mistakes: {
+      type: Type.ARRAY,
+      description: `Up to ${MAX_MISTAKES} kinds of mistake the learner made more than once, most frequent first. Empty if none recurred.`,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          pattern: { type: Type.STRING, description: "What goes wrong, in the learner's native language." },
+          example: { type: Type.STRING, description: "One of the learner's own wrong attempts, copied exactly." },
+          correction: { type: Type.STRING, description: "The corrected version of that attempt." },
+          count: { type: Type.INTEGER, description: "How many times it happened in the session." },
+        },
+        required: ["pattern", "example", "correction", "count"],
+        propertyOrdering: ["pattern", "example", "correction", "count"],
+      },
+    },
+    grammarPoints: {
+      type: Type.ARRAY,
+      description: `Up to ${MAX_POINTS} grammar points that came up, each a short label in the learner's native language.`,
+      items: { type: Type.STRING },
+    },
+    nextTopics: {
+      type: Type.ARRAY,
+      description: `Up to ${MAX_POINTS} topics or exercises to try next session, in the learner's native language.`,
+      items: { type: Type.STRING },
+    },
+  },
+  required: ["summary", "vocabulary", "mistakes", "grammarPoints", "nextTopics"],
+  propertyOrdering: ["summary", "vocabulary", "mistakes", "grammarPoints", "nextTopics"],
+};
+
+const text = (value: unknown) => (typeof value === "string" ? value.trim() : "");
+
+const strings = (value: unknown) =>
+  (Array.isArray(value) ? value : []).map(text).filter(Boolean).slice(0, MAX_POINTS);
+
+// Drops malformed entries and caps every list, so a chatty model can't flood the card
+export function parseSessionReport(raw: string): SessionReportContent {
+  const parsed = JSON.parse(raw);
+  const vocabulary: VocabularyItem[] = (Array.isArray(parsed.vocabulary) ? parsed.vocabulary : [])
+    .map((item: Record<string, unknown>) => ({ term: text(item?.term), translation: text(item?.translation), example: text(item?.example) }))
+    .filter((item: VocabularyItem) => item.term)
+    .slice(0, MAX_VOCABULARY);
+  const mistakes: SessionMistake[] = (Array.isArray(parsed.mistakes) ? parsed.mistakes : [])
+    .map((item: Record<string, unknown>) => ({
+      pattern: text(item?.pattern),
+      example: text(item?.example),
+      correction: text(item?.correction),
+      count: typeof item?.count === "number" && item.count > 0 ? Math.round(item.count) : 1,
+    }))
+    .filter((item: SessionMistake) => item.pattern)
+    .slice(0, MAX_MISTAKES);
+
+  return {
+    summary: text(parsed.summary),
+    vocabulary,
+    mistakes,
+    grammarPoints: strings(parsed.grammarPoints),
+    nextTopics: strings(parsed.nextTopics),
+  };
+}
@@ -0,0 +1,21 @@
+import type { SessionReport } from "./types";
+import { STORES, withStore } from "./db";
+
+// Keyed by conversation, so ending the same session again replaces its report
+export type StoredSessionReport = SessionReport & { id: string };
+
+export async function listSessionReports(targetLanguage: string): Promise<SessionReport[]> {
+  const reports = await withStore<StoredSessionReport[]>(STORES.sessionReports, "readonly", store =>
+    store.index("targetLanguage").getAll(targetLanguage)
+  );
+  return reports.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export async function saveSessionReport(report: SessionReport): Promise<void> {
+  await withStore(STORES.sessionReports, "readwrite", store => store.put({ ...report, id: report.conversationId }));
+}
+
+// The most recent report from another conversation that came before this one
+export function previousSessionReport(reports: SessionReport[], report: SessionReport): SessionReport | undefined {
+  return reports.find(r => r.conversationId !== report.conversationId && r.createdAt < report.createdAt);
+}
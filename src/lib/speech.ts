@@ -0,0 +1,14 @@
+import { resolveModel } from "./models";
+import type { LlmProvider } from "./providers";
+import { DEFAULT_TTS_VOICE } from "./voices";
+
+export const TTS_SAMPLE_RATE = 24000;
+
+// Voices `text` with the provider's TTS; resolves to base64 16-bit PCM at TTS_SAMPLE_RATE
+export async function synthesizeSpeech(provider: LlmProvider, text: string, language: string, voiceName: string = DEFAULT_TTS_VOICE): Promise<string> {
+  return provider.synthesizeSpeech({
+    model: resolveModel("tts"),
+    prompt: `Say slowly and clearly, in ${language}: ${text}`,
+    voiceName,
+  });
+}
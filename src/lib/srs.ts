@@ -0,0 +1,50 @@
+// SM-2 spaced repetition (SuperMemo 2), with grades on its 0–5 quality scale
+
+export type ReviewGrade = 0 | 1 | 2 | 3 | 4 | 5;
+
+export interface SrsState {
+  repetitions: number;
+  // Days until the next review
+  interval: number;
+  easeFactor: number;
+  due: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_EASE_FACTOR = 1.3;
+
+// The four answer buttons of the review screen
+export const REVIEW_GRADES = {
+  again: 1,
+  hard: 3,
+  good: 4,
+  easy: 5,
+} as const satisfies Record<string, ReviewGrade>;
+
+export function initialSrsState(now: number): SrsState {
+  return { repetitions: 0, interval: 0, easeFactor: 2.5, due: now };
+}
+
+export function scheduleReview(state: SrsState, grade: ReviewGrade, now: number): SrsState {
+  let { repetitions, interval } = state;
+
+  if (grade < 3) {
+    // Forgotten: start the ladder again
+    repetitions = 0;
+    interval = 1;
+  } else {
+    repetitions += 1;
+    interval = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(interval * state.easeFactor);
+  }
+
+  const easeFactor = Math.max(
+    MIN_EASE_FACTOR,
+    state.easeFactor + 0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02)
+  );
+
+  return { repetitions, interval, easeFactor, due: now + interval * DAY_MS };
+}
+
+export function isDue(state: SrsState, now: number): boolean {
+  return state.due <= now;
+}
@@ -0,0 +1,122 @@
+import { isCefrLevel, type CefrLevel } from "./proficiency";
+import { getScenario, type Scenario } from "./scenarios";
+
+// Used in prompts when the client didn't say which languages it is working with
+export const DEFAULT_TARGET_LANGUAGE = "Bahasa Inggris";
+export const DEFAULT_NATIVE_LANGUAGE = "Bahasa Indonesia";
+
+export type CorrectionStrictness = "gentle" | "standard" | "strict";
+export type ReplyLength = "short" | "medium" | "long";
+
+export interface TutorConfig {
+  targetLanguage: string;
+  nativeLanguage: string;
+  // Text replies follow TUTOR_RESPONSE_SCHEMA; live replies are spoken
+  mode: "text" | "live";
+  persona: string;
+  level?: CefrLevel;
+  strictness: CorrectionStrictness;
+  replyLength: ReplyLength;
+  scenario?: Scenario;
+}
+
+const DEFAULT_PERSONA = "tutor bahasa yang ramah dan sabar";
+
+const STRICTNESS_RULES: Record<CorrectionStrictness, string> = {
+  gentle: "Koreksi dengan lembut hanya kesalahan yang membuat maknanya tidak jelas; abaikan kesalahan kecil",
+  standard: "Koreksi kesalahan tata bahasa dengan lembut",
+  strict: "Koreksi setiap kesalahan, termasuk ejaan, tanda baca, dan pilihan kata yang kurang alami",
+};
+
+const REPLY_LENGTH_RULES: Record<ReplyLength, string> = {
+  short: "Balas dengan singkat, satu atau dua kalimat.",
+  medium: "Sesuaikan panjang balasan dengan pesan pengguna; biasanya cukup satu paragraf pendek.",
+  long: "Boleh membalas panjang dengan beberapa paragraf jika penjelasannya membutuhkan.",
+};
+
+const LEVEL_GUIDANCE: Record<CefrLevel, string> = {
+  A1: "Gunakan hanya kosakata paling dasar dan kalimat sangat pendek (maksimal 8 kata) dalam present tense. Selalu sertakan terjemahan {native} untuk setiap kalimat.",
+  A2: "Gunakan kosakata sehari-hari yang umum dan kalimat pendek (maksimal 12 kata) dengan tata bahasa sederhana. Sertakan terjemahan {native} untuk kata atau frasa yang mungkin baru.",
+  B1: "Gunakan kosakata umum dengan sesekali kata baru, kalimat menengah, dan tenses yang lazim. Gunakan {native} hanya untuk menjelaskan tata bahasa atau kata yang sulit.",
+  B2: "Gunakan kosakata yang beragam, kalimat majemuk, dan ungkapan idiomatis yang umum. Hindari {native} kecuali diminta.",
+  C1: "Gunakan kosakata yang kaya dan bernuansa, struktur kalimat kompleks, idiom, dan perbedaan register. Jangan gunakan {native} kecuali diminta.",
+  C2: "Berbicaralah seperti kepada penutur asli yang terdidik: kosakata presisi, idiom, humor, dan nuansa budaya. Jangan gunakan {native} kecuali diminta.",
+};
+
+function isStrictness(value: unknown): value is CorrectionStrictness {
+  return typeof value === "string" && Object.hasOwn(STRICTNESS_RULES, value);
+}
+
+function isReplyLength(value: unknown): value is ReplyLength {
+  return typeof value === "string" && Object.hasOwn(REPLY_LENGTH_RULES, value);
+}
+
+// Reads the tutor settings from a request body; missing or unknown values fall back to the defaults.
+// The persona is not client-controlled — only a scenario changes who the tutor plays.
+export function tutorConfigFromRequest(body: Record<string, unknown>, mode: TutorConfig["mode"]): TutorConfig {
+  const { targetLanguage, nativeLanguage, level, strictness, replyLength, scenarioId } = body;
+  return {
+    targetLanguage: typeof targetLanguage === "string" && targetLanguage ? targetLanguage : DEFAULT_TARGET_LANGUAGE,
+    nativeLanguage: typeof nativeLanguage === "string" && nativeLanguage ? nativeLanguage : DEFAULT_NATIVE_LANGUAGE,
+    mode,
+    persona: DEFAULT_PERSONA,
+    level: isCefrLevel(level) ? level : undefined,
+    strictness: isStrictness(strictness) ? strictness : "standard",
+    replyLength: isReplyLength(replyLength) ? replyLength : mode === "live" ? "short" : "medium",
+    scenario: typeof scenarioId === "string" ? getScenario(scenarioId) : undefined,
+  };
+}
+
+function textFormatSection({ targetLanguage, nativeLanguage }: TutorConfig): string {
+  return `Format respons kamu (JSON sesuai skema):
+- "reply": respons kamu dalam ${targetLanguage}, boleh berisi tips atau catatan tata bahasa jika relevan. Gunakan Markdown: daftar, tabel (misalnya untuk konjugasi), dan \`kode\` untuk kata yang dibahas. Untuk cara baca kanji/hanzi tulis {漢字|かんじ} atau {你好|nǐ hǎo}; jangan gunakan HTML
+- "translation": terjemahan "reply" ke ${nativeLanguage}
+- "corrections": setiap kesalahan di pesan terakhir pengguna — "original" adalah potongan yang salah, disalin persis dari pesan pengguna; "corrected" adalah penggantinya; "explanation" adalah penjelasan singkat aturannya dalam ${nativeLanguage}. Kosongkan jika tidak ada kesalahan. Jangan ulangi koreksi di "reply".
+- "vocabulary": maksimal 5 kata atau frasa baru dalam ${targetLanguage} dari "reply" yang layak dihafal — "term" dalam bentuk kamus, "translation" artinya dalam ${nativeLanguage}, "example" satu kalimat contoh singkat. Kosongkan jika tidak ada kata baru.`;
+}
+
+function liveFormatSection({ targetLanguage, nativeLanguage }: TutorConfig): string {
+  return `Respons kamu harus jelas dan dalam ${targetLanguage} dengan terjemahan ${nativeLanguage} jika diperlukan.`;
+}
+
+function levelSection(level: CefrLevel, { targetLanguage, nativeLanguage }: TutorConfig): string {
+  return `Level pembelajar dalam ${targetLanguage}: ${level} (CEFR). ${LEVEL_GUIDANCE[level].replaceAll("{native}", nativeLanguage)}`;
+}
+
+function scenarioSection(scenario: Scenario, { targetLanguage, nativeLanguage }: TutorConfig): string {
+  const goals = scenario.goals.map((goal, i) => `${i + 1}. ${goal.text.id}`).join("\n");
+  return `Mode role-play (level ${scenario.level}):
+Situasi: ${scenario.setting}
+Peranmu: ${scenario.persona}
+
+Tujuan pembelajar dalam percakapan ini:
+${goals}
+
+Kriteria berhasil: ${scenario.successCriteria}
+
+Tetap dalam peran dan berbicaralah dalam ${targetLanguage}, dengan kosakata dan panjang kalimat yang sesuai level pembelajar (skenario ini dirancang untuk level ${scenario.level}). Arahkan percakapan secara alami agar pembelajar punya kesempatan mencapai setiap tujuan. Jangan keluar dari peran untuk mengoreksi; jika pembelajar kesulitan, beri petunjuk singkat dalam ${nativeLanguage} di dalam tanda kurung.`;
+}
+
+// The tutor's system instruction for the chat (/api/gemini) and live (/api/gemini/live) routes
+export function buildTutorInstruction(config: TutorConfig): string {
+  const { targetLanguage, nativeLanguage, persona, strictness, replyLength, level, scenario } = config;
+  const base = `Kamu adalah ${persona}. Kamu membantu pengguna belajar ${targetLanguage} dari ${nativeLanguage}.
+
+Cara kamu membantu:
+1. ${STRICTNESS_RULES[strictness]}
+2. Berikan terjemahan jika diminta
+3. Jelaskan aturan tata bahasa dengan contoh
+4. Berikan pujian untuk kemajuan pengguna
+5. Gunakan percakapan sehari-hari yang natural
+6. Jika pengguna berbicara dalam ${nativeLanguage}, bantu mereka mengatakannya dalam ${targetLanguage}
+7. Berikan contoh kalimat yang relevan
+
+${REPLY_LENGTH_RULES[replyLength]}`;
+
+  return [
+    base,
+    config.mode === "text" ? textFormatSection(config) : liveFormatSection(config),
+    level && levelSection(level, config),
+    scenario && scenarioSection(scenario, config),
+  ].filter(Boolean).join("\n\n");
+}
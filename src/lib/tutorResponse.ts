@@ -0,0 +1,121 @@
+import { Type, type Schema } from "@google/genai";
+import type { Correction, VocabularyItem } from "./types";
+
+export interface TutorResponse {
+  reply: string;
+  translation: string;
+  corrections: Correction[];
+  vocabulary: VocabularyItem[];
+}
+
+// `reply` comes first so it can be streamed to the chat before the rest of the object is complete
+export const TUTOR_RESPONSE_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    reply: {
+      type: Type.STRING,
+      description: "The tutor's reply in the target language. Markdown allowed; readings as {base|reading}.",
+    },
+    translation: {
+      type: Type.STRING,
+      description: "Translation of the reply into the learner's native language.",
+    },
+    corrections: {
+      type: Type.ARRAY,
+      description: "Mistakes in the learner's last message. Empty if there are none.",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          original: {
+            type: Type.STRING,
+            description: "The exact incorrect span, copied verbatim from the learner's message.",
+          },
+          corrected: { type: Type.STRING, description: "The corrected replacement for that span." },
+          explanation: {
+            type: Type.STRING,
+            description: "Short explanation of the grammar rule, in the learner's native language.",
+          },
+        },
+        required: ["original", "corrected", "explanation"],
+        propertyOrdering: ["original", "corrected", "explanation"],
+      },
+    },
+    vocabulary: {
+      type: Type.ARRAY,
+      description: "Up to five new target-language words or phrases from the reply worth memorizing.",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          term: { type: Type.STRING, description: "The word or phrase in its dictionary form." },
+          translation: { type: Type.STRING, description: "Its meaning in the learner's native language." },
+          example: { type: Type.STRING, description: "A short example sentence in the target language." },
+        },
+        required: ["term", "translation", "example"],
+        propertyOrdering: ["term", "translation", "example"],
+      },
+    },
+  },
+  required: ["reply", "translation", "corrections", "vocabulary"],
+  propertyOrdering: ["reply", "translation", "corrections", "vocabulary"],
+};
+
+// Parses the model's JSON; anything that isn't our shape is treated as a plain reply
+export function parseTutorResponse(raw: string): TutorResponse {
+  try {
+    const parsed = JSON.parse(raw);
+    return {
+      reply: typeof parsed.reply === "string" ? parsed.reply : "",
+      translation: typeof parsed.translation === "string" ? parsed.translation : "",
+      corrections: Array.isArray(parsed.corrections)
+        ? parsed.corrections.filter(
+            (c: Partial<Correction>) => typeof c?.original === "string" && typeof c?.corrected === "string"
+          ).map((c: Correction) => ({
+            original: c.original,
+            corrected: c.corrected,
+            explanation: typeof c.explanation === "string" ? c.explanation : "",
+          }))
+        : [],
+      vocabulary: Array.isArray(parsed.vocabulary)
+        ? parsed.vocabulary.filter(
+            (v: Partial<VocabularyItem>) => typeof v?.term === "string" && v.term.trim() && typeof v?.translation === "string"
+          ).map((v: VocabularyItem) => ({
+            term: v.term,
+            translation: v.translation,
+            example: typeof v.example === "string" ? v.example : "",
+          }))
+        : [],
+    };
+  } catch {
+    return { reply: raw, translation: "", corrections: [], vocabulary: [] };
+  }
+}
+
+// Reads the (possibly unterminated) string value of `field` from a JSON prefix
+export function extractPartialJsonString(raw: string, field: string): string {
+  const key = raw.indexOf(`"${field}"`);
+  if (key === -1) return "";
+  const colon = raw.indexOf(":", key + field.length + 2);
+  if (colon === -1) return "";
+  const quote = raw.indexOf("\"", colon + 1);
+  if (quote === -1) return "";
+
+  let end = quote + 1;
+  while (end < raw.length) {
+    const ch = raw[end];
+    if (ch === "\\") {
+      end += 2;
+      continue;
+    }
+    if (ch === "\"") break;
+    end++;
+  }
+
+  // Trim an escape sequence that was cut off mid-chunk before decoding
+  let body = raw.slice(quote + 1, Math.min(end, raw.length));
+  body = body.replace(/\\u[0-9a-fA-F]{0,3}$/, "").replace(/(^|[^\\])(\\\\)*\\$/, "$1$2");
+  try {
+    return JSON.parse(`"${body}"`);
+  } catch {
+    return "";
+  }
+}
@@ -0,0 +1,123 @@
+import type { CefrLevel } from "./proficiency";
+
+// A grammar fix for a span of the learner's message
+export interface Correction {
+  original: string;
+  corrected: string;
+  explanation: string;
+}
+
+export interface Message {
+  id: string;
+  role: "user" | "model";
+  parts: [{ text: string }];
+  isAudio?: boolean;
+  // The tutor's spoken reply, kept for replay
+  audio?: MessageAudio;
+  timestamp?: Date;
+  // Set on model replies from /api/gemini
+  translation?: string;
+  // Set on the learner message the tutor corrected
+  corrections?: Correction[];
+  // Set on a learner message whose reply failed; it can be sent again from its bubble
+  failed?: boolean;
+  // New words the tutor introduced in this reply
+  vocabulary?: VocabularyItem[];
+  // Set on the summary message that closes a role-play scenario
+  scenarioReport?: ScenarioReport;
+  // Set on the recap message added when the learner ends the session
+  sessionReport?: SessionReport;
+}
+
+// Decoded mono PCM of a spoken reply
+export interface MessageAudio {
+  sampleRate: number;
+  samples: Float32Array<ArrayBuffer>;
+  // TTS voice that read a text reply aloud; unset for live replies
+  voice?: string;
+}
+
+// What GET /api/auth/session reports about the caller
+export interface AuthStatus {
+  loginRequired: boolean;
+  user: string | null;
+  // The learner stored their own Gemini key
+  ownKey: boolean;
+  // The deployment has a GEMINI_API_KEY; when used, `quota` shows today's usage
+  serverKey: boolean;
+  quota: {
+    used: { requests: number; audioSeconds: number };
+    limits: { requests: number; audioSeconds: number };
+  } | null;
+}
+
+// A word or phrase worth learning, as extracted by the tutor or saved by the learner
+export interface VocabularyItem {
+  term: string;
+  translation: string;
+  example: string;
+}
+
+// How one word of the drill sentence was pronounced
+export interface PronunciationWord {
+  word: string;
+  // 0–100
+  score: number;
+  // What the learner's attempt sounded like, if it differed
+  heard: string;
+  phonemes: { expected: string; heard: string }[];
+  tip: string;
+  // Model-voiced reading of the word (24 kHz PCM, base64), included for weak words
+  referenceAudio?: string;
+}
+
+export interface PronunciationResult {
+  overallScore: number;
+  feedback: string;
+  words: PronunciationWord[];
+  // Model-voiced reading of the whole sentence (24 kHz PCM, base64)
+  referenceAudio: string | null;
+  sampleRate: number;
+}
+
+// End-of-scenario assessment from /api/gemini/scenario-summary
+export interface ScenarioReport {
+  scenarioId: string;
+  goals: { goalId: string; met: boolean; evidence: string }[];
+  summary: string;
+  nextSteps: string;
+}
+
+// A mistake the learner made more than once, as found by /api/gemini/session-summary
+export interface SessionMistake {
+  // What goes wrong, in the learner's native language
+  pattern: string;
+  // One of the learner's own attempts and its fix
+  example: string;
+  correction: string;
+  count: number;
+}
+
+// What /api/gemini/session-summary returns
+export interface SessionReportContent {
+  summary: string;
+  vocabulary: VocabularyItem[];
+  mistakes: SessionMistake[];
+  grammarPoints: string[];
+  nextTopics: string[];
+}
+
+// Recap of one conversation, stored so sessions can be compared
+export interface SessionReport extends SessionReportContent {
+  conversationId: string;
+  targetLanguage: string;
+  createdAt: number;
+  // Learner messages in the session and how many of them the tutor corrected
+  stats: { learnerMessages: number; correctedMessages: number };
+}
+
+// Level estimate from /api/gemini/placement
+export interface PlacementResult {
+  level: CefrLevel;
+  rationale: string;
+}
@@ -0,0 +1,77 @@
+import { describe, expect, test } from "bun:test";
+import { CAPTURE_FRAME_SAMPLES } from "./micCapture";
+import { BARGE_IN_MARGIN_DB, createVoiceActivityDetector, getStoredVadSensitivity, storeVadSensitivity, type VadEvent } from "./vad";
+
+// One 200 ms capture frame: a 220 Hz tone at `amplitude` (0–1) over faint deterministic noise
+function frame(amplitude: number, noise = 0.002): Int16Array {
+  const samples = new Int16Array(CAPTURE_FRAME_SAMPLES);
+  for (let i = 0; i < samples.length; i++) {
+    const hiss = noise * Math.sin(i * 12.9898) * Math.cos(i * 78.233);
+    samples[i] = Math.round((amplitude * Math.sin((2 * Math.PI * 220 * i) / 16000) + hiss) * 32767);
+  }
+  return samples;
+}
+
+function run(frames: Int16Array[], sensitivity: "low" | "medium" | "high" = "medium", extraMarginDb = 0): (VadEvent | null)[] {
+  const vad = createVoiceActivityDetector(sensitivity);
+  return frames.map(f => vad.process(f, extraMarginDb));
+}
+
+const silence = (count: number) => Array.from({ length: count }, () => frame(0));
+const speech = (count: number, amplitude = 0.3) => Array.from({ length: count }, () => frame(amplitude));
+
+describe("createVoiceActivityDetector", () => {
+  test("stays quiet on background noise", () => {
+    expect(run(silence(10)).every(event => event === null)).toBe(true);
+  });
+
+  test("marks the start and end of an utterance", () => {
+    const events = run([...silence(3), ...speech(5), ...silence(5)]);
+
+    expect(events.indexOf("start")).toBe(3);
+    // 700 ms of silence is three and a half frames
+    expect(events.indexOf("end")).toBe(11);
+    expect(events.filter(Boolean)).toEqual(["start", "end"]);
+  });
+
+  test("keeps a short pause inside the utterance", () => {
+    const events = run([...silence(2), ...speech(3), ...silence(2), ...speech(3), ...silence(5)]);
+
+    expect(events.filter(Boolean)).toEqual(["start", "end"]);
+  });
+
+  test("calibrates to a room that is already noisy", () => {
+    const noisy = Array.from({ length: 15 }, () => frame(0, 0.05));
+    expect(run(noisy).every(event => event === null)).toBe(true);
+  });
+
+  test("gives up on an endless utterance and treats it as the new noise floor", () => {
+    const events = run([...silence(3), ...speech(200)]);
+
+    expect(events.filter(Boolean)).toEqual(["start", "end"]);
+    // 30 s is 150 frames after the start
+    expect(events.indexOf("end") - events.indexOf("start")).toBe(150);
+  });
+
+  test("ignores quiet speech at low sensitivity but not at high", () => {
+    const quiet = [...silence(3), ...speech(4, 0.008)];
+
+    expect(run(quiet, "low")).not.toContain("start");
+    expect(run(quiet, "high")).toContain("start");
+  });
+
+  test("needs louder speech to barge in over the tutor", () => {
+    const borderline = [...silence(3), ...speech(4, 0.02)];
+
+    expect(run(borderline, "high")).toContain("start");
+    expect(run(borderline, "high", BARGE_IN_MARGIN_DB + 20)).not.toContain("start");
+  });
+});
+
+describe("stored sensitivity", () => {
+  test("defaults to medium and round-trips", () => {
+    expect(getStoredVadSensitivity()).toBe("medium");
+    storeVadSensitivity("high");
+    expect(getStoredVadSensitivity()).toBe("high");
+  });
+});
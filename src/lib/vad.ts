@@ -0,0 +1,129 @@
+import { CAPTURE_SAMPLE_RATE } from "./micCapture";
+
+// Energy-based voice activity detection on captured 16 kHz Int16 frames. Each frame is split
+// into 20 ms windows compared against an adaptive noise floor, so steady background noise
+// raises the bar instead of counting as speech.
+
+export const VAD_SENSITIVITIES = ["low", "medium", "high"] as const;
+export type VadSensitivity = (typeof VAD_SENSITIVITIES)[number];
+
+export const VAD_SENSITIVITY_STORAGE_KEY = "vad_sensitivity";
+
+const WINDOW_SAMPLES = CAPTURE_SAMPLE_RATE / 50;
+const WINDOW_MS = 20;
+// Voiced time before an utterance counts as started; filters out clicks and coughs
+const START_MS = 120;
+// Silence that ends an utterance; long enough for pauses between words
+const END_MS = 700;
+// The first windows after the mic opens only measure the room
+const CALIBRATION_MS = 400;
+// An "utterance" this long is more likely new background noise; it is ended and the floor re-based
+const MAX_UTTERANCE_MS = 30_000;
+
+// marginDb: how far above the noise floor speech must be; minLevelDb: absolute lower bound
+const PRESETS: Record<VadSensitivity, { marginDb: number; minLevelDb: number }> = {
+  low: { marginDb: 15, minLevelDb: -40 },
+  medium: { marginDb: 10, minLevelDb: -48 },
+  high: { marginDb: 6, minLevelDb: -55 },
+};
+
+// Extra margin while the tutor is talking, so its echo through the speakers isn't taken for barge-in
+export const BARGE_IN_MARGIN_DB = 6;
+
+export type VadEvent = "start" | "end";
+
+export interface VoiceActivityDetector {
+  // Feeds one capture frame; returns the event if the speaking state flipped during it
+  process: (frame: Int16Array, extraMarginDb?: number) => VadEvent | null;
+  isSpeaking: () => boolean;
+}
+
+export function isVadSensitivity(value: unknown): value is VadSensitivity {
+  return VAD_SENSITIVITIES.includes(value as VadSensitivity);
+}
+
+export function getStoredVadSensitivity(): VadSensitivity {
+  if (typeof window === "undefined") return "medium";
+  const stored = localStorage.getItem(VAD_SENSITIVITY_STORAGE_KEY);
+  return isVadSensitivity(stored) ? stored : "medium";
+}
+
+export function storeVadSensitivity(sensitivity: VadSensitivity) {
+  localStorage.setItem(VAD_SENSITIVITY_STORAGE_KEY, sensitivity);
+}
+
+function windowLevelDb(frame: Int16Array, start: number, end: number): number {
+  let sum = 0;
+  for (let i = start; i < end; i++) {
+    const sample = frame[i] / 32768;
+    sum += sample * sample;
+  }
+  return 10 * Math.log10(sum / (end - start) + 1e-10);
+}
+
+export function createVoiceActivityDetector(sensitivity: VadSensitivity): VoiceActivityDetector {
+  const { marginDb, minLevelDb } = PRESETS[sensitivity];
+  let noiseFloorDb: number | null = null;
+  let calibratedMs = 0;
+  let speaking = false;
+  let voicedMs = 0;
+  let silentMs = 0;
+  let utteranceMs = 0;
+
+  return {
+    process(frame, extraMarginDb = 0) {
+      // At most one flip per frame; a second one is picked up at the start of the next frame
+      let event: VadEvent | null = null;
+
+      for (let start = 0; start < frame.length; start += WINDOW_SAMPLES) {
+        const end = Math.min(frame.length, start + WINDOW_SAMPLES);
+        const levelDb = windowLevelDb(frame, start, end);
+        const durationMs = ((end - start) / WINDOW_SAMPLES) * WINDOW_MS;
+
+        if (noiseFloorDb === null || calibratedMs < CALIBRATION_MS) {
+          noiseFloorDb = noiseFloorDb === null ? levelDb : noiseFloorDb + (levelDb - noiseFloorDb) * 0.3;
+          calibratedMs += durationMs;
+          continue;
+        }
+
+        const voiced = levelDb > Math.max(noiseFloorDb + marginDb, minLevelDb) + extraMarginDb;
+        if (speaking) {
+          utteranceMs += durationMs;
+          if (!event && utteranceMs >= MAX_UTTERANCE_MS) {
+            speaking = false;
+            event = "end";
+            noiseFloorDb = levelDb;
+            voicedMs = 0;
+            continue;
+          }
+        }
+
+        if (!voiced && !speaking) {
+          // Falls quickly when the room gets quieter, rises slowly so speech doesn't drag it up
+          noiseFloorDb += (levelDb - noiseFloorDb) * (levelDb < noiseFloorDb ? 0.3 : 0.02);
+        }
+
+        if (voiced) {
+          voicedMs += durationMs;
+          silentMs = 0;
+          if (!speaking && !event && voicedMs >= START_MS) {
+            speaking = true;
+            utteranceMs = 0;
+            event = "start";
+          }
+        } else {
+          silentMs += durationMs;
+          voicedMs = 0;
+          if (speaking && !event && silentMs >= END_MS) {
+            speaking = false;
+            event = "end";
+          }
+        }
+      }
+
+      return event;
+    },
+
+    isSpeaking: () => speaking,
+  };
+}
@@ -0,0 +1,79 @@
+import type { VocabularyItem } from "./types";
+import { STORES, withStore } from "./db";
+import { initialSrsState, isDue, scheduleReview, type ReviewGrade, type SrsState } from "./srs";
+
+export interface VocabularyCard extends VocabularyItem {
+  id: string;
+  targetLanguage: string;
+  // The tutor message the word was saved from, if any
+  sourceMessageId?: string;
+  createdAt: number;
+  srs: SrsState;
+  reviews: { at: number; grade: ReviewGrade }[];
+}
+
+function createCardId(): string {
+  return `vocab-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function normalizeTerm(term: string): string {
+  return term.trim().toLocaleLowerCase();
+}
+
+export async function listVocabulary(targetLanguage: string): Promise<VocabularyCard[]> {
+  const cards = await withStore<VocabularyCard[]>(STORES.vocabulary, "readonly", store =>
+    store.index("targetLanguage").getAll(targetLanguage)
+  );
+  return cards.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+// Every language's deck, for the progress dashboard
+export async function listAllVocabulary(): Promise<VocabularyCard[]> {
+  return withStore<VocabularyCard[]>(STORES.vocabulary, "readonly", store => store.getAll());
+}
+
+export function dueCards(cards: VocabularyCard[], now: number): VocabularyCard[] {
+  return cards.filter(card => isDue(card.srs, now)).sort((a, b) => a.srs.due - b.srs.due);
+}
+
+// Saving a term that is already in the deck returns the existing card instead of a duplicate
+export async function addVocabulary(
+  targetLanguage: string,
+  item: VocabularyItem,
+  sourceMessageId?: string
+): Promise<VocabularyCard> {
+  const existing = (await listVocabulary(targetLanguage)).find(
+    card => normalizeTerm(card.term) === normalizeTerm(item.term)
+  );
+  if (existing) return existing;
+
+  const now = Date.now();
+  const card: VocabularyCard = {
+    id: createCardId(),
+    targetLanguage,
+    term: item.term.trim(),
+    translation: item.translation.trim(),
+    example: item.example.trim(),
+    sourceMessageId,
+    createdAt: now,
+    srs: initialSrsState(now),
+    reviews: [],
+  };
+  await withStore(STORES.vocabulary, "readwrite", store => store.put(card));
+  return card;
+}
+
+export async function reviewVocabulary(card: VocabularyCard, grade: ReviewGrade): Promise<VocabularyCard> {
+  const now = Date.now();
+  const reviewed: VocabularyCard = {
+    ...card,
+    srs: scheduleReview(card.srs, grade, now),
+    reviews: [...card.reviews, { at: now, grade }],
+  };
+  await withStore(STORES.vocabulary, "readwrite", store => store.put(reviewed));
+  return reviewed;
+}
+
+export async function deleteVocabulary(id: string): Promise<void> {
+  await withStore(STORES.vocabulary, "readwrite", store => store.delete(id));
+}
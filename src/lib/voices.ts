@@ -0,0 +1,27 @@
+// Prebuilt Gemini TTS voices the learner can pick from; each of them speaks every target language
+
+export const TTS_VOICES = ["Kore", "Puck", "Charon", "Aoede", "Fenrir", "Leda", "Orus", "Zephyr"] as const;
+export type TtsVoice = (typeof TTS_VOICES)[number];
+
+export const DEFAULT_TTS_VOICE: TtsVoice = "Kore";
+
+// One voice per target language, so each language keeps the voice the learner got used to
+export const TTS_VOICES_STORAGE_KEY = "tts_voices";
+
+export function isTtsVoice(value: unknown): value is TtsVoice {
+  return TTS_VOICES.includes(value as TtsVoice);
+}
+
+export function getStoredVoices(): Record<string, TtsVoice> {
+  if (typeof window === "undefined") return {};
+  try {
+    const parsed = JSON.parse(localStorage.getItem(TTS_VOICES_STORAGE_KEY) || "{}");
+    return Object.fromEntries(Object.entries(parsed).filter(([, voice]) => isTtsVoice(voice))) as Record<string, TtsVoice>;
+  } catch {
+    return {};
+  }
+}
+
+export function storeVoices(voices: Record<string, TtsVoice>) {
+  localStorage.setItem(TTS_VOICES_STORAGE_KEY, JSON.stringify(voices));
+}
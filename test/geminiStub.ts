@@ -0,0 +1,50 @@
+import { mock } from "bun:test";
+import type { LlmProvider } from "@/lib/providers";
+
+// Stands in for the Gemini SDK in route tests. Each test sets the behaviour it needs with
+// `stubGemini({...})`; anything left out fails loudly instead of reaching the network.
+export interface GeminiStub {
+  provider: LlmProvider;
+  // Keys the routes created a provider with, in call order
+  apiKeys: string[];
+}
+
+const unexpected = (method: string) => async () => {
+  throw new Error(`Unexpected Gemini call: ${method}`);
+};
+
+function createStub(overrides: Partial<LlmProvider>): LlmProvider {
+  return {
+    name: "gemini",
+    generate: unexpected("generate"),
+    generateStream: unexpected("generateStream"),
+    synthesizeSpeech: unexpected("synthesizeSpeech"),
+    connectLive: unexpected("connectLive"),
+    verifyKey: unexpected("verifyKey"),
+    ...overrides,
+  };
+}
+
+const stub: GeminiStub = { provider: createStub({}), apiKeys: [] };
+
+mock.module("@/lib/providers/gemini", () => ({
+  createGeminiProvider: (apiKey: string) => {
+    stub.apiKeys.push(apiKey);
+    return stub.provider;
+  },
+}));
+
+export function stubGemini(overrides: Partial<LlmProvider> = {}): GeminiStub {
+  stub.provider = createStub(overrides);
+  stub.apiKeys = [];
+  return stub;
+}
+
+// Collects the `data:` payloads of a server-sent event response
+export async function readSseEvents<T>(response: Response): Promise<T[]> {
+  const text = await response.text();
+  return text
+    .split("\n\n")
+    .filter(block => block.startsWith("data: "))
+    .map(block => JSON.parse(block.slice(6)) as T);
+}
@@ -0,0 +1,19 @@
+import { GlobalRegistrator } from "@happy-dom/global-registrator";
+import { afterEach } from "bun:test";
+
+// Component tests need a DOM. It is registered before any test file is imported so Testing
+// Library's `screen` binds to the happy-dom document. Route handlers keep Bun's own fetch
+// primitives, since happy-dom's follow browser rules such as dropping the Cookie header.
+const { fetch, Request, Response, Headers, FormData, AbortController, AbortSignal } = globalThis;
+GlobalRegistrator.register({ url: "http://localhost:3000" });
+Object.assign(globalThis, { fetch, Request, Response, Headers, FormData, AbortController, AbortSignal });
+
+// The conversation and vocabulary stores live in IndexedDB
+const { indexedDB, IDBKeyRange } = await import("fake-indexeddb");
+Object.assign(globalThis, { indexedDB, IDBKeyRange });
+
+const { cleanup } = await import("@testing-library/react");
+afterEach(() => {
+  cleanup();
+  localStorage.clear();
+});